@@ -1,5 +1,8 @@
 import { v } from 'convex/values';
-import { mutation, query } from './_generated/server';
+import { mergeActivity } from '../src/core/ingest/merge.js';
+import type { Id } from './_generated/dataModel';
+import { type MutationCtx, mutation, query } from './_generated/server';
+import { refreshAccountAggregate } from './subscriptions';
 
 export const getAccountsByFounder = query({
   args: { founderId: v.id('founders') },
@@ -22,87 +25,286 @@ export const getActiveAccountsByFounder = query({
   },
 });
 
+/**
+ * The account, or null when it doesn't exist or the ID is malformed (e.g. from a URL)
+ */
 export const getAccountById = query({
-  args: { id: v.id('accounts') },
+  args: { id: v.string() },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.id);
+    const id = ctx.db.normalizeId('accounts', args.id);
+    return id ? await ctx.db.get(id) : null;
   },
 });
 
+const billingProvider = v.union(
+  v.literal('stripe'),
+  v.literal('paddle'),
+  v.literal('lemonsqueezy'),
+);
+
+const billingStatus = v.union(
+  v.literal('ACTIVE'),
+  v.literal('PAYMENT_FAILED'),
+  v.literal('CANCELING'),
+  v.literal('CANCELED'),
+);
+
+/**
+ * Write one subscription and roll it up into its customer's account.
+ *
+ * Accounts are keyed on (founder, customer); each subscription is a child row
+ * in `subscriptions`, and the account's MRR and billing status are derived
+ * from all of them.
+ */
 export const upsertAccount = mutation({
   args: {
     founderId: v.id('founders'),
     email: v.string(),
     name: v.optional(v.string()),
     mrr: v.number(),
-    billing_status: v.union(
-      v.literal('ACTIVE'),
-      v.literal('PAYMENT_FAILED'),
-      v.literal('CANCELING'),
-      v.literal('CANCELED'),
-    ),
+    currency: v.optional(v.string()),
+    billing_status: billingStatus,
     cancel_at_period_end: v.boolean(),
-    stripe_customer_id: v.optional(v.string()),
-    stripe_subscription_id: v.optional(v.string()),
+    card_expires_at: v.optional(v.string()),
+    current_period_end: v.optional(v.string()),
+    billing_provider: v.optional(billingProvider),
+    external_customer_id: v.optional(v.string()),
+    external_subscription_id: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const now = new Date().toISOString();
+    const provider = args.billing_provider ?? 'stripe';
+    const isStripe = provider === 'stripe';
+    const customerId = args.external_customer_id ?? null;
 
-    if (!args.stripe_subscription_id) {
-      return await ctx.db.insert('accounts', {
+    const existingSubscription = args.external_subscription_id
+      ? (
+          await ctx.db
+            .query('subscriptions')
+            .withIndex('by_external_subscription', (q) =>
+              q.eq('external_subscription_id', args.external_subscription_id as string),
+            )
+            .collect()
+        ).find((s) => s.founder_id === args.founderId)
+      : undefined;
+
+    const accountFields = {
+      email: args.email,
+      name: args.name ?? null,
+      billing_provider: provider,
+      external_customer_id: customerId,
+      // Kept for Stripe so existing lookups (events API, legacy rows) keep working
+      stripe_customer_id: isStripe ? customerId : null,
+    };
+
+    let accountId = existingSubscription?.account_id ?? null;
+
+    if (!accountId && customerId) {
+      accountId = await findCustomerAccount(ctx, args.founderId, customerId, isStripe);
+    }
+
+    if (accountId) {
+      await ctx.db.patch(accountId, { ...accountFields, updated_at: now });
+    } else {
+      accountId = await ctx.db.insert('accounts', {
         founder_id: args.founderId,
-        email: args.email,
-        name: args.name ?? null,
+        ...accountFields,
         mrr: args.mrr,
+        currency: args.currency ?? 'usd',
         billing_status: args.billing_status,
         cancel_at_period_end: args.cancel_at_period_end,
-        stripe_customer_id: args.stripe_customer_id ?? null,
-        stripe_subscription_id: args.stripe_subscription_id ?? null,
         last_active_at: null,
         activated: false,
         core_used: false,
-        usage_freq: 'WEEKLY',
+        usage_freq: 'WEEKLY' as const,
         created_at: now,
         updated_at: now,
       });
     }
 
-    const existing = await ctx.db
-      .query('accounts')
-      .withIndex('by_stripe_subscription', (q) =>
-        q.eq('stripe_subscription_id', args.stripe_subscription_id),
-      )
-      .collect();
+    const subscriptionFields = {
+      account_id: accountId,
+      mrr: args.mrr,
+      currency: args.currency ?? 'usd',
+      billing_status: args.billing_status,
+      cancel_at_period_end: args.cancel_at_period_end,
+      card_expires_at: args.card_expires_at ?? null,
+      current_period_end: args.current_period_end ?? null,
+      updated_at: now,
+    };
 
-    if (existing.length > 0) {
-      await ctx.db.patch(existing[0]._id, {
-        email: args.email,
-        name: args.name ?? null,
-        mrr: args.mrr,
-        billing_status: args.billing_status,
-        cancel_at_period_end: args.cancel_at_period_end,
-        stripe_customer_id: args.stripe_customer_id ?? null,
+    if (existingSubscription) {
+      await ctx.db.patch(existingSubscription._id, subscriptionFields);
+    } else {
+      await ctx.db.insert('subscriptions', {
+        founder_id: args.founderId,
+        billing_provider: provider,
+        external_subscription_id: args.external_subscription_id ?? null,
+        ...subscriptionFields,
+        created_at: now,
+      });
+    }
+
+    await refreshAccountAggregate(ctx, accountId);
+
+    return accountId;
+  },
+});
+
+/**
+ * Find the founder's account for a customer.
+ *
+ * Rows written before subscriptions were split out are one per subscription
+ * and only carry the Stripe IDs. The oldest is kept: it takes on the other
+ * copies' activity and their subscriptions, snapshots, decisions and snooze,
+ * then the copies are deleted. The caller refreshes the kept aggregate.
+ */
+async function findCustomerAccount(
+  ctx: MutationCtx,
+  founderId: Id<'founders'>,
+  customerId: string,
+  isStripe: boolean,
+): Promise<Id<'accounts'> | null> {
+  const byCustomer = await ctx.db
+    .query('accounts')
+    .withIndex('by_external_customer', (q) => q.eq('external_customer_id', customerId))
+    .collect();
+
+  const legacy = isStripe
+    ? await ctx.db
+        .query('accounts')
+        .withIndex('by_stripe_customer', (q) => q.eq('stripe_customer_id', customerId))
+        .collect()
+    : [];
+
+  const candidates = [...byCustomer, ...legacy]
+    .filter(
+      (a, i, all) => a.founder_id === founderId && all.findIndex((b) => b._id === a._id) === i,
+    )
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  if (candidates.length === 0) return null;
+
+  const [keep, ...duplicates] = candidates;
+  if (duplicates.length === 0) return keep._id;
+
+  await ctx.db.patch(keep._id, mergeActivity(candidates));
+
+  for (const duplicate of duplicates) {
+    await reassignAccountRows(ctx, duplicate._id, keep._id);
+    await ctx.db.delete(duplicate._id);
+  }
+
+  return keep._id;
+}
+
+/**
+ * Move every row that points at one account to another. The kept account's
+ * own snooze wins over the duplicate's.
+ */
+async function reassignAccountRows(
+  ctx: MutationCtx,
+  from: Id<'accounts'>,
+  to: Id<'accounts'>,
+): Promise<void> {
+  const subscriptions = await ctx.db
+    .query('subscriptions')
+    .withIndex('by_account', (q) => q.eq('account_id', from))
+    .collect();
+  const snapshots = await ctx.db
+    .query('account_snapshots')
+    .withIndex('by_account', (q) => q.eq('account_id', from))
+    .collect();
+  const decisions = await ctx.db
+    .query('decision_logs')
+    .withIndex('by_account', (q) => q.eq('account_id', from))
+    .collect();
+
+  for (const row of [...subscriptions, ...snapshots, ...decisions]) {
+    await ctx.db.patch(row._id, { account_id: to });
+  }
+
+  const snooze = await ctx.db
+    .query('account_snoozes')
+    .withIndex('by_account', (q) => q.eq('account_id', from))
+    .first();
+  if (!snooze) return;
+
+  const kept = await ctx.db
+    .query('account_snoozes')
+    .withIndex('by_account', (q) => q.eq('account_id', to))
+    .first();
+
+  if (kept) {
+    await ctx.db.delete(snooze._id);
+  } else {
+    await ctx.db.patch(snooze._id, { account_id: to });
+  }
+}
+
+export const recordActivity = mutation({
+  args: {
+    founderId: v.id('founders'),
+    email: v.optional(v.string()),
+    stripe_customer_id: v.optional(v.string()),
+    active_at: v.optional(v.string()),
+    activated: v.optional(v.boolean()),
+    core_used: v.optional(v.boolean()),
+    usage_freq: v.optional(v.union(v.literal('DAILY'), v.literal('WEEKLY'))),
+  },
+  handler: async (ctx, args) => {
+    const email = args.email?.toLowerCase();
+    const candidates = args.stripe_customer_id
+      ? await ctx.db
+          .query('accounts')
+          .withIndex('by_stripe_customer', (q) =>
+            q.eq('stripe_customer_id', args.stripe_customer_id),
+          )
+          .collect()
+      : await ctx.db
+          .query('accounts')
+          .withIndex('by_founder', (q) => q.eq('founder_id', args.founderId))
+          .collect();
+
+    const matches = candidates.filter(
+      (a) =>
+        a.founder_id === args.founderId &&
+        (args.stripe_customer_id !== undefined || a.email.toLowerCase() === email),
+    );
+
+    const now = new Date().toISOString();
+
+    for (const account of matches) {
+      const lastActiveAt =
+        args.active_at && (!account.last_active_at || args.active_at > account.last_active_at)
+          ? args.active_at
+          : account.last_active_at;
+
+      await ctx.db.patch(account._id, {
+        last_active_at: lastActiveAt,
+        activated: args.activated ?? account.activated,
+        core_used: account.core_used || args.core_used === true,
+        usage_freq: args.usage_freq ?? account.usage_freq,
         updated_at: now,
       });
-      return existing[0]._id;
     }
 
-    return await ctx.db.insert('accounts', {
-      founder_id: args.founderId,
-      email: args.email,
-      name: args.name ?? null,
-      mrr: args.mrr,
-      billing_status: args.billing_status,
-      cancel_at_period_end: args.cancel_at_period_end,
-      stripe_customer_id: args.stripe_customer_id ?? null,
-      stripe_subscription_id: args.stripe_subscription_id,
-      last_active_at: null,
-      activated: false,
-      core_used: false,
-      usage_freq: 'WEEKLY',
-      created_at: now,
-      updated_at: now,
-    });
+    return matches.length;
+  },
+});
+
+export const markAccountsCanceled = mutation({
+  args: { ids: v.array(v.id('accounts')) },
+  handler: async (ctx, args) => {
+    const now = new Date().toISOString();
+
+    for (const id of args.ids) {
+      await ctx.db.patch(id, {
+        billing_status: 'CANCELED',
+        cancel_at_period_end: false,
+        updated_at: now,
+      });
+    }
   },
 });
 
@@ -114,6 +316,42 @@ export const deleteAccountsByFounder = mutation({
       .withIndex('by_founder', (q) => q.eq('founder_id', args.founderId))
       .collect();
 
+    const subscriptions = await ctx.db
+      .query('subscriptions')
+      .withIndex('by_founder', (q) => q.eq('founder_id', args.founderId))
+      .collect();
+
+    for (const subscription of subscriptions) {
+      await ctx.db.delete(subscription._id);
+    }
+
+    const snoozes = await ctx.db
+      .query('account_snoozes')
+      .withIndex('by_founder', (q) => q.eq('founder_id', args.founderId))
+      .collect();
+
+    for (const snooze of snoozes) {
+      await ctx.db.delete(snooze._id);
+    }
+
+    const snapshots = await ctx.db
+      .query('account_snapshots')
+      .withIndex('by_founder', (q) => q.eq('founder_id', args.founderId))
+      .collect();
+
+    for (const snapshot of snapshots) {
+      await ctx.db.delete(snapshot._id);
+    }
+
+    const runs = await ctx.db
+      .query('evaluation_runs')
+      .withIndex('by_founder', (q) => q.eq('founder_id', args.founderId))
+      .collect();
+
+    for (const run of runs) {
+      await ctx.db.delete(run._id);
+    }
+
     for (const account of accounts) {
       await ctx.db.delete(account._id);
     }
@@ -6,6 +6,7 @@ export const insertAuditLead = mutation({
     email: v.string(),
     company: v.optional(v.string()),
     mrrAtRisk: v.number(),
+    currency: v.optional(v.string()),
     atRiskCount: v.number(),
   },
   handler: async (ctx, args) => {
@@ -13,6 +14,7 @@ export const insertAuditLead = mutation({
       email: args.email,
       company: args.company ?? null,
       mrr_at_risk: args.mrrAtRisk,
+      currency: args.currency ?? 'usd',
       at_risk_count: args.atRiskCount,
       created_at: new Date().toISOString(),
     });
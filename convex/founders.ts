@@ -1,6 +1,12 @@
 import { v } from 'convex/values';
 import { mutation, query } from './_generated/server';
 
+const billingProvider = v.union(
+  v.literal('stripe'),
+  v.literal('paddle'),
+  v.literal('lemonsqueezy'),
+);
+
 export const getFounderById = query({
   args: { id: v.id('founders') },
   handler: async (ctx, args) => {
@@ -8,6 +14,17 @@ export const getFounderById = query({
   },
 });
 
+/**
+ * Founder by an untrusted ID such as a route param; null when malformed
+ */
+export const findFounderById = query({
+  args: { id: v.string() },
+  handler: async (ctx, args) => {
+    const id = ctx.db.normalizeId('founders', args.id);
+    return id ? await ctx.db.get(id) : null;
+  },
+});
+
 export const getFounderByEmail = query({
   args: { email: v.string() },
   handler: async (ctx, args) => {
@@ -19,6 +36,28 @@ export const getFounderByEmail = query({
   },
 });
 
+export const getFounderByStripeAccount = query({
+  args: { stripeAccountId: v.string() },
+  handler: async (ctx, args) => {
+    const founders = await ctx.db
+      .query('founders')
+      .withIndex('by_stripe_account', (q) => q.eq('stripe_account_id', args.stripeAccountId))
+      .collect();
+    return founders[0] ?? null;
+  },
+});
+
+export const getFounderByApiKeyHash = query({
+  args: { apiKeyHash: v.string() },
+  handler: async (ctx, args) => {
+    const founders = await ctx.db
+      .query('founders')
+      .withIndex('by_api_key_hash', (q) => q.eq('api_key_hash', args.apiKeyHash))
+      .collect();
+    return founders[0] ?? null;
+  },
+});
+
 export const createFounder = mutation({
   args: {
     email: v.string(),
@@ -30,6 +69,8 @@ export const createFounder = mutation({
     stripe_access_token: v.optional(v.string()),
     stripe_refresh_token: v.optional(v.string()),
     stripe_account_id: v.optional(v.string()),
+    billing_provider: v.optional(billingProvider),
+    billing_api_key: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const now = new Date().toISOString();
@@ -57,6 +98,8 @@ export const createFounder = mutation({
       stripe_access_token: args.stripe_access_token ?? null,
       stripe_refresh_token: args.stripe_refresh_token ?? null,
       stripe_account_id: args.stripe_account_id ?? null,
+      billing_provider: args.billing_provider ?? 'stripe',
+      billing_api_key: args.billing_api_key ?? null,
       created_at: now,
       updated_at: now,
     });
@@ -75,6 +118,18 @@ export const updateFounder = mutation({
       stripe_access_token: v.optional(v.string()),
       stripe_refresh_token: v.optional(v.string()),
       stripe_account_id: v.optional(v.string()),
+      stripe_webhook_secret: v.optional(v.string()),
+      billing_webhook_secret: v.optional(v.string()),
+      stripe_sync_cursor: v.optional(v.number()),
+      last_synced_at: v.optional(v.string()),
+      base_currency: v.optional(v.string()),
+      time_zone: v.optional(v.string()),
+      outcome_window_days: v.optional(v.number()),
+      api_key_hash: v.optional(v.string()),
+      api_key_last4: v.optional(v.string()),
+      core_event: v.optional(v.string()),
+      product_description: v.optional(v.string()),
+      core_feature: v.optional(v.string()),
     }),
   },
   handler: async (ctx, args) => {
@@ -99,7 +154,10 @@ export const getFounderWithStripeToken = query({
 export const getAllActiveFounders = query({
   handler: async (ctx) => {
     const founders = await ctx.db.query('founders').collect();
-    return founders.filter((f) => f.stripe_access_token !== null || f.stripe_api_key !== null);
+    return founders.filter(
+      (f) =>
+        f.stripe_access_token !== null || f.stripe_api_key !== null || f.billing_api_key != null,
+    );
   },
 });
 
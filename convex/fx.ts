@@ -0,0 +1,35 @@
+import { v } from 'convex/values';
+import { mutation, query } from './_generated/server';
+
+export const getFxRates = query({
+  handler: async (ctx) => {
+    return await ctx.db.query('fx_rates').collect();
+  },
+});
+
+export const upsertFxRate = mutation({
+  args: {
+    currency: v.string(),
+    usdRate: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const currency = args.currency.toLowerCase();
+    const now = new Date().toISOString();
+
+    const existing = await ctx.db
+      .query('fx_rates')
+      .withIndex('by_currency', (q) => q.eq('currency', currency))
+      .collect();
+
+    if (existing.length > 0) {
+      await ctx.db.patch(existing[0]._id, { usd_rate: args.usdRate, updated_at: now });
+      return existing[0]._id;
+    }
+
+    return await ctx.db.insert('fx_rates', {
+      currency,
+      usd_rate: args.usdRate,
+      updated_at: now,
+    });
+  },
+});
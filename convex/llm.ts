@@ -0,0 +1,85 @@
+import { v } from 'convex/values';
+import { mutation, query } from './_generated/server';
+
+export const getCachedRecommendation = query({
+  args: { key: v.string(), since: v.string() },
+  handler: async (ctx, args) => {
+    const row = await ctx.db
+      .query('recommendation_cache')
+      .withIndex('by_key', (q) => q.eq('key', args.key))
+      .first();
+
+    return row && row.created_at >= args.since ? row.content : null;
+  },
+});
+
+export const setCachedRecommendation = mutation({
+  args: { key: v.string(), ruleId: v.string(), content: v.string() },
+  handler: async (ctx, args) => {
+    const now = new Date().toISOString();
+
+    const existing = await ctx.db
+      .query('recommendation_cache')
+      .withIndex('by_key', (q) => q.eq('key', args.key))
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { content: args.content, created_at: now });
+      return existing._id;
+    }
+
+    return await ctx.db.insert('recommendation_cache', {
+      key: args.key,
+      rule_id: args.ruleId,
+      content: args.content,
+      created_at: now,
+    });
+  },
+});
+
+/**
+ * Delete cached replies created before `before`, a batch at a time.
+ * Returns how many were deleted.
+ */
+export const pruneRecommendationCache = mutation({
+  args: { before: v.string() },
+  handler: async (ctx, args) => {
+    const expired = await ctx.db
+      .query('recommendation_cache')
+      .withIndex('by_created', (q) => q.lt('created_at', args.before))
+      .take(500);
+
+    for (const row of expired) {
+      await ctx.db.delete(row._id);
+    }
+
+    return expired.length;
+  },
+});
+
+/**
+ * Count one LLM call against the day's limit. Returns false, without
+ * counting, once the limit is reached.
+ */
+export const reserveLlmCall = mutation({
+  args: { day: v.string(), limit: v.number() },
+  handler: async (ctx, args) => {
+    const now = new Date().toISOString();
+
+    const usage = await ctx.db
+      .query('llm_usage')
+      .withIndex('by_day', (q) => q.eq('day', args.day))
+      .first();
+
+    if (!usage) {
+      if (args.limit < 1) return false;
+      await ctx.db.insert('llm_usage', { day: args.day, calls: 1, updated_at: now });
+      return true;
+    }
+
+    if (usage.calls >= args.limit) return false;
+
+    await ctx.db.patch(usage._id, { calls: usage.calls + 1, updated_at: now });
+    return true;
+  },
+});
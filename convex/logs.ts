@@ -1,25 +1,42 @@
 import { v } from 'convex/values';
-import { mutation } from './_generated/server';
+import { mutation, query } from './_generated/server';
+import { ruleTrace, traceValues } from './schema';
 
 export const insertDecisionLog = mutation({
   args: {
     accountId: v.id('accounts'),
+    founderId: v.optional(v.id('founders')),
     ruleId: v.string(),
     riskLevel: v.union(v.literal('HIGH'), v.literal('MEDIUM'), v.literal('HEALTHY')),
     action: v.union(v.literal('SEND_MESSAGE'), v.literal('DO_NOTHING')),
     explanation: v.optional(v.string()),
     message: v.optional(v.string()),
     fallbackUsed: v.boolean(),
+    trace: v.optional(v.array(ruleTrace)),
+    ruleVersion: v.optional(v.string()),
+    ruleHash: v.optional(v.string()),
+    inputs: v.optional(traceValues),
+    generator: v.optional(v.string()),
+    mrr: v.optional(v.number()),
+    currency: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     return await ctx.db.insert('decision_logs', {
       account_id: args.accountId,
+      founder_id: args.founderId ?? null,
       rule_id: args.ruleId,
       risk_level: args.riskLevel,
       action: args.action,
       explanation: args.explanation ?? null,
       message: args.message ?? null,
       fallback_used: args.fallbackUsed,
+      trace: args.trace ?? null,
+      rule_version: args.ruleVersion ?? null,
+      rule_hash: args.ruleHash ?? null,
+      inputs: args.inputs ?? null,
+      generator: args.generator ?? null,
+      mrr: args.mrr ?? null,
+      currency: args.currency ?? null,
       created_at: new Date().toISOString(),
     });
   },
@@ -41,16 +58,139 @@ export const insertDigestLog = mutation({
   },
 });
 
+export const insertSyncRun = mutation({
+  args: {
+    founderId: v.id('founders'),
+    mode: v.union(v.literal('FULL'), v.literal('INCREMENTAL')),
+    startedAt: v.string(),
+    durationMs: v.number(),
+    fetchedCount: v.number(),
+    upsertedCount: v.number(),
+    skippedCount: v.number(),
+    canceledCount: v.number(),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db.insert('sync_runs', {
+      founder_id: args.founderId,
+      mode: args.mode,
+      started_at: args.startedAt,
+      duration_ms: args.durationMs,
+      fetched_count: args.fetchedCount,
+      upserted_count: args.upsertedCount,
+      skipped_count: args.skippedCount,
+      canceled_count: args.canceledCount,
+      error: args.error ?? null,
+    });
+  },
+});
+
+export const insertEvaluationRun = mutation({
+  args: {
+    founderId: v.id('founders'),
+    accountCount: v.number(),
+    riskCount: v.number(),
+    mrrAtRisk: v.number(),
+    currency: v.string(),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db.insert('evaluation_runs', {
+      founder_id: args.founderId,
+      account_count: args.accountCount,
+      risk_count: args.riskCount,
+      mrr_at_risk: args.mrrAtRisk,
+      currency: args.currency,
+      created_at: new Date().toISOString(),
+    });
+  },
+});
+
+export const getLatestEvaluationRun = query({
+  args: { founderId: v.id('founders') },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('evaluation_runs')
+      .withIndex('by_founder', (q) => q.eq('founder_id', args.founderId))
+      .order('desc')
+      .first();
+  },
+});
+
 export const getDecisionLogsByAccount = query({
   args: { accountId: v.id('accounts') },
   handler: async (ctx, args) => {
     return await ctx.db
       .query('decision_logs')
       .withIndex('by_account', (q) => q.eq('account_id', args.accountId))
+      .order('desc')
       .collect();
   },
 });
 
+/**
+ * A founder's decisions since a date, across all of their accounts
+ */
+export const getDecisionLogsByFounder = query({
+  args: {
+    founderId: v.id('founders'),
+    since: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const accounts = await ctx.db
+      .query('accounts')
+      .withIndex('by_founder', (q) => q.eq('founder_id', args.founderId))
+      .collect();
+
+    const logs = [];
+    for (const account of accounts) {
+      const accountLogs = await ctx.db
+        .query('decision_logs')
+        .withIndex('by_account', (q) => q.eq('account_id', account._id))
+        .collect();
+      logs.push(...accountLogs.filter((log) => log.created_at >= args.since));
+    }
+    return logs;
+  },
+});
+
+/**
+ * A founder's versioned decisions, newest first, optionally for one rule-pack version
+ */
+export const getDecisionLogsByVersion = query({
+  args: {
+    founderId: v.id('founders'),
+    version: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('decision_logs')
+      .withIndex('by_founder_version', (q) =>
+        args.version === undefined
+          ? q.eq('founder_id', args.founderId)
+          : q.eq('founder_id', args.founderId).eq('rule_version', args.version),
+      )
+      .order('desc')
+      .collect();
+  },
+});
+
+export const recordDecisionOutcomes = mutation({
+  args: {
+    outcomes: v.array(
+      v.object({
+        id: v.id('decision_logs'),
+        outcome: v.union(v.literal('RECOVERED'), v.literal('AT_RISK'), v.literal('CHURNED')),
+      }),
+    ),
+  },
+  handler: async (ctx, args) => {
+    const now = new Date().toISOString();
+    for (const { id, outcome } of args.outcomes) {
+      await ctx.db.patch(id, { outcome, outcome_at: now });
+    }
+  },
+});
+
 export const getDigestLogsByFounder = query({
   args: { founderId: v.id('founders') },
   handler: async (ctx, args) => {
@@ -60,3 +200,14 @@ export const getDigestLogsByFounder = query({
       .collect();
   },
 });
+
+export const getSyncRunsByFounder = query({
+  args: { founderId: v.id('founders') },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('sync_runs')
+      .withIndex('by_founder', (q) => q.eq('founder_id', args.founderId))
+      .order('desc')
+      .take(20);
+  },
+});
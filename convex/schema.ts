@@ -1,6 +1,33 @@
 import { defineSchema, defineTable } from 'convex/server';
 import { v } from 'convex/values';
 
+const billingProvider = v.union(
+  v.literal('stripe'),
+  v.literal('paddle'),
+  v.literal('lemonsqueezy'),
+);
+
+/**
+ * TraceValues: what a rule compared, or the inputs an evaluation read
+ */
+export const traceValues = v.record(
+  v.string(),
+  v.union(v.string(), v.number(), v.boolean(), v.null()),
+);
+
+/**
+ * RuleTrace: one rule's outcome in an evaluation trace
+ */
+export const ruleTrace = v.object({
+  ruleId: v.string(),
+  ruleName: v.string(),
+  riskLevel: v.union(v.literal('HIGH'), v.literal('MEDIUM'), v.literal('HEALTHY')),
+  matched: v.boolean(),
+  disabled: v.boolean(),
+  condition: v.string(),
+  values: traceValues,
+});
+
 export default defineSchema({
   founders: defineTable({
     email: v.string(),
@@ -12,17 +39,37 @@ export default defineSchema({
     stripe_access_token: v.optional(v.string()),
     stripe_refresh_token: v.optional(v.string()),
     stripe_account_id: v.optional(v.string()),
+    stripe_webhook_secret: v.optional(v.string()),
+    billing_provider: v.optional(billingProvider),
+    billing_api_key: v.optional(v.string()),
+    billing_webhook_secret: v.optional(v.string()),
+    stripe_sync_cursor: v.optional(v.number()),
+    last_synced_at: v.optional(v.string()),
+    base_currency: v.optional(v.string()),
+    // IANA zone; rule day counts follow the founder's calendar
+    time_zone: v.optional(v.string()),
+    // Days each at-risk decision is followed before its outcome is classified
+    outcome_window_days: v.optional(v.number()),
+    // SHA-256 of the ingestion key; the key itself is shown once and never stored
+    api_key_hash: v.optional(v.string()),
+    api_key_last4: v.optional(v.string()),
+    core_event: v.optional(v.string()),
+    // Described to the model so recommendations can be specific
+    product_description: v.optional(v.string()),
+    core_feature: v.optional(v.string()),
     created_at: v.string(),
     updated_at: v.string(),
   })
     .index('by_email', ['email'])
-    .index('by_stripe_account', ['stripe_account_id']),
+    .index('by_stripe_account', ['stripe_account_id'])
+    .index('by_api_key_hash', ['api_key_hash']),
 
   accounts: defineTable({
     founder_id: v.id('founders'),
     email: v.string(),
     name: v.optional(v.string()),
     mrr: v.number(),
+    currency: v.optional(v.string()),
     last_active_at: v.optional(v.string()),
     activated: v.boolean(),
     core_used: v.boolean(),
@@ -34,26 +81,204 @@ export default defineSchema({
       v.literal('CANCELED'),
     ),
     cancel_at_period_end: v.boolean(),
+    card_expires_at: v.optional(v.string()),
+    current_period_end: v.optional(v.string()),
+    billing_provider: v.optional(billingProvider),
+    external_customer_id: v.optional(v.string()),
+    // Legacy: set on accounts written before subscriptions moved to their own table
+    external_subscription_id: v.optional(v.string()),
     stripe_customer_id: v.optional(v.string()),
     stripe_subscription_id: v.optional(v.string()),
     created_at: v.string(),
     updated_at: v.string(),
   })
     .index('by_founder', ['founder_id'])
+    .index('by_external_customer', ['external_customer_id'])
+    .index('by_external_subscription', ['external_subscription_id'])
     .index('by_stripe_subscription', ['stripe_subscription_id'])
+    .index('by_stripe_customer', ['stripe_customer_id'])
     .index('by_billing_status', ['billing_status']),
 
+  subscriptions: defineTable({
+    founder_id: v.id('founders'),
+    account_id: v.id('accounts'),
+    billing_provider: billingProvider,
+    external_subscription_id: v.optional(v.string()),
+    mrr: v.number(),
+    currency: v.string(),
+    billing_status: v.union(
+      v.literal('ACTIVE'),
+      v.literal('PAYMENT_FAILED'),
+      v.literal('CANCELING'),
+      v.literal('CANCELED'),
+    ),
+    cancel_at_period_end: v.boolean(),
+    card_expires_at: v.optional(v.string()),
+    current_period_end: v.optional(v.string()),
+    created_at: v.string(),
+    updated_at: v.string(),
+  })
+    .index('by_founder', ['founder_id'])
+    .index('by_account', ['account_id'])
+    .index('by_external_subscription', ['external_subscription_id']),
+
+  account_snapshots: defineTable({
+    founder_id: v.id('founders'),
+    account_id: v.id('accounts'),
+    source: v.union(v.literal('SYNC'), v.literal('EVALUATION')),
+    mrr: v.number(),
+    currency: v.string(),
+    billing_status: v.union(
+      v.literal('ACTIVE'),
+      v.literal('PAYMENT_FAILED'),
+      v.literal('CANCELING'),
+      v.literal('CANCELED'),
+    ),
+    cancel_at_period_end: v.boolean(),
+    last_active_at: v.optional(v.string()),
+    activated: v.boolean(),
+    core_used: v.boolean(),
+    usage_freq: v.union(v.literal('DAILY'), v.literal('WEEKLY')),
+    card_expires_at: v.optional(v.string()),
+    current_period_end: v.optional(v.string()),
+    rule_id: v.optional(v.string()),
+    risk_level: v.optional(v.union(v.literal('HIGH'), v.literal('MEDIUM'), v.literal('HEALTHY'))),
+    severity: v.optional(
+      v.union(v.literal('CRITICAL'), v.literal('HIGH'), v.literal('MEDIUM'), v.literal('HEALTHY')),
+    ),
+    // Set on EVALUATION snapshots written as part of a digest run
+    run_id: v.optional(v.id('evaluation_runs')),
+    created_at: v.string(),
+  })
+    .index('by_founder', ['founder_id', 'created_at'])
+    .index('by_account', ['account_id', 'created_at'])
+    .index('by_run', ['run_id']),
+
+  // One per digest evaluation; its snapshots carry the per-account results
+  evaluation_runs: defineTable({
+    founder_id: v.id('founders'),
+    account_count: v.number(),
+    risk_count: v.number(),
+    mrr_at_risk: v.number(),
+    currency: v.string(),
+    created_at: v.string(),
+  }).index('by_founder', ['founder_id', 'created_at']),
+
+  rule_settings: defineTable({
+    founder_id: v.id('founders'),
+    activation_days: v.optional(v.number()),
+    inactive_days_daily: v.optional(v.number()),
+    inactive_days_weekly: v.optional(v.number()),
+    low_engagement_days: v.optional(v.number()),
+    contraction_threshold: v.optional(v.number()),
+    disabled_rules: v.array(v.string()),
+    created_at: v.string(),
+    updated_at: v.string(),
+  }).index('by_founder', ['founder_id']),
+
+  voice_profiles: defineTable({
+    founder_id: v.id('founders'),
+    // Emails the founder has sent, as examples of their writing
+    samples: v.array(v.string()),
+    sign_off: v.optional(v.string()),
+    formality: v.union(v.literal('CASUAL'), v.literal('NEUTRAL'), v.literal('FORMAL')),
+    avoid_words: v.array(v.string()),
+    created_at: v.string(),
+    updated_at: v.string(),
+  }).index('by_founder', ['founder_id']),
+
+  content_policies: defineTable({
+    founder_id: v.id('founders'),
+    // Added to the built-in banned terms; required terms must appear in every message
+    banned_terms: v.array(v.string()),
+    required_terms: v.array(v.string()),
+    allow_links: v.optional(v.boolean()),
+    allow_discounts: v.optional(v.boolean()),
+    max_message_length: v.optional(v.number()),
+    created_at: v.string(),
+    updated_at: v.string(),
+  }).index('by_founder', ['founder_id']),
+
+  recommendation_cache: defineTable({
+    // Rule ID plus a hash of the founder, model and full prompt
+    key: v.string(),
+    rule_id: v.string(),
+    // Raw provider reply, validated again on every hit
+    content: v.string(),
+    created_at: v.string(),
+  })
+    .index('by_key', ['key'])
+    .index('by_created', ['created_at']),
+
+  llm_usage: defineTable({
+    // UTC day, YYYY-MM-DD; calls across every founder
+    day: v.string(),
+    calls: v.number(),
+    updated_at: v.string(),
+  }).index('by_day', ['day']),
+
+  account_snoozes: defineTable({
+    founder_id: v.id('founders'),
+    account_id: v.id('accounts'),
+    // HANDLED lasts until risk worsens; SNOOZED also ends at `until`
+    kind: v.union(v.literal('HANDLED'), v.literal('SNOOZED')),
+    severity: v.union(
+      v.literal('CRITICAL'),
+      v.literal('HIGH'),
+      v.literal('MEDIUM'),
+      v.literal('HEALTHY'),
+    ),
+    rule_id: v.string(),
+    until: v.optional(v.string()),
+    created_at: v.string(),
+  })
+    .index('by_founder', ['founder_id'])
+    .index('by_account', ['account_id']),
+
+  custom_rules: defineTable({
+    founder_id: v.id('founders'),
+    rule_id: v.string(),
+    name: v.string(),
+    risk_level: v.union(v.literal('HIGH'), v.literal('MEDIUM')),
+    action: v.union(v.literal('SEND_MESSAGE'), v.literal('DO_NOTHING')),
+    reason: v.string(),
+    // JSON condition tree, validated by the app before it is stored
+    condition: v.any(),
+    insert_before: v.optional(v.string()),
+    created_at: v.string(),
+    updated_at: v.string(),
+  }).index('by_founder', ['founder_id', 'rule_id']),
+
   decision_logs: defineTable({
     account_id: v.id('accounts'),
+    founder_id: v.optional(v.id('founders')),
     rule_id: v.string(),
     risk_level: v.union(v.literal('HIGH'), v.literal('MEDIUM'), v.literal('HEALTHY')),
     action: v.union(v.literal('SEND_MESSAGE'), v.literal('DO_NOTHING')),
     explanation: v.optional(v.string()),
     message: v.optional(v.string()),
     fallback_used: v.boolean(),
+    // RuleTrace[] from the engine: every rule's condition, inputs and outcome
+    trace: v.optional(v.array(ruleTrace)),
+    // Rule pack that made the decision: hand-bumped version and content hash
+    rule_version: v.optional(v.string()),
+    rule_hash: v.optional(v.string()),
+    // Account fields and day counts the rules read
+    inputs: v.optional(traceValues),
+    // Provider and model that wrote the text, or 'template' for the fallback
+    generator: v.optional(v.string()),
+    // Account MRR when the decision was made, for "MRR retained"
+    mrr: v.optional(v.number()),
+    currency: v.optional(v.string()),
+    // Set once the follow-up window ends, or earlier if the account cancels
+    outcome: v.optional(
+      v.union(v.literal('RECOVERED'), v.literal('AT_RISK'), v.literal('CHURNED')),
+    ),
+    outcome_at: v.optional(v.string()),
     created_at: v.string(),
   })
     .index('by_account', ['account_id'])
+    .index('by_founder_version', ['founder_id', 'rule_version', 'created_at'])
     .index('by_created', ['created_at']),
 
   digest_logs: defineTable({
@@ -65,10 +290,29 @@ export default defineSchema({
     .index('by_founder', ['founder_id'])
     .index('by_sent_at', ['sent_at']),
 
+  sync_runs: defineTable({
+    founder_id: v.id('founders'),
+    mode: v.union(v.literal('FULL'), v.literal('INCREMENTAL')),
+    started_at: v.string(),
+    duration_ms: v.number(),
+    fetched_count: v.number(),
+    upserted_count: v.number(),
+    skipped_count: v.number(),
+    canceled_count: v.number(),
+    error: v.optional(v.string()),
+  }).index('by_founder', ['founder_id']),
+
+  fx_rates: defineTable({
+    currency: v.string(),
+    usd_rate: v.number(),
+    updated_at: v.string(),
+  }).index('by_currency', ['currency']),
+
   audit_leads: defineTable({
     email: v.string(),
     company: v.optional(v.string()),
     mrr_at_risk: v.number(),
+    currency: v.optional(v.string()),
     at_risk_count: v.number(),
     created_at: v.string(),
   }).index('by_email', ['email']),
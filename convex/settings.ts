@@ -0,0 +1,244 @@
+import { v } from 'convex/values';
+import { mutation, query } from './_generated/server';
+
+export const getRuleSettings = query({
+  args: { founderId: v.id('founders') },
+  handler: async (ctx, args) => {
+    const rows = await ctx.db
+      .query('rule_settings')
+      .withIndex('by_founder', (q) => q.eq('founder_id', args.founderId))
+      .collect();
+    return rows[0] ?? null;
+  },
+});
+
+/**
+ * Replace a founder's rule overrides. Omitted fields fall back to defaults.
+ */
+export const setRuleSettings = mutation({
+  args: {
+    founderId: v.id('founders'),
+    activation_days: v.optional(v.number()),
+    inactive_days_daily: v.optional(v.number()),
+    inactive_days_weekly: v.optional(v.number()),
+    low_engagement_days: v.optional(v.number()),
+    contraction_threshold: v.optional(v.number()),
+    disabled_rules: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    const { founderId, ...overrides } = args;
+    const now = new Date().toISOString();
+
+    const fields = {
+      activation_days: overrides.activation_days ?? null,
+      inactive_days_daily: overrides.inactive_days_daily ?? null,
+      inactive_days_weekly: overrides.inactive_days_weekly ?? null,
+      low_engagement_days: overrides.low_engagement_days ?? null,
+      contraction_threshold: overrides.contraction_threshold ?? null,
+      disabled_rules: overrides.disabled_rules ?? [],
+      updated_at: now,
+    };
+
+    const existing = await ctx.db
+      .query('rule_settings')
+      .withIndex('by_founder', (q) => q.eq('founder_id', founderId))
+      .collect();
+
+    if (existing.length > 0) {
+      await ctx.db.patch(existing[0]._id, fields);
+      return existing[0]._id;
+    }
+
+    return await ctx.db.insert('rule_settings', {
+      founder_id: founderId,
+      ...fields,
+      created_at: now,
+    });
+  },
+});
+
+export const getCustomRulesByFounder = query({
+  args: { founderId: v.id('founders') },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('custom_rules')
+      .withIndex('by_founder', (q) => q.eq('founder_id', args.founderId))
+      .collect();
+  },
+});
+
+export const upsertCustomRule = mutation({
+  args: {
+    founderId: v.id('founders'),
+    ruleId: v.string(),
+    name: v.string(),
+    riskLevel: v.union(v.literal('HIGH'), v.literal('MEDIUM')),
+    action: v.union(v.literal('SEND_MESSAGE'), v.literal('DO_NOTHING')),
+    reason: v.string(),
+    condition: v.any(),
+    insertBefore: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const now = new Date().toISOString();
+    const fields = {
+      name: args.name,
+      risk_level: args.riskLevel,
+      action: args.action,
+      reason: args.reason,
+      condition: args.condition,
+      insert_before: args.insertBefore ?? null,
+      updated_at: now,
+    };
+
+    const existing = await ctx.db
+      .query('custom_rules')
+      .withIndex('by_founder', (q) => q.eq('founder_id', args.founderId).eq('rule_id', args.ruleId))
+      .collect();
+
+    if (existing.length > 0) {
+      await ctx.db.patch(existing[0]._id, fields);
+      return existing[0]._id;
+    }
+
+    return await ctx.db.insert('custom_rules', {
+      founder_id: args.founderId,
+      rule_id: args.ruleId,
+      ...fields,
+      created_at: now,
+    });
+  },
+});
+
+export const deleteCustomRule = mutation({
+  args: {
+    founderId: v.id('founders'),
+    ruleId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query('custom_rules')
+      .withIndex('by_founder', (q) => q.eq('founder_id', args.founderId).eq('rule_id', args.ruleId))
+      .collect();
+
+    for (const rule of existing) {
+      await ctx.db.delete(rule._id);
+    }
+
+    return existing.length;
+  },
+});
+
+export const getVoiceProfile = query({
+  args: { founderId: v.id('founders') },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('voice_profiles')
+      .withIndex('by_founder', (q) => q.eq('founder_id', args.founderId))
+      .first();
+  },
+});
+
+export const setVoiceProfile = mutation({
+  args: {
+    founderId: v.id('founders'),
+    samples: v.array(v.string()),
+    signOff: v.optional(v.string()),
+    formality: v.union(v.literal('CASUAL'), v.literal('NEUTRAL'), v.literal('FORMAL')),
+    avoidWords: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const now = new Date().toISOString();
+    const fields = {
+      samples: args.samples,
+      sign_off: args.signOff ?? null,
+      formality: args.formality,
+      avoid_words: args.avoidWords,
+      updated_at: now,
+    };
+
+    const existing = await ctx.db
+      .query('voice_profiles')
+      .withIndex('by_founder', (q) => q.eq('founder_id', args.founderId))
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, fields);
+      return existing._id;
+    }
+
+    return await ctx.db.insert('voice_profiles', {
+      founder_id: args.founderId,
+      ...fields,
+      created_at: now,
+    });
+  },
+});
+
+export const deleteVoiceProfile = mutation({
+  args: { founderId: v.id('founders') },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query('voice_profiles')
+      .withIndex('by_founder', (q) => q.eq('founder_id', args.founderId))
+      .collect();
+
+    for (const profile of existing) {
+      await ctx.db.delete(profile._id);
+    }
+
+    return existing.length;
+  },
+});
+
+export const getContentPolicy = query({
+  args: { founderId: v.id('founders') },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('content_policies')
+      .withIndex('by_founder', (q) => q.eq('founder_id', args.founderId))
+      .first();
+  },
+});
+
+/**
+ * Replace a founder's content policy overrides. Omitted fields fall back to defaults.
+ */
+export const setContentPolicy = mutation({
+  args: {
+    founderId: v.id('founders'),
+    banned_terms: v.optional(v.array(v.string())),
+    required_terms: v.optional(v.array(v.string())),
+    allow_links: v.optional(v.boolean()),
+    allow_discounts: v.optional(v.boolean()),
+    max_message_length: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { founderId, ...overrides } = args;
+    const now = new Date().toISOString();
+
+    const fields = {
+      banned_terms: overrides.banned_terms ?? [],
+      required_terms: overrides.required_terms ?? [],
+      allow_links: overrides.allow_links ?? null,
+      allow_discounts: overrides.allow_discounts ?? null,
+      max_message_length: overrides.max_message_length ?? null,
+      updated_at: now,
+    };
+
+    const existing = await ctx.db
+      .query('content_policies')
+      .withIndex('by_founder', (q) => q.eq('founder_id', founderId))
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, fields);
+      return existing._id;
+    }
+
+    return await ctx.db.insert('content_policies', {
+      founder_id: founderId,
+      ...fields,
+      created_at: now,
+    });
+  },
+});
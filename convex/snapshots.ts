@@ -0,0 +1,140 @@
+import { v } from 'convex/values';
+import { needsSyncSnapshot } from '../src/core/history/sync-snapshot.js';
+import type { Doc, Id } from './_generated/dataModel';
+import { type MutationCtx, mutation, query } from './_generated/server';
+
+const severity = v.union(
+  v.literal('CRITICAL'),
+  v.literal('HIGH'),
+  v.literal('MEDIUM'),
+  v.literal('HEALTHY'),
+);
+
+export const getSnapshotsByFounder = query({
+  args: {
+    founderId: v.id('founders'),
+    since: v.string(),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('account_snapshots')
+      .withIndex('by_founder', (q) =>
+        q.eq('founder_id', args.founderId).gte('created_at', args.since),
+      )
+      .collect();
+  },
+});
+
+export const getSnapshotsByRun = query({
+  args: { runId: v.id('evaluation_runs') },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('account_snapshots')
+      .withIndex('by_run', (q) => q.eq('run_id', args.runId))
+      .collect();
+  },
+});
+
+export const getSnapshotsByAccount = query({
+  args: { accountId: v.id('accounts') },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('account_snapshots')
+      .withIndex('by_account', (q) => q.eq('account_id', args.accountId))
+      .collect();
+  },
+});
+
+/**
+ * Snapshot a founder's accounts after a sync, skipping those unchanged
+ * since a snapshot taken within the last day
+ */
+export const snapshotFounderAccounts = mutation({
+  args: { founderId: v.id('founders') },
+  handler: async (ctx, args) => {
+    const accounts = await ctx.db
+      .query('accounts')
+      .withIndex('by_founder', (q) => q.eq('founder_id', args.founderId))
+      .collect();
+
+    let inserted = 0;
+    for (const account of accounts) {
+      const latest = await ctx.db
+        .query('account_snapshots')
+        .withIndex('by_account', (q) => q.eq('account_id', account._id))
+        .order('desc')
+        .first();
+
+      if (!needsSyncSnapshot({ ...account, currency: account.currency ?? 'usd' }, latest)) continue;
+
+      await insertSnapshot(ctx, account, { source: 'SYNC' });
+      inserted++;
+    }
+
+    return inserted;
+  },
+});
+
+/**
+ * Snapshot accounts along with the rule they were evaluated to
+ */
+export const recordEvaluations = mutation({
+  args: {
+    runId: v.optional(v.id('evaluation_runs')),
+    evaluations: v.array(
+      v.object({
+        accountId: v.id('accounts'),
+        ruleId: v.string(),
+        riskLevel: v.union(v.literal('HIGH'), v.literal('MEDIUM'), v.literal('HEALTHY')),
+        severity: v.optional(severity),
+      }),
+    ),
+  },
+  handler: async (ctx, args) => {
+    for (const evaluation of args.evaluations) {
+      const account = await ctx.db.get(evaluation.accountId);
+      if (!account) continue;
+
+      await insertSnapshot(ctx, account, {
+        source: 'EVALUATION',
+        rule_id: evaluation.ruleId,
+        risk_level: evaluation.riskLevel,
+        severity: evaluation.severity,
+        run_id: args.runId,
+      });
+    }
+  },
+});
+
+async function insertSnapshot(
+  ctx: MutationCtx,
+  account: Doc<'accounts'>,
+  extra: {
+    source: 'SYNC' | 'EVALUATION';
+    rule_id?: string;
+    risk_level?: 'HIGH' | 'MEDIUM' | 'HEALTHY';
+    severity?: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'HEALTHY';
+    run_id?: Id<'evaluation_runs'>;
+  },
+) {
+  await ctx.db.insert('account_snapshots', {
+    founder_id: account.founder_id,
+    account_id: account._id,
+    source: extra.source,
+    mrr: account.mrr,
+    currency: account.currency ?? 'usd',
+    billing_status: account.billing_status,
+    cancel_at_period_end: account.cancel_at_period_end,
+    last_active_at: account.last_active_at ?? null,
+    activated: account.activated,
+    core_used: account.core_used,
+    usage_freq: account.usage_freq,
+    card_expires_at: account.card_expires_at ?? null,
+    current_period_end: account.current_period_end ?? null,
+    rule_id: extra.rule_id ?? null,
+    risk_level: extra.risk_level ?? null,
+    severity: extra.severity ?? null,
+    run_id: extra.run_id ?? null,
+    created_at: new Date().toISOString(),
+  });
+}
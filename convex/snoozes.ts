@@ -0,0 +1,84 @@
+import { v } from 'convex/values';
+import { mutation, query } from './_generated/server';
+
+export const getSnoozesByFounder = query({
+  args: { founderId: v.id('founders') },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('account_snoozes')
+      .withIndex('by_founder', (q) => q.eq('founder_id', args.founderId))
+      .collect();
+  },
+});
+
+/**
+ * Snooze or mark an account handled, replacing any earlier snooze
+ */
+export const upsertSnooze = mutation({
+  args: {
+    founderId: v.id('founders'),
+    accountId: v.id('accounts'),
+    kind: v.union(v.literal('HANDLED'), v.literal('SNOOZED')),
+    severity: v.union(
+      v.literal('CRITICAL'),
+      v.literal('HIGH'),
+      v.literal('MEDIUM'),
+      v.literal('HEALTHY'),
+    ),
+    ruleId: v.string(),
+    until: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query('account_snoozes')
+      .withIndex('by_account', (q) => q.eq('account_id', args.accountId))
+      .collect();
+
+    for (const snooze of existing) {
+      await ctx.db.delete(snooze._id);
+    }
+
+    return await ctx.db.insert('account_snoozes', {
+      founder_id: args.founderId,
+      account_id: args.accountId,
+      kind: args.kind,
+      severity: args.severity,
+      rule_id: args.ruleId,
+      until: args.until ?? null,
+      created_at: new Date().toISOString(),
+    });
+  },
+});
+
+/**
+ * Remove an account's snooze; returns how many rows were deleted, 0 for a
+ * malformed account ID
+ */
+export const deleteSnooze = mutation({
+  args: { founderId: v.id('founders'), accountId: v.string() },
+  handler: async (ctx, args) => {
+    const accountId = ctx.db.normalizeId('accounts', args.accountId);
+    if (!accountId) return 0;
+
+    const existing = await ctx.db
+      .query('account_snoozes')
+      .withIndex('by_account', (q) => q.eq('account_id', accountId))
+      .collect();
+    const owned = existing.filter((s) => s.founder_id === args.founderId);
+
+    for (const snooze of owned) {
+      await ctx.db.delete(snooze._id);
+    }
+
+    return owned.length;
+  },
+});
+
+export const deleteSnoozes = mutation({
+  args: { ids: v.array(v.id('account_snoozes')) },
+  handler: async (ctx, args) => {
+    for (const id of args.ids) {
+      await ctx.db.delete(id);
+    }
+  },
+});
@@ -0,0 +1,88 @@
+import { v } from 'convex/values';
+import { aggregateSubscriptions } from '../src/core/ingest/aggregate.js';
+import type { Id } from './_generated/dataModel';
+import { type MutationCtx, mutation, query } from './_generated/server';
+
+export const getSubscriptionsByFounder = query({
+  args: { founderId: v.id('founders') },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('subscriptions')
+      .withIndex('by_founder', (q) => q.eq('founder_id', args.founderId))
+      .collect();
+  },
+});
+
+export const getSubscriptionsByAccount = query({
+  args: { accountId: v.id('accounts') },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('subscriptions')
+      .withIndex('by_account', (q) => q.eq('account_id', args.accountId))
+      .collect();
+  },
+});
+
+export const markSubscriptionsCanceled = mutation({
+  args: { ids: v.array(v.id('subscriptions')) },
+  handler: async (ctx, args) => {
+    const now = new Date().toISOString();
+    const accountIds = new Set<Id<'accounts'>>();
+
+    for (const id of args.ids) {
+      const subscription = await ctx.db.get(id);
+      if (!subscription) continue;
+
+      await ctx.db.patch(id, {
+        billing_status: 'CANCELED',
+        cancel_at_period_end: false,
+        updated_at: now,
+      });
+      accountIds.add(subscription.account_id);
+    }
+
+    for (const accountId of accountIds) {
+      await refreshAccountAggregate(ctx, accountId);
+    }
+  },
+});
+
+/**
+ * Recompute an account's MRR and billing status from its subscriptions
+ */
+export async function refreshAccountAggregate(
+  ctx: MutationCtx,
+  accountId: Id<'accounts'>,
+): Promise<void> {
+  const subscriptions = await ctx.db
+    .query('subscriptions')
+    .withIndex('by_account', (q) => q.eq('account_id', accountId))
+    .collect();
+
+  if (subscriptions.length === 0) return;
+
+  const rates = new Map<string, number>([['usd', 1]]);
+  for (const row of await ctx.db.query('fx_rates').collect()) {
+    rates.set(row.currency.toLowerCase(), row.usd_rate);
+  }
+
+  const aggregate = aggregateSubscriptions(
+    subscriptions.map((s) => ({
+      mrr: s.mrr,
+      currency: s.currency,
+      billing_status: s.billing_status,
+      cancel_at_period_end: s.cancel_at_period_end,
+      card_expires_at: s.card_expires_at,
+      current_period_end: s.current_period_end,
+    })),
+    (amount, from, to) => {
+      if (from.toLowerCase() === to.toLowerCase()) return amount;
+      const fromRate = rates.get(from.toLowerCase());
+      const toRate = rates.get(to.toLowerCase());
+      if (!fromRate || !toRate) return null;
+      return (amount * fromRate) / toRate;
+    },
+  );
+
+  await ctx.db.patch(accountId, { ...aggregate, updated_at: new Date().toISOString() });
+}
@@ -0,0 +1,64 @@
+/**
+ * Rule Backtest
+ *
+ * Replays a founder's account snapshots through the rules engine and reports
+ * how well each rule predicted cancellations:
+ * npx tsx scripts/backtest.ts <founderId> [horizonDays] [settingsJson]
+ *
+ * e.g. try a 21-day inactivity threshold for weekly users:
+ * npx tsx scripts/backtest.ts <founderId> 30 '{"inactiveDays":{"WEEKLY":21}}'
+ */
+
+import {
+  BacktestRequestSchema,
+  type RuleBacktestStats,
+  backtestFounder,
+} from '../src/core/history/backtest.js';
+
+const percent = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+const days = (value: number | null) => (value === null ? '—' : `${value.toFixed(1)}d`);
+
+function row(stats: RuleBacktestStats): string {
+  return [
+    `${stats.ruleId} ${stats.ruleName}`.padEnd(32),
+    String(stats.flagged).padStart(7),
+    percent(stats.precision).padStart(10),
+    percent(stats.recall).padStart(8),
+    days(stats.medianLeadDays).padStart(12),
+  ].join('');
+}
+
+async function main() {
+  const [founderId, horizon, settingsJson] = process.argv.slice(2);
+
+  const parsed = BacktestRequestSchema.safeParse({
+    horizonDays: horizon ? Number(horizon) : undefined,
+    settings: settingsJson ? JSON.parse(settingsJson) : undefined,
+  });
+
+  if (!founderId || !parsed.success) {
+    console.error('Usage: npx tsx scripts/backtest.ts <founderId> [horizonDays] [settingsJson]');
+    process.exit(1);
+  }
+
+  const report = await backtestFounder(founderId, parsed.data);
+
+  console.log(`📈 Backtest ${report.from.slice(0, 10)} → ${report.to.slice(0, 10)}`);
+  console.log(
+    `${report.evaluations} weekly evaluations, ${report.observations} observations, ` +
+      `${report.positives} canceled within ${report.horizonDays} days\n`,
+  );
+  console.log(
+    `${'Rule'.padEnd(32)}${'Flagged'.padStart(7)}${'Precision'.padStart(10)}${'Recall'.padStart(8)}${'Median lead'.padStart(12)}`,
+  );
+
+  for (const stats of report.rules) {
+    console.log(row(stats));
+  }
+  console.log(row(report.overall));
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
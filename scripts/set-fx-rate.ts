@@ -0,0 +1,26 @@
+/**
+ * FX Rate Updater
+ *
+ * Stores the USD value of one unit of a currency:
+ * npx tsx scripts/set-fx-rate.ts eur 1.08
+ */
+
+import { api, convex } from '../src/lib/convex.js';
+
+async function main() {
+  const [currency, rate] = process.argv.slice(2);
+  const usdRate = Number(rate);
+
+  if (!currency || !/^[a-z]{3}$/i.test(currency) || !Number.isFinite(usdRate) || usdRate <= 0) {
+    console.error('Usage: npx tsx scripts/set-fx-rate.ts <currency> <usd-rate>');
+    process.exit(1);
+  }
+
+  await convex.mutation(api.fx.upsertFxRate, { currency, usdRate });
+  console.log(`✅ 1 ${currency.toUpperCase()} = ${usdRate} USD`);
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
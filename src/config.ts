@@ -7,10 +7,23 @@ const envSchema = z.object({
   // Stripe OAuth (optional - only needed for legacy OAuth flow)
   STRIPE_CLIENT_ID: z.string().startsWith('ca_').optional(),
   STRIPE_CLIENT_SECRET: z.string().startsWith('sk_').optional(),
+  STRIPE_WEBHOOK_SECRET: z.string().startsWith('whsec_').optional(),
+
+  // LLM for recommendations: gemini, openai (any OpenAI-compatible endpoint) or mock
+  LLM_PROVIDER: z.enum(['gemini', 'openai', 'mock']).default('gemini'),
+  // Overrides the provider's default model
+  LLM_MODEL: z.string().optional(),
+  // Calls in flight per batch, and calls per UTC day across every founder
+  LLM_CONCURRENCY: z.coerce.number().int().min(1).default(4),
+  LLM_DAILY_QUOTA: z.coerce.number().int().min(0).default(1000),
 
   // Google Gemini (free tier)
   GEMINI_API_KEY: z.string().optional(),
 
+  // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for a local Ollama
+  OPENAI_BASE_URL: z.string().url().optional(),
+  OPENAI_API_KEY: z.string().optional(),
+
   // Resend
   RESEND_API_KEY: z.string().startsWith('re_'),
 
@@ -0,0 +1,88 @@
+import { createHash } from 'node:crypto';
+import type { PromptContext } from './context.js';
+import type { LlmRequest } from './providers/types.js';
+
+/**
+ * Cached provider replies.
+ *
+ * The key is the rule plus a hash of what shapes the reply: the founder,
+ * the provider and model, the system prompt and the customer's context.
+ * Counts that tick over between runs are left out or bucketed, so an
+ * account whose situation hasn't changed reuses the earlier reply even
+ * though its prompt now says it was last active a week longer ago.
+ */
+
+export interface RecommendationCache {
+  /** The cached raw reply, or null on a miss */
+  get(key: string): Promise<string | null>;
+  set(key: string, ruleId: string, content: string): Promise<void>;
+}
+
+/**
+ * How long a cached reply stays usable; long enough to span one weekly run
+ */
+export const CACHE_TTL_DAYS = 14;
+
+/**
+ * What the user prompt was built from, before it was rendered
+ */
+export interface CacheContext {
+  /** The redacted risk reason, then any other signals' */
+  reasons: string[];
+  customer: PromptContext;
+}
+
+type ActivityBucket = 'never' | 'this week' | 'this month' | 'this quarter' | 'longer';
+
+function activityBucket(daysSinceActive: number | null): ActivityBucket {
+  if (daysSinceActive === null) return 'never';
+  if (daysSinceActive < 7) return 'this week';
+  if (daysSinceActive < 30) return 'this month';
+  if (daysSinceActive < 90) return 'this quarter';
+  return 'longer';
+}
+
+export function recommendationCacheKey(
+  founderId: string,
+  ruleId: string,
+  generator: string,
+  request: Omit<LlmRequest, 'prompt'>,
+  context: CacheContext,
+): string {
+  const { daysSinceActive, ...customer } = context.customer;
+  const hash = createHash('sha256')
+    .update(
+      JSON.stringify([
+        founderId,
+        generator,
+        request.system,
+        request.temperature,
+        request.maxOutputTokens,
+        // Day counts in reasons ("no login for 23 days") change every run
+        context.reasons.map((reason) => reason.replace(/\d+/g, '#')),
+        customer,
+        activityBucket(daysSinceActive),
+      ]),
+    )
+    .digest('hex')
+    .slice(0, 32);
+
+  return `${ruleId}:${hash}`;
+}
+
+/**
+ * In-process cache for tests and offline development
+ */
+export function createMemoryCache(): RecommendationCache & { entries: Map<string, string> } {
+  const entries = new Map<string, string>();
+
+  return {
+    entries,
+    async get(key) {
+      return entries.get(key) ?? null;
+    },
+    async set(key, _ruleId, content) {
+      entries.set(key, content);
+    },
+  };
+}
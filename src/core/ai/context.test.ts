@@ -0,0 +1,152 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { systemClock } from '../rules/dates.js';
+import { M3_Contraction } from '../rules/rules.js';
+import { DEFAULT_RULE_SETTINGS } from '../rules/settings.js';
+import type { Account, RuleResult } from '../rules/types.js';
+import { buildPromptContext, firstNameOf, mrrTier, redact, tenureBucket } from './context.js';
+import { generateRecommendation } from './generate.js';
+import { createMockProvider } from './providers/mock.js';
+
+const clock = { ...systemClock(), now: new Date('2026-03-20T12:00:00Z') };
+
+const account: Account = {
+  _id: 'k57b2qx9v4m1n8c3d6f0g2h5j7kp4r9t',
+  founder_id: 'founder_1',
+  email: 'jane.doe@acme.io',
+  name: 'jane Doe',
+  mrr: 1234.56,
+  currency: 'usd',
+  last_active_at: '2026-03-04T12:00:00Z',
+  activated: true,
+  core_used: true,
+  usage_freq: 'WEEKLY',
+  billing_status: 'ACTIVE',
+  cancel_at_period_end: false,
+  stripe_customer_id: 'cus_Q8xLm2Rt5Vw9Yz',
+  stripe_subscription_id: 'sub_1PqRsTuVwXyZ',
+  created_at: '2025-11-01T00:00:00Z',
+  updated_at: '2026-03-01T00:00:00Z',
+};
+
+describe('Prompt context', () => {
+  it('should keep only a plausible first name', () => {
+    assert.strictEqual(firstNameOf('jane Doe'), 'Jane');
+    assert.strictEqual(firstNameOf("O'Brien"), "O'Brien");
+    assert.strictEqual(firstNameOf('jane.doe@acme.io'), null);
+    assert.strictEqual(firstNameOf('user123'), null);
+    assert.strictEqual(firstNameOf(null), null);
+  });
+
+  it('should bucket tenure and plan size', () => {
+    assert.strictEqual(tenureBucket(12), 'under a month');
+    assert.strictEqual(tenureBucket(139), '3-12 months');
+    assert.strictEqual(tenureBucket(400), 'over a year');
+
+    assert.strictEqual(mrrTier(19, 'usd'), 'small');
+    assert.strictEqual(mrrTier(100, 'eur', { eur: 1.1 }), 'mid-size');
+    assert.strictEqual(mrrTier(1234.56, 'usd'), 'large');
+    assert.strictEqual(mrrTier(100, 'jpy'), null);
+  });
+
+  it('should build the context from redacted fields only', () => {
+    const context = buildPromptContext(account, {
+      product: {
+        description: 'Invoicing for agencies. Questions? support@acme.io',
+        coreFeature: 'recurring invoices',
+      },
+      clock,
+    });
+
+    assert.deepStrictEqual(context, {
+      firstName: 'Jane',
+      tenure: '3-12 months',
+      mrrTier: 'large',
+      daysSinceActive: 16,
+      productDescription: 'Invoicing for agencies. Questions? [email]',
+      coreFeature: 'recurring invoices',
+    });
+  });
+
+  it('should scrub emails, IDs and amounts from free text', () => {
+    assert.strictEqual(
+      redact('MRR dropped from $1,500 to $1,234.56 (cus_Q8xLm2Rt5Vw9Yz)'),
+      'MRR dropped from [amount] to [amount] ([id])',
+    );
+    assert.strictEqual(redact('Plan is 99 EUR, was CHF 120'), 'Plan is [amount], was [amount]');
+    assert.strictEqual(
+      redact('MRR is 1234.56 for jane.doe@acme.io', account),
+      'MRR is [amount] for [email]',
+    );
+    assert.strictEqual(redact('Quiet for 16 days'), 'Quiet for 16 days');
+  });
+
+  it('should scrub amounts in any currency', () => {
+    for (const amount of ['₩1,500', '₪1,500.00', '₫1,500', '₱1,500.00', '₺1,500', '₴1,500']) {
+      assert.strictEqual(redact(`Pays ${amount} a month`), 'Pays [amount] a month', amount);
+    }
+    assert.strictEqual(redact('Was CA$1,500.00, now R$900'), 'Was [amount], now [amount]');
+    assert.strictEqual(redact('Plan is 1.500 ₫'), 'Plan is [amount]');
+  });
+
+  it('should scrub the peak and current MRR from the contraction reason', () => {
+    const won = { ...account, mrr: 900000, currency: 'krw' };
+    const reason = M3_Contraction.getReason(won, {
+      accountAgeDays: 139,
+      daysSinceActive: 16,
+      history: [
+        { mrr: 1500000, currency: 'krw', billing_status: 'ACTIVE', created_at: '2026-03-10' },
+      ],
+      settings: DEFAULT_RULE_SETTINGS,
+      clock,
+    });
+
+    assert.strictEqual(reason, 'MRR dropped from ₩1,500,000 to ₩900,000 in the last 30 days.');
+    assert.strictEqual(
+      redact(reason, won),
+      'MRR dropped from [amount] to [amount] in the last 30 days.',
+    );
+  });
+
+  it('should never send emails, IDs or raw amounts to the model', async () => {
+    const provider = createMockProvider(() => '{}');
+    const result: RuleResult = {
+      ruleId: 'BIG_QUIET',
+      ruleName: 'Big account gone quiet',
+      riskLevel: 'HIGH',
+      reason: `${account.email} (${account._id}) pays 1234.56 and has gone quiet.`,
+      suggestedAction: 'SEND_MESSAGE',
+      signals: [
+        { ruleId: 'BIG_QUIET', ruleName: '', riskLevel: 'HIGH', reason: '' },
+        {
+          ruleId: 'M3',
+          ruleName: 'Contraction / Downgrade',
+          riskLevel: 'MEDIUM',
+          reason: 'MRR dropped from $1,500 to $1,234.56 in the last 30 days.',
+        },
+      ],
+    };
+
+    await generateRecommendation(account, result, {
+      provider,
+      product: { description: 'Billing help: billing@acme.io', coreFeature: 'invoices' },
+      clock,
+    });
+
+    const sent = `${provider.calls[0].system}\n${provider.calls[0].prompt}`;
+    for (const secret of [
+      account.email,
+      'acme.io',
+      account._id,
+      'cus_Q8xLm2Rt5Vw9Yz',
+      '1234',
+      '1,234',
+      '1,500',
+    ]) {
+      assert.ok(!sent.includes(secret), `prompt leaked ${secret}`);
+    }
+    assert.match(sent, /First name: Jane/);
+    assert.match(sent, /Plan size: large/);
+    assert.match(sent, /Core feature: invoices/);
+  });
+});
@@ -0,0 +1,154 @@
+import { z } from 'zod';
+import type { Founder } from '../../lib/convex.js';
+import { type FxRates, convertAmount } from '../currency/fx.js';
+import { type Clock, daysSince, systemClock } from '../rules/dates.js';
+import type { Account } from '../rules/types.js';
+
+/**
+ * Customer context for the recommendation prompt.
+ *
+ * Only coarse, redacted fields are passed to the model: a first name,
+ * tenure and plan-size buckets, and a day count. Emails, IDs and amounts
+ * never leave this module; free text is scrubbed of them too.
+ */
+
+export const ProductProfileSchema = z
+  .object({
+    /** What the founder's product does, in a sentence or two */
+    description: z.string().trim().max(300),
+    /** Name of the feature customers get value from, e.g. "weekly reports" */
+    coreFeature: z.string().trim().max(60),
+  })
+  .partial()
+  .strict();
+
+export interface ProductProfile {
+  description: string | null;
+  coreFeature: string | null;
+}
+
+/**
+ * What the founder told us about their product, for the recommendation prompt
+ */
+export function productProfile(founder: Partial<Founder> | null): ProductProfile {
+  return {
+    description: founder?.product_description || null,
+    coreFeature: founder?.core_feature || null,
+  };
+}
+
+export type TenureBucket = 'under a month' | '1-3 months' | '3-12 months' | 'over a year';
+
+export type MrrTier = 'small' | 'mid-size' | 'large';
+
+export interface PromptContext {
+  firstName: string | null;
+  tenure: TenureBucket;
+  /** Plan size against fixed USD thresholds; null when the currency can't be converted */
+  mrrTier: MrrTier | null;
+  daysSinceActive: number | null;
+  productDescription: string | null;
+  coreFeature: string | null;
+}
+
+/**
+ * Monthly USD amounts at which a plan counts as mid-size and large
+ */
+const MRR_TIERS = { midSize: 50, large: 500 };
+
+/**
+ * First word of the account name if it looks like a given name.
+ * Emails, handles and anything with digits are dropped, never guessed from.
+ */
+export function firstNameOf(name: string | null | undefined): string | null {
+  const first = name?.trim().split(/\s+/)[0];
+  if (!first || !/^\p{L}[\p{L}'-]{0,29}$/u.test(first)) return null;
+
+  return first.charAt(0).toUpperCase() + first.slice(1);
+}
+
+export function tenureBucket(accountAgeDays: number): TenureBucket {
+  if (accountAgeDays < 30) return 'under a month';
+  if (accountAgeDays < 90) return '1-3 months';
+  if (accountAgeDays < 365) return '3-12 months';
+  return 'over a year';
+}
+
+export function mrrTier(mrr: number, currency: string, rates: FxRates = {}): MrrTier | null {
+  const usd = convertAmount(mrr, currency, 'usd', rates);
+  if (usd === null) return null;
+  if (usd >= MRR_TIERS.large) return 'large';
+  if (usd >= MRR_TIERS.midSize) return 'mid-size';
+  return 'small';
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Replace emails, links, amounts and ID-like tokens in free text.
+ * With an account, its own email, IDs and MRR are also replaced wherever
+ * they appear, e.g. in a custom rule's reason ("MRR is {{mrr}}").
+ */
+export function redact(text: string, account?: Account): string {
+  let redacted = text;
+
+  if (account) {
+    redacted = redacted.replace(new RegExp(escapeRegExp(account.email), 'gi'), '[email]');
+
+    const ids = [account._id, account.stripe_customer_id, account.stripe_subscription_id].filter(
+      (value): value is string => Boolean(value),
+    );
+    for (const id of ids) {
+      redacted = redacted.replace(new RegExp(escapeRegExp(id), 'gi'), '[id]');
+    }
+  }
+
+  redacted = redacted
+    .replace(/[^\s@]+@[^\s@]+\.[^\s@]+/g, '[email]')
+    .replace(/https?:\/\/\S+/g, '[link]')
+    // Any currency symbol, with a prefix like CA$ or R$, or an ISO code on either side
+    .replace(
+      /(?:(?:\b[A-Z]{1,2})?\p{Sc}|\b[A-Z]{3}\s?)\d[\d,]*(?:\.\d+)?|\b\d[\d,]*(?:\.\d+)?\s?(?:[A-Z]{3}\b|\p{Sc})/gu,
+      '[amount]',
+    )
+    .replace(/\b[a-z]+_[A-Za-z0-9]{6,}\b|\b(?=[A-Za-z]*\d)[A-Za-z0-9]{16,}\b/g, '[id]');
+
+  // The account's own MRR as a bare number, after symbols have taken theirs
+  if (account) {
+    const amounts = new Set([String(account.mrr), account.mrr.toLocaleString('en-US')]);
+    for (const amount of amounts) {
+      redacted = redacted.replace(
+        new RegExp(`(?<![\\d.,])${escapeRegExp(amount)}(?![\\d])`, 'g'),
+        '[amount]',
+      );
+    }
+  }
+
+  return redacted;
+}
+
+/**
+ * Founder-provided text, trimmed, scrubbed and capped; null when empty
+ */
+function cleanText(text: string | null | undefined, maxLength: number): string | null {
+  const cleaned = redact(text?.replace(/\s+/g, ' ').trim() ?? '').slice(0, maxLength);
+  return cleaned || null;
+}
+
+export function buildPromptContext(
+  account: Account,
+  options: { product?: ProductProfile; rates?: FxRates; clock?: Clock } = {},
+): PromptContext {
+  const clock = options.clock ?? systemClock();
+
+  return {
+    firstName: firstNameOf(account.name),
+    tenure: tenureBucket(daysSince(account.created_at, clock) ?? 0),
+    mrrTier: mrrTier(account.mrr, account.currency, options.rates),
+    daysSinceActive: daysSince(account.last_active_at, clock),
+    productDescription: cleanText(options.product?.description, 300),
+    coreFeature: cleanText(options.product?.coreFeature, 60),
+  };
+}
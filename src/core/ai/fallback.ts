@@ -13,13 +13,20 @@ export interface FallbackOutput {
   message: string | null;
 }
 
+/**
+ * Founder and rule details a template can fill in
+ */
+export interface FallbackContext {
+  feature?: string;
+  /** Rule reason and action, used for founder-defined rules */
+  reason?: string;
+  suggestedAction?: Action;
+}
+
 /**
  * Fallback templates per rule type
  */
-export const FALLBACK_TEMPLATES: Record<
-  string,
-  (context?: { feature?: string }) => FallbackOutput
-> = {
+export const FALLBACK_TEMPLATES: Record<string, (context?: FallbackContext) => FallbackOutput> = {
   // Re-engagement (Silent Drop-off, Never Activated)
   SEND_MESSAGE: (context) => ({
     explanation: 'User has become inactive after initial engagement.',
@@ -35,6 +42,14 @@ export const FALLBACK_TEMPLATES: Record<
       "Hey — looks like your last payment didn't go through. Just wanted to flag it before access is affected.",
   }),
 
+  // Card expiring before the next charge
+  CARD_EXPIRING: () => ({
+    explanation: 'Card on file expires before the next renewal.',
+    action: 'SEND_MESSAGE',
+    message:
+      'Hey — heads up, the card on your account expires before your next renewal. Updating it now keeps everything running without interruption.',
+  }),
+
   // Pre-cancel
   PRE_CANCEL: () => ({
     explanation: 'User has scheduled cancellation.',
@@ -43,6 +58,14 @@ export const FALLBACK_TEMPLATES: Record<
       "Hey — noticed you're planning to cancel. Totally understand if timing isn't right. Let me know if there's anything I can help with before then.",
   }),
 
+  // Downgrade
+  DOWNGRADE: () => ({
+    explanation: 'User recently moved to a smaller plan.',
+    action: 'SEND_MESSAGE',
+    message:
+      "Hey — saw you changed plans recently. If something on the old plan wasn't working for you, I'd love to hear about it.",
+  }),
+
   // Low engagement
   LOW_ENGAGEMENT: () => ({
     explanation: 'Low engagement, has not used core feature.',
@@ -51,6 +74,14 @@ export const FALLBACK_TEMPLATES: Record<
       "Hey — noticed you haven't dug into the main features yet. Happy to walk you through it if useful.",
   }),
 
+  // Founder-defined rule
+  CUSTOM_RULE: (context) => ({
+    explanation: context?.reason || 'Matched a custom rule.',
+    action: 'SEND_MESSAGE',
+    message:
+      "Hey — just checking in to see how things are going. Happy to help if anything's getting in the way.",
+  }),
+
   // Do nothing (healthy)
   DO_NOTHING: () => ({
     explanation: 'User is active and showing healthy usage.',
@@ -62,18 +93,26 @@ export const FALLBACK_TEMPLATES: Record<
 /**
  * Get fallback response based on rule ID
  */
-export function getFallback(ruleId: string, context?: { feature?: string }): FallbackOutput {
+export function getFallback(ruleId: string, context?: FallbackContext): FallbackOutput {
   switch (ruleId) {
     case 'H4':
       return FALLBACK_TEMPLATES.PRE_CANCEL();
+    case 'H5':
     case 'H3':
+    case 'H6':
       return FALLBACK_TEMPLATES.PAYMENT_ISSUE();
+    case 'M2':
+      return FALLBACK_TEMPLATES.CARD_EXPIRING();
     case 'H2':
     case 'H1':
       return FALLBACK_TEMPLATES.SEND_MESSAGE(context);
     case 'M1':
       return FALLBACK_TEMPLATES.LOW_ENGAGEMENT();
+    case 'M3':
+      return FALLBACK_TEMPLATES.DOWNGRADE();
     default:
-      return FALLBACK_TEMPLATES.DO_NOTHING();
+      return context?.suggestedAction === 'SEND_MESSAGE'
+        ? FALLBACK_TEMPLATES.CUSTOM_RULE(context)
+        : FALLBACK_TEMPLATES.DO_NOTHING();
   }
 }
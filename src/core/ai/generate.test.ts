@@ -0,0 +1,215 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import type { Account, RuleResult } from '../rules/types.js';
+import { createMemoryCache } from './cache.js';
+import { getFallback } from './fallback.js';
+import { generateRecommendation, generateRecommendations } from './generate.js';
+import { createMockProvider } from './providers/mock.js';
+
+const account: Account = {
+  _id: 'acc_1',
+  founder_id: 'founder_1',
+  email: 'jane@example.com',
+  name: 'Jane',
+  mrr: 99,
+  currency: 'usd',
+  last_active_at: null,
+  activated: true,
+  core_used: true,
+  usage_freq: 'WEEKLY',
+  billing_status: 'ACTIVE',
+  cancel_at_period_end: false,
+  stripe_customer_id: null,
+  stripe_subscription_id: null,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-03-01T00:00:00Z',
+};
+
+const result: RuleResult = {
+  ruleId: 'H1',
+  ruleName: 'Silent Drop-off',
+  riskLevel: 'HIGH',
+  reason: 'Stopped using product after activation (expected weekly usage).',
+  suggestedAction: 'SEND_MESSAGE',
+};
+
+const reply = (overrides: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    explanation: 'They went quiet two weeks ago.',
+    action: 'SEND_MESSAGE',
+    message: 'Hey — checking in. Anything getting in the way?',
+    ...overrides,
+  });
+
+const fallback = getFallback(result.ruleId, result);
+
+describe('Recommendation generation', () => {
+  it('should use a valid reply from the provider', async () => {
+    const provider = createMockProvider([reply()]);
+    const recommendation = await generateRecommendation(account, result, { provider });
+
+    assert.deepStrictEqual(recommendation, {
+      explanation: 'They went quiet two weeks ago.',
+      action: 'SEND_MESSAGE',
+      message: 'Hey — checking in. Anything getting in the way?',
+      fallbackUsed: false,
+      generator: 'mock:scripted',
+    });
+    assert.strictEqual(provider.calls.length, 1);
+    assert.match(provider.calls[0].prompt, /Stopped using product/);
+  });
+
+  for (const [label, script] of [
+    ['the reply is not JSON', ['Sure! Here is a message:']],
+    ['the reply fails validation', [reply({ explanation: 'x'.repeat(201) })]],
+    ['the reply has banned words', [reply({ message: 'Our model says you might leave.' })]],
+    ['the provider throws', [new Error('503 Service Unavailable')]],
+  ] as const) {
+    it(`should fall back when ${label}`, async () => {
+      const provider = createMockProvider([...script]);
+      const recommendation = await generateRecommendation(account, result, { provider });
+
+      assert.strictEqual(recommendation.fallbackUsed, true);
+      assert.strictEqual(recommendation.generator, 'template');
+      assert.strictEqual(recommendation.explanation, fallback.explanation);
+    });
+  }
+
+  it('should not call the provider for healthy accounts, when skipped or when unset', async () => {
+    const provider = createMockProvider([reply()]);
+    const healthy = { ...result, ruleId: 'G1', riskLevel: 'HEALTHY' as const };
+
+    await generateRecommendation(account, healthy, { provider });
+    await generateRecommendation(account, result, { provider, skipAi: true });
+    const unset = await generateRecommendation(account, result, { provider: null });
+
+    assert.strictEqual(provider.calls.length, 0);
+    assert.strictEqual(unset.fallbackUsed, true);
+  });
+});
+
+describe('Generation limits', () => {
+  it('should reuse the cached reply while the prompt is unchanged', async () => {
+    const provider = createMockProvider([reply(), reply({ explanation: 'Changed.' })]);
+    const cache = createMemoryCache();
+
+    const first = await generateRecommendation(account, result, { provider, cache });
+    const second = await generateRecommendation(account, result, { provider, cache });
+    const changed = await generateRecommendation(
+      account,
+      { ...result, reason: 'Stopped using product after activation (expected daily usage).' },
+      { provider, cache },
+    );
+
+    assert.deepStrictEqual(second, first);
+    assert.strictEqual(changed.explanation, 'Changed.');
+    assert.strictEqual(provider.calls.length, 2);
+    assert.ok([...cache.entries.keys()].every((key) => key.startsWith('H1:')));
+  });
+
+  it('should reuse the cached reply a week later for an unchanged account', async () => {
+    const provider = createMockProvider([reply(), reply({ explanation: 'Changed.' })]);
+    const cache = createMemoryCache();
+    const quiet = { ...account, last_active_at: '2026-03-01T00:00:00Z' };
+    const silent = { ...result, reason: 'No activity for 14 days.' };
+    const on = (date: string) => ({ now: new Date(date), timeZone: 'UTC' });
+
+    const first = await generateRecommendation(quiet, silent, {
+      provider,
+      cache,
+      clock: on('2026-03-15T12:00:00Z'),
+    });
+    const weekLater = await generateRecommendation(
+      quiet,
+      { ...silent, reason: 'No activity for 21 days.' },
+      { provider, cache, clock: on('2026-03-22T12:00:00Z') },
+    );
+    const monthsLater = await generateRecommendation(
+      quiet,
+      { ...silent, reason: 'No activity for 75 days.' },
+      { provider, cache, clock: on('2026-05-15T12:00:00Z') },
+    );
+
+    assert.deepStrictEqual(weekLater, first);
+    assert.strictEqual(monthsLater.explanation, 'Changed.');
+    assert.match(provider.calls[1].prompt, /Last active: 75 days ago/);
+    assert.strictEqual(provider.calls.length, 2);
+  });
+
+  it('should not cache replies that fail validation', async () => {
+    const provider = createMockProvider(['not json']);
+    const cache = createMemoryCache();
+
+    await generateRecommendation(account, result, { provider, cache });
+
+    assert.strictEqual(cache.entries.size, 0);
+  });
+
+  it('should fall back once the daily quota is used up', async () => {
+    let left = 1;
+    const quota = { reserve: async () => left-- > 0 };
+    const provider = createMockProvider(() => reply());
+
+    const first = await generateRecommendation(account, result, { provider, quota });
+    const second = await generateRecommendation(account, result, { provider, quota });
+
+    assert.strictEqual(first.fallbackUsed, false);
+    assert.strictEqual(second.fallbackUsed, true);
+    assert.strictEqual(provider.calls.length, 1);
+  });
+
+  it('should retry rate-limited calls', async () => {
+    const provider = createMockProvider([
+      Object.assign(new Error('Too Many Requests'), { status: 429 }),
+      reply(),
+    ]);
+    const recommendation = await generateRecommendation(account, result, {
+      provider,
+      retry: { sleep: async () => {} },
+    });
+
+    assert.strictEqual(recommendation.fallbackUsed, false);
+    assert.strictEqual(provider.calls.length, 2);
+  });
+
+  it('should spend the quota on every retry', async () => {
+    let reserved = 0;
+    const quota = { reserve: async () => ++reserved <= 2 };
+    const provider = createMockProvider(() =>
+      Object.assign(new Error('Too Many Requests'), { status: 429 }),
+    );
+    const recommendation = await generateRecommendation(account, result, {
+      provider,
+      quota,
+      retry: { sleep: async () => {} },
+    });
+
+    assert.strictEqual(recommendation.fallbackUsed, true);
+    assert.strictEqual(provider.calls.length, 2);
+    assert.strictEqual(reserved, 3);
+  });
+
+  it('should keep batch results in input order', async () => {
+    const provider = createMockProvider((request) =>
+      reply({ explanation: request.prompt.includes('daily') ? 'Daily.' : 'Weekly.' }),
+    );
+    const daily = {
+      ...result,
+      reason: 'Stopped using product after activation (expected daily usage).',
+    };
+
+    const results = await generateRecommendations(
+      [
+        { account, result },
+        { account, result: daily },
+        { account, result },
+      ],
+      { provider, concurrency: 2 },
+    );
+
+    assert.deepStrictEqual(
+      results.map((r) => r.recommendation.explanation),
+      ['Weekly.', 'Daily.', 'Weekly.'],
+    );
+  });
+});
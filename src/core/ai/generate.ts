@@ -1,10 +1,27 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { z } from 'zod';
-import { config } from '../../config.js';
+import type { FxRates } from '../currency/fx.js';
+import type { Clock } from '../rules/dates.js';
 import type { Account } from '../rules/types.js';
 import type { RuleResult } from '../rules/types.js';
+import { type RecommendationCache, recommendationCacheKey } from './cache.js';
+import { type ProductProfile, buildPromptContext, redact } from './context.js';
 import { getFallback } from './fallback.js';
-import { SYSTEM_PROMPT, buildUserPrompt, containsBannedWords } from './prompt.js';
+import {
+  type ContentPolicy,
+  DEFAULT_CONTENT_POLICY,
+  checkContent,
+  formatViolations,
+} from './policy.js';
+import { buildUserPrompt } from './prompt.js';
+import type { LlmProvider, LlmRequest } from './providers/types.js';
+import {
+  DEFAULT_CONCURRENCY,
+  type LlmQuota,
+  type RetryOptions,
+  mapWithConcurrency,
+  withRetry,
+} from './throttle.js';
+import { type VoiceProfile, buildSystemPrompt, withSignOff } from './voice.js';
 
 /**
  * AI output schema with Zod validation
@@ -25,105 +42,191 @@ export interface GenerationResult {
   action: 'SEND_MESSAGE' | 'DO_NOTHING';
   message: string | null;
   fallbackUsed: boolean;
+  /** Provider and model that wrote the text (e.g. gemini:gemini-2.0-flash), or 'template' */
+  generator: string;
 }
 
-// Initialize Gemini client (free tier: 1,500 requests/day)
-const genAI = config.GEMINI_API_KEY ? new GoogleGenerativeAI(config.GEMINI_API_KEY) : null;
+export interface GenerateOptions {
+  skipAi?: boolean;
+  /** Overrides the provider chosen in config; null forces the fallback */
+  provider?: LlmProvider | null;
+  /** The founder's product, described to the model */
+  product?: ProductProfile;
+  /** For bucketing plan size in USD */
+  rates?: FxRates;
+  clock?: Clock;
+  /** The founder's voice profile, folded into the system prompt */
+  voice?: VoiceProfile | null;
+  /** The founder's content policy; defaults apply when unset */
+  policy?: ContentPolicy;
+  /** Replies to reuse for unchanged prompts */
+  cache?: RecommendationCache;
+  /** Shared daily call budget; over it, the fallback is used */
+  quota?: LlmQuota;
+  /** Backoff for rate-limited calls */
+  retry?: RetryOptions;
+  /** Provider calls in flight at once, for batches */
+  concurrency?: number;
+}
+
+const FALLBACK_GENERATOR = 'template';
+
+let configuredProvider: Promise<LlmProvider | null> | undefined;
+
+/**
+ * The provider chosen in config. Loaded on first use, so this module can be
+ * imported in tests without the app's environment.
+ */
+function defaultProvider(): Promise<LlmProvider | null> {
+  configuredProvider ??= import('./providers/index.js').then((m) => m.getConfiguredLlmProvider());
+  return configuredProvider;
+}
 
 /**
  * Generate AI response for a customer at risk.
  *
  * Per PRD:
  * - AI never decides, only communicates
- * - Falls back to templates if AI fails
- * - Validates output against banned words
+ * - Falls back to templates if AI fails or the daily quota is used up
+ * - Reuses the cached reply while the account's situation hasn't changed
+ * - Validates output against the content policy
+ * - Ends messages with the founder's sign-off, if they set one
  */
 export async function generateRecommendation(
-  _account: Account,
+  account: Account,
   ruleResult: RuleResult,
-  options: { skipAi?: boolean } = {},
+  options: GenerateOptions = {},
 ): Promise<GenerationResult> {
+  const recommendation = await draftRecommendation(account, ruleResult, options);
+  const signOff = options.voice?.signOff;
+  if (!signOff || !recommendation.message || !recommendation.fallbackUsed) return recommendation;
+
+  // Model replies are signed before the policy check; templates are signed here
+  return { ...recommendation, message: withSignOff(recommendation.message, signOff) };
+}
+
+/**
+ * The rule's template recommendation, used whenever the model's isn't
+ */
+function fallbackResult(ruleResult: RuleResult, options: GenerateOptions): GenerationResult {
+  const fallback = getFallback(ruleResult.ruleId, {
+    ...ruleResult,
+    feature: options.product?.coreFeature ?? undefined,
+  });
+
+  return {
+    explanation: fallback.explanation,
+    action: fallback.action,
+    message: fallback.message,
+    fallbackUsed: true,
+    generator: FALLBACK_GENERATOR,
+  };
+}
+
+async function draftRecommendation(
+  account: Account,
+  ruleResult: RuleResult,
+  options: GenerateOptions,
+): Promise<GenerationResult> {
+  let provider = options.provider;
+  if (provider === undefined && !options.skipAi) provider = await defaultProvider();
+
   // Skip AI if requested, not configured, or for healthy accounts
-  if (options.skipAi || !genAI || ruleResult.riskLevel === 'HEALTHY') {
-    const fallback = getFallback(ruleResult.ruleId);
-    return {
-      explanation: fallback.explanation,
-      action: fallback.action,
-      message: fallback.message,
-      fallbackUsed: true,
-    };
+  if (options.skipAi || !provider || ruleResult.riskLevel === 'HEALTHY') {
+    return fallbackResult(ruleResult, options);
   }
 
   try {
-    const userPrompt = buildUserPrompt({
-      riskReason: ruleResult.reason,
-    });
-
-    // Use Gemini Flash (fast & free)
-    const model = genAI.getGenerativeModel({
-      model: 'gemini-2.0-flash',
-      generationConfig: {
-        temperature: 0.7,
-        maxOutputTokens: 300,
-        responseMimeType: 'application/json',
-      },
-    });
+    const riskReason = redact(ruleResult.reason, account);
+    const otherSignals = ruleResult.signals?.slice(1).map((s) => redact(s.reason, account)) ?? [];
+    const customer = buildPromptContext(account, options);
+    const userPrompt = buildUserPrompt({ riskReason, otherSignals, customer });
+
+    const request: LlmRequest = {
+      system: buildSystemPrompt(options.voice, options.policy),
+      prompt: userPrompt,
+      temperature: 0.7,
+      maxOutputTokens: 300,
+    };
+    const generator = `${provider.id}:${provider.model}`;
+    const cacheKey = recommendationCacheKey(
+      account.founder_id,
+      ruleResult.ruleId,
+      generator,
+      request,
+      { reasons: [riskReason, ...otherSignals], customer },
+    );
+
+    const cached = (await options.cache?.get(cacheKey)) ?? null;
 
-    const result = await model.generateContent([{ text: `${SYSTEM_PROMPT}\n\n${userPrompt}` }]);
+    // Every attempt, retries included, spends one call from the quota
+    const content =
+      cached ??
+      (await withRetry(async () => {
+        if (options.quota && !(await options.quota.reserve())) return null;
+        return provider.complete(request);
+      }, options.retry));
 
-    const content = result.response.text();
-    if (!content) {
-      throw new Error('No content in AI response');
+    if (content === null) {
+      console.warn('Daily LLM quota used up, using fallback');
+      return fallbackResult(ruleResult, options);
     }
 
     // Parse and validate
     const parsed = JSON.parse(content);
     const validated = AiOutputSchema.parse(parsed);
 
-    // Check for banned words
-    const allText = `${validated.explanation} ${validated.message || ''}`;
-    if (containsBannedWords(allText)) {
-      console.warn('AI output contained banned words, using fallback');
-      const fallback = getFallback(ruleResult.ruleId);
-      return {
-        explanation: fallback.explanation,
-        action: fallback.action,
-        message: fallback.message,
-        fallbackUsed: true,
-      };
+    // The sign-off is checked with the message, so it counts toward the length limit
+    const signOff = options.voice?.signOff;
+    const message =
+      signOff && validated.message ? withSignOff(validated.message, signOff) : validated.message;
+
+    // Check against the content policy; the founder's avoided words count as banned
+    const policy = options.policy ?? DEFAULT_CONTENT_POLICY;
+    const violations = checkContent(
+      { ...validated, message },
+      {
+        ...policy,
+        bannedTerms: [...policy.bannedTerms, ...(options.voice?.avoidWords ?? [])],
+      },
+    );
+    if (violations.length > 0) {
+      console.warn(
+        `AI output broke content policy, using fallback: ${formatViolations(violations)}`,
+      );
+      return fallbackResult(ruleResult, options);
     }
 
+    if (cached === null) await options.cache?.set(cacheKey, ruleResult.ruleId, content);
+
     return {
       explanation: validated.explanation,
       action: validated.action,
-      message: validated.message,
+      message,
       fallbackUsed: false,
+      generator,
     };
   } catch (error) {
     console.error('AI generation failed, using fallback:', error);
-    const fallback = getFallback(ruleResult.ruleId);
-    return {
-      explanation: fallback.explanation,
-      action: fallback.action,
-      message: fallback.message,
-      fallbackUsed: true,
-    };
+    return fallbackResult(ruleResult, options);
   }
 }
 
 /**
- * Generate recommendations for multiple accounts
+ * Generate recommendations for multiple accounts, a few at a time
  */
 export async function generateRecommendations(
   accountsWithRules: Array<{ account: Account; result: RuleResult }>,
-  options: { skipAi?: boolean } = {},
+  options: GenerateOptions = {},
 ): Promise<Array<{ account: Account; result: RuleResult; recommendation: GenerationResult }>> {
-  const results = await Promise.all(
-    accountsWithRules.map(async ({ account, result }) => ({
+  const results = await mapWithConcurrency(
+    accountsWithRules,
+    options.concurrency ?? DEFAULT_CONCURRENCY,
+    async ({ account, result }) => ({
       account,
       result,
       recommendation: await generateRecommendation(account, result, options),
-    })),
+    }),
   );
 
   return results;
@@ -0,0 +1,97 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import {
+  ContentPolicyUpdateSchema,
+  DEFAULT_CONTENT_POLICY,
+  checkContent,
+  containsTerm,
+  describePolicy,
+  resolveContentPolicy,
+} from './policy.js';
+
+const clean = {
+  explanation: 'They went quiet after a busy first month.',
+  message: 'Hey — I said I would email again, so here it is. Anything getting in the way?',
+};
+
+const codes = (output: { explanation: string; message: string | null }, policy = {}) =>
+  checkContent(output, resolveContentPolicy(policy)).map((v) => v.code);
+
+describe('Content policy', () => {
+  it('should match whole words and phrases only', () => {
+    assert.strictEqual(containsTerm('Sent you an email again', 'ai'), false);
+    assert.strictEqual(containsTerm('We remodel the flow', 'model'), false);
+    assert.strictEqual(containsTerm('Our AI-powered flow', 'ai'), true);
+    assert.strictEqual(containsTerm('Please act\nnow', 'act now'), true);
+  });
+
+  it('should pass text that only contains banned words inside other words', () => {
+    assert.deepStrictEqual(codes(clean), []);
+  });
+
+  it('should flag built-in terms and patterns', () => {
+    assert.deepStrictEqual(codes({ ...clean, explanation: 'Our model flags them.' }), [
+      'BANNED_TERM',
+    ]);
+    assert.deepStrictEqual(codes({ ...clean, message: 'Usage fell 40% this month.' }), [
+      'BANNED_PATTERN',
+    ]);
+  });
+
+  it('should ban links and discounts unless allowed', () => {
+    const output = { ...clean, message: 'Grab a discount at https://acme.io/deal before Friday.' };
+
+    assert.deepStrictEqual(codes(output), ['LINK', 'DISCOUNT']);
+    assert.deepStrictEqual(codes(output, { allowLinks: true, allowDiscounts: true }), []);
+    assert.deepStrictEqual(codes({ ...clean, message: 'Docs live at acme.io/help.' }), ['LINK']);
+    assert.deepStrictEqual(codes({ ...clean, message: 'Book a call: cal.acme.me' }), ['LINK']);
+    assert.deepStrictEqual(codes({ ...clean, message: 'Use promo code SPRING.' }), ['DISCOUNT']);
+  });
+
+  it('should not mistake ordinary words for links or discounts', () => {
+    for (const message of [
+      'Let me know.Me and the team are around.',
+      'Happy to do so.So, what got in the way?',
+      'Did the promotion go well? Happy to promote your launch.',
+    ]) {
+      assert.deepStrictEqual(codes({ ...clean, message }), [], message);
+    }
+  });
+
+  it("should apply the founder's terms and length limit", () => {
+    const policy = {
+      bannedTerms: ['just checking in'],
+      requiredTerms: ['Acme'],
+      maxMessageLength: 80,
+    };
+    const violations = checkContent(
+      { ...clean, message: `Just checking in! ${'x'.repeat(80)}` },
+      resolveContentPolicy(policy),
+    );
+
+    assert.deepStrictEqual(
+      violations.map((v) => [v.code, v.detail]),
+      [
+        ['CUSTOM_TERM', 'just checking in'],
+        ['MISSING_REQUIRED_TERM', 'Acme'],
+        ['TOO_LONG', '98 > 80'],
+      ],
+    );
+    assert.deepStrictEqual(codes({ ...clean, message: null }, policy), []);
+  });
+
+  it('should describe only what the founder changed', () => {
+    assert.deepStrictEqual(describePolicy(DEFAULT_CONTENT_POLICY), []);
+    assert.deepStrictEqual(describePolicy(resolveContentPolicy({ requiredTerms: ['Acme'] })), [
+      '- The message must mention: Acme',
+    ]);
+  });
+
+  it('should reject unknown keys and out-of-range limits', () => {
+    assert.strictEqual(ContentPolicyUpdateSchema.safeParse({ allowEmoji: true }).success, false);
+    assert.strictEqual(
+      ContentPolicyUpdateSchema.safeParse({ maxMessageLength: 500 }).success,
+      false,
+    );
+  });
+});
@@ -0,0 +1,201 @@
+import { z } from 'zod';
+
+/**
+ * Content policy for generated text.
+ *
+ * Terms match whole words and phrases, so "ai" rejects "as an AI" but not
+ * "email". Built-in terms and patterns always apply; founders add their
+ * own banned and required terms, can allow links or discounts, and can
+ * lower the message length limit. Every violation carries a reason code.
+ */
+
+/**
+ * Banned words per PRD Section 6.4
+ * If any of these appear in AI output, we reject and use fallback.
+ */
+export const BANNED_TERMS = [
+  'ai',
+  'model',
+  'prediction',
+  'probability',
+  'percentage',
+  'likely',
+  'chance',
+  'risk score',
+  'algorithm',
+  'analyze',
+  'urgent',
+  'act now',
+  'limited time',
+  'special offer',
+  'as an ai',
+  'i am an ai',
+  'i cannot',
+];
+
+/**
+ * Things a term list can't catch: numbers as percentages, assistant
+ * self-references and pressure tactics
+ */
+export const BANNED_PATTERNS: Array<{ id: string; pattern: RegExp }> = [
+  { id: 'percentage', pattern: /\d\s?%|\bper\s?cent\b/i },
+  { id: 'assistant', pattern: /\b(?:chat\s?gpt|gpt-?\d|llm|language model)\b/i },
+  { id: 'pressure', pattern: /!{2,}|\b(?:asap|immediately|today only|last chance|hurry)\b/i },
+];
+
+/**
+ * URLs, and bare hosts made of DNS labels. co, so and me double as words
+ * after a missing space ("let me know.me"), so those need a subdomain or a
+ * path to count.
+ */
+const LINK_PATTERN =
+  /https?:\/\/\S+|\bwww\.\S+|\b(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+(?:com|io|app|dev|net|org)\b|\b(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.){2,}(?:co|so|me)\b|\b[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.(?:co|so|me)\/\S*/i;
+
+const DISCOUNT_PATTERN =
+  /\b(?:discount\w*|coupons?|promo(?:s|\s?codes?)?|vouchers?|free (?:months?|weeks?|upgrades?)|(?:half|\d+\s?%)\s?off)\b|\d\s?%\s?off\b/i;
+
+/**
+ * Longest message the model may return
+ */
+const MAX_MESSAGE_LENGTH = 300;
+
+const term = z.string().trim().min(1).max(60);
+
+export const ContentPolicySchema = z.object({
+  /** Founder's own banned words and phrases, on top of the built-in list */
+  bannedTerms: z.array(term).max(50),
+  /** Words or phrases every message must include, e.g. the product name */
+  requiredTerms: z.array(term).max(10),
+  allowLinks: z.boolean(),
+  allowDiscounts: z.boolean(),
+  maxMessageLength: z.number().int().min(80).max(MAX_MESSAGE_LENGTH),
+});
+
+export type ContentPolicy = z.infer<typeof ContentPolicySchema>;
+
+export const DEFAULT_CONTENT_POLICY: ContentPolicy = {
+  bannedTerms: [],
+  requiredTerms: [],
+  allowLinks: false,
+  allowDiscounts: false,
+  maxMessageLength: MAX_MESSAGE_LENGTH,
+};
+
+/**
+ * Overrides accepted by the settings API and stored per founder.
+ * Unknown keys are rejected.
+ */
+export const ContentPolicyUpdateSchema = ContentPolicySchema.partial().strict();
+
+export type ContentPolicyUpdate = z.infer<typeof ContentPolicyUpdateSchema>;
+
+/**
+ * Fill in defaults for anything not set
+ */
+export function resolveContentPolicy(overrides: ContentPolicyUpdate = {}): ContentPolicy {
+  return { ...DEFAULT_CONTENT_POLICY, ...overrides };
+}
+
+export type PolicyViolationCode =
+  | 'BANNED_TERM'
+  | 'BANNED_PATTERN'
+  | 'CUSTOM_TERM'
+  | 'MISSING_REQUIRED_TERM'
+  | 'LINK'
+  | 'DISCOUNT'
+  | 'TOO_LONG';
+
+export interface PolicyViolation {
+  code: PolicyViolationCode;
+  field: 'explanation' | 'message';
+  /** The offending term, pattern or text */
+  detail: string;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whole-word, case-insensitive match; spaces in a phrase match any whitespace
+ */
+export function containsTerm(text: string, phrase: string): boolean {
+  const body = escapeRegExp(phrase.trim()).replace(/\s+/g, '\\s+');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+}
+
+/**
+ * Every rule the text breaks, in the order checked
+ */
+export function checkContent(
+  output: { explanation: string; message: string | null },
+  policy: ContentPolicy = DEFAULT_CONTENT_POLICY,
+): PolicyViolation[] {
+  const violations: PolicyViolation[] = [];
+  const fields = [
+    ['explanation', output.explanation],
+    ['message', output.message ?? ''],
+  ] as const;
+
+  for (const [field, text] of fields) {
+    for (const banned of BANNED_TERMS) {
+      if (containsTerm(text, banned)) {
+        violations.push({ code: 'BANNED_TERM', field, detail: banned });
+      }
+    }
+    for (const banned of policy.bannedTerms) {
+      if (containsTerm(text, banned)) {
+        violations.push({ code: 'CUSTOM_TERM', field, detail: banned });
+      }
+    }
+    for (const { id, pattern } of BANNED_PATTERNS) {
+      if (pattern.test(text)) violations.push({ code: 'BANNED_PATTERN', field, detail: id });
+    }
+
+    const link = policy.allowLinks ? null : text.match(LINK_PATTERN);
+    if (link) violations.push({ code: 'LINK', field, detail: link[0] });
+
+    const discount = policy.allowDiscounts ? null : text.match(DISCOUNT_PATTERN);
+    if (discount) violations.push({ code: 'DISCOUNT', field, detail: discount[0] });
+  }
+
+  if (output.message !== null) {
+    for (const required of policy.requiredTerms) {
+      if (!containsTerm(output.message, required)) {
+        violations.push({ code: 'MISSING_REQUIRED_TERM', field: 'message', detail: required });
+      }
+    }
+    if (output.message.length > policy.maxMessageLength) {
+      violations.push({
+        code: 'TOO_LONG',
+        field: 'message',
+        detail: `${output.message.length} > ${policy.maxMessageLength}`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Instructions for whatever the founder changed from the defaults; empty
+ * when nothing was
+ */
+export function describePolicy(policy: ContentPolicy): string[] {
+  return [
+    policy.bannedTerms.length > 0 && `- Never use: ${policy.bannedTerms.join(', ')}`,
+    policy.requiredTerms.length > 0 &&
+      `- The message must mention: ${policy.requiredTerms.join(', ')}`,
+    policy.maxMessageLength < MAX_MESSAGE_LENGTH &&
+      `- Keep the message under ${policy.maxMessageLength} characters.`,
+    policy.allowLinks && '- Links are fine where they help.',
+    policy.allowDiscounts && '- A discount may be offered if it fits.',
+  ].filter((line): line is string => Boolean(line));
+}
+
+/**
+ * Reason codes and details, for logs
+ */
+export function formatViolations(violations: PolicyViolation[]): string {
+  return violations.map((v) => `${v.code} in ${v.field} (${v.detail})`).join(', ');
+}
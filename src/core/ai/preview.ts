@@ -0,0 +1,90 @@
+import { addDays, subDays } from 'date-fns';
+import { type Clock, systemClock } from '../rules/dates.js';
+import { type CustomRule, compileRule } from '../rules/dsl.js';
+import { CONFIGURABLE_RULES } from '../rules/rules.js';
+import { DEFAULT_RULE_SETTINGS } from '../rules/settings.js';
+import type { Account, EvaluationContext, RuleResult } from '../rules/types.js';
+import { type GenerateOptions, type GenerationResult, generateRecommendation } from './generate.js';
+import type { VoiceProfile } from './voice.js';
+
+/**
+ * Before/after previews of a voice profile.
+ *
+ * Every rule is run against the same made-up customer, who has every
+ * signal a rule's reason can mention, and written up with and without the
+ * founder's voice.
+ */
+
+export interface VoicePreview {
+  ruleId: string;
+  ruleName: string;
+  before: GenerationResult;
+  after: GenerationResult;
+}
+
+function sampleAccount(now: Date): Account {
+  return {
+    _id: 'preview',
+    founder_id: 'preview',
+    email: 'alex@example.com',
+    name: 'Alex Rivera',
+    mrr: 79,
+    currency: 'usd',
+    last_active_at: subDays(now, 20).toISOString(),
+    activated: true,
+    core_used: false,
+    usage_freq: 'WEEKLY',
+    billing_status: 'PAYMENT_FAILED',
+    cancel_at_period_end: false,
+    stripe_customer_id: null,
+    stripe_subscription_id: null,
+    created_at: subDays(now, 120).toISOString(),
+    updated_at: now.toISOString(),
+    last_payment_failed_at: subDays(now, 3).toISOString(),
+    oldest_unpaid_invoice_at: subDays(now, 21).toISOString(),
+    card_expires_at: addDays(now, 10).toISOString(),
+    current_period_end: addDays(now, 12).toISOString(),
+    downgraded_at: subDays(now, 5).toISOString(),
+  };
+}
+
+/**
+ * One preview per built-in and custom rule, in that order. Rules are
+ * previewed one at a time so a long list doesn't burst the provider.
+ */
+export async function previewVoice(
+  voice: VoiceProfile,
+  options: Omit<GenerateOptions, 'voice'> & { customRules?: CustomRule[]; clock?: Clock } = {},
+): Promise<VoicePreview[]> {
+  const clock = options.clock ?? systemClock();
+  const account = sampleAccount(clock.now);
+  const context: EvaluationContext = {
+    accountAgeDays: 120,
+    daysSinceActive: 20,
+    history: [],
+    settings: DEFAULT_RULE_SETTINGS,
+    clock,
+  };
+
+  const rules = [...CONFIGURABLE_RULES, ...(options.customRules ?? []).map(compileRule)];
+  const previews: VoicePreview[] = [];
+
+  for (const rule of rules) {
+    const result: RuleResult = {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      riskLevel: rule.riskLevel,
+      reason: rule.getReason(account, context),
+      suggestedAction: rule.suggestedAction,
+    };
+
+    previews.push({
+      ruleId: rule.id,
+      ruleName: rule.name,
+      before: await generateRecommendation(account, result, { ...options, voice: null }),
+      after: await generateRecommendation(account, result, { ...options, voice }),
+    });
+  }
+
+  return previews;
+}
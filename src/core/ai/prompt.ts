@@ -1,3 +1,5 @@
+import type { PromptContext } from './context.js';
+
 /**
  * ChurnPilot AI System Prompt
  *
@@ -19,19 +21,47 @@ Rules:
 - Never mention AI, models, or predictions.
 - Never use percentages or probabilities.
 - Never sound salesy or urgent.
+- No links, discounts or offers.
 - Prefer restraint over action.
 
 Tone: calm, practical, founder-to-founder.`;
 
+/**
+ * Customer and product lines for the prompt; only the fields that are known
+ */
+function describeCustomer(customer: PromptContext): string {
+  const lines = [
+    customer.firstName && `- First name: ${customer.firstName}`,
+    `- Customer for: ${customer.tenure}`,
+    customer.mrrTier && `- Plan size: ${customer.mrrTier}`,
+    customer.daysSinceActive !== null && `- Last active: ${customer.daysSinceActive} days ago`,
+    customer.productDescription && `- Product: ${customer.productDescription}`,
+    customer.coreFeature && `- Core feature: ${customer.coreFeature}`,
+  ].filter(Boolean);
+
+  return `\nCustomer:\n${lines.join('\n')}\n`;
+}
+
 /**
  * User prompt template for AI
- * Injects only necessary context, never raw data.
+ * Injects only necessary context, never raw data: reasons must already be
+ * redacted, and the customer is described by buildPromptContext's buckets.
+ * Other signals (multi-signal evaluation) are listed so one message covers them all.
  */
 export function buildUserPrompt(context: {
   riskReason: string;
+  otherSignals?: string[];
+  customer?: PromptContext;
 }): string {
-  return `Context: ${context.riskReason}
+  const others = context.otherSignals ?? [];
+  const alsoObserved =
+    others.length > 0
+      ? `\nAlso observed:\n${others.map((s) => `- ${s}`).join('\n')}\nWrite one message that addresses all of the above.\n`
+      : '';
+  const customer = context.customer ? describeCustomer(context.customer) : '';
 
+  return `Context: ${context.riskReason}
+${alsoObserved}${customer}
 Respond with JSON only:
 {
   "explanation": "one sentence explaining the risk",
@@ -39,35 +69,3 @@ Respond with JSON only:
   "message": "short personal message or null if DO_NOTHING"
 }`;
 }
-
-/**
- * Banned words per PRD Section 6.4
- * If any of these appear in AI output, we reject and use fallback.
- */
-export const BANNED_WORDS = [
-  'ai',
-  'model',
-  'prediction',
-  'probability',
-  'percentage',
-  'likely',
-  'chance',
-  'risk score',
-  'algorithm',
-  'analyze',
-  'urgent',
-  'act now',
-  'limited time',
-  'special offer',
-  'as an ai',
-  'i am an ai',
-  'i cannot',
-];
-
-/**
- * Check if text contains banned words
- */
-export function containsBannedWords(text: string): boolean {
-  const lowerText = text.toLowerCase();
-  return BANNED_WORDS.some((word) => lowerText.includes(word));
-}
@@ -0,0 +1,39 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { LlmProvider, LlmRequest } from './types.js';
+
+/**
+ * Google Gemini adapter (free tier: 1,500 requests/day)
+ */
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.0-flash';
+
+export function createGeminiProvider(options: { apiKey: string; model?: string }): LlmProvider {
+  const client = new GoogleGenerativeAI(options.apiKey);
+  const model = options.model ?? DEFAULT_GEMINI_MODEL;
+
+  return {
+    id: 'gemini',
+    model,
+
+    async complete(request: LlmRequest): Promise<string> {
+      const generative = client.getGenerativeModel({
+        model,
+        generationConfig: {
+          temperature: request.temperature,
+          maxOutputTokens: request.maxOutputTokens,
+          responseMimeType: 'application/json',
+        },
+      });
+
+      const result = await generative.generateContent([
+        { text: `${request.system}\n\n${request.prompt}` },
+      ]);
+
+      const content = result.response.text();
+      if (!content) {
+        throw new Error('No content in Gemini response');
+      }
+      return content;
+    },
+  };
+}
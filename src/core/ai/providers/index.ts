@@ -0,0 +1,28 @@
+import { config } from '../../../config.js';
+import { createGeminiProvider } from './gemini.js';
+import { createMockProvider } from './mock.js';
+import { createOpenAiProvider } from './openai.js';
+import type { LlmProvider } from './types.js';
+
+export type { LlmProvider, LlmProviderId, LlmRequest } from './types.js';
+
+/**
+ * The provider selected by LLM_PROVIDER, or null when it isn't configured
+ * (recommendations then use the fallback templates)
+ */
+export function getConfiguredLlmProvider(): LlmProvider | null {
+  switch (config.LLM_PROVIDER) {
+    case 'gemini':
+      return config.GEMINI_API_KEY
+        ? createGeminiProvider({ apiKey: config.GEMINI_API_KEY, model: config.LLM_MODEL })
+        : null;
+    case 'openai':
+      return createOpenAiProvider({
+        baseUrl: config.OPENAI_BASE_URL,
+        apiKey: config.OPENAI_API_KEY,
+        model: config.LLM_MODEL,
+      });
+    case 'mock':
+      return createMockProvider();
+  }
+}
@@ -0,0 +1,56 @@
+import type { LlmProvider, LlmRequest } from './types.js';
+
+/**
+ * Deterministic scripted provider for tests and offline development.
+ *
+ * Replies are played back in order. An Error in the script is thrown
+ * instead of returned, and running out of replies throws too, so every
+ * fallback path can be driven from a test.
+ */
+
+export type MockReply = string | Error;
+
+export interface MockLlmProvider extends LlmProvider {
+  /** Every request received, in order */
+  calls: LlmRequest[];
+}
+
+/**
+ * A valid recommendation, used when no script is given
+ */
+export const DEFAULT_MOCK_REPLY = JSON.stringify({
+  explanation: 'They stopped logging in after a busy first month.',
+  action: 'SEND_MESSAGE',
+  message: 'Hey — noticed things went quiet on your side. Anything I can help with?',
+});
+
+export function createMockProvider(
+  script?: MockReply[] | ((request: LlmRequest) => MockReply),
+): MockLlmProvider {
+  const calls: LlmRequest[] = [];
+
+  return {
+    id: 'mock',
+    model: 'scripted',
+    calls,
+
+    async complete(request: LlmRequest): Promise<string> {
+      calls.push(request);
+
+      let reply: MockReply | undefined;
+      if (script === undefined) {
+        reply = DEFAULT_MOCK_REPLY;
+      } else if (typeof script === 'function') {
+        reply = script(request);
+      } else {
+        reply = script[calls.length - 1];
+      }
+
+      if (reply === undefined) {
+        throw new Error(`Mock script exhausted after ${script?.length} replies`);
+      }
+      if (reply instanceof Error) throw reply;
+      return reply;
+    },
+  };
+}
@@ -0,0 +1,89 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { createOpenAiProvider } from './openai.js';
+
+const request = {
+  system: 'Be calm.',
+  prompt: 'Write a message.',
+  temperature: 0.7,
+  maxOutputTokens: 300,
+};
+
+function recordingFetch(response: Response) {
+  const calls: Array<{ url: string; init: RequestInit }> = [];
+  const fetchFn = (async (input: string | URL | Request, init?: RequestInit) => {
+    calls.push({ url: String(input), init: init ?? {} });
+    return response;
+  }) as typeof fetch;
+  return { calls, fetchFn };
+}
+
+describe('OpenAI-compatible provider', () => {
+  it('should post a chat completion to the configured base URL', async () => {
+    const { calls, fetchFn } = recordingFetch(
+      Response.json({ choices: [{ message: { content: '{"ok":true}' } }] }),
+    );
+    const provider = createOpenAiProvider({
+      baseUrl: 'http://localhost:11434/v1/',
+      model: 'llama3.1',
+      fetch: fetchFn,
+    });
+
+    assert.strictEqual(await provider.complete(request), '{"ok":true}');
+    assert.strictEqual(calls[0].url, 'http://localhost:11434/v1/chat/completions');
+    assert.strictEqual((calls[0].init.headers as Record<string, string>).Authorization, undefined);
+    assert.deepStrictEqual(JSON.parse(String(calls[0].init.body)), {
+      model: 'llama3.1',
+      messages: [
+        { role: 'system', content: 'Be calm.' },
+        { role: 'user', content: 'Write a message.' },
+      ],
+      temperature: 0.7,
+      max_tokens: 300,
+      response_format: { type: 'json_object' },
+    });
+  });
+
+  it('should send the API key as a bearer token', async () => {
+    const { calls, fetchFn } = recordingFetch(
+      Response.json({ choices: [{ message: { content: '{}' } }] }),
+    );
+    await createOpenAiProvider({ apiKey: 'sk-test', fetch: fetchFn }).complete(request);
+
+    assert.strictEqual(calls[0].url, 'https://api.openai.com/v1/chat/completions');
+    assert.strictEqual(
+      (calls[0].init.headers as Record<string, string>).Authorization,
+      'Bearer sk-test',
+    );
+  });
+
+  it('should throw on an error status or an empty reply', async () => {
+    const failing = createOpenAiProvider({
+      fetch: recordingFetch(new Response('busy', { status: 429 })).fetchFn,
+    });
+    const empty = createOpenAiProvider({
+      fetch: recordingFetch(Response.json({ choices: [] })).fetchFn,
+    });
+
+    await assert.rejects(failing.complete(request), /error 429/);
+    await assert.rejects(empty.complete(request), /No content/);
+  });
+
+  it('should give up on a slow reply with a timeout error', async () => {
+    // Never answers; the timer only keeps the event loop alive, as a socket would
+    const hanging = (async (_input: string | URL | Request, init?: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        const pending = setTimeout(() => {}, 1000);
+        init?.signal?.addEventListener('abort', () => {
+          clearTimeout(pending);
+          reject(init.signal?.reason);
+        });
+      })) as typeof fetch;
+    const provider = createOpenAiProvider({ fetch: hanging, timeoutMs: 10 });
+
+    await assert.rejects(provider.complete(request), {
+      name: 'TimeoutError',
+      message: /timed out after 10ms/,
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import type { FetchFn, LlmProvider, LlmRequest } from './types.js';
+
+/**
+ * OpenAI-compatible chat completions adapter.
+ *
+ * Works with OpenAI itself and with self-hosted servers that expose the same
+ * API (vLLM, Ollama, LM Studio, llama.cpp) via `baseUrl`. The API key is
+ * optional because local servers often don't need one.
+ */
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+/**
+ * How long a completion may take, reply body included, before it is abandoned
+ */
+export const DEFAULT_OPENAI_TIMEOUT_MS = 30_000;
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+}
+
+export function createOpenAiProvider(
+  options: {
+    baseUrl?: string;
+    apiKey?: string;
+    model?: string;
+    fetch?: FetchFn;
+    timeoutMs?: number;
+  } = {},
+): LlmProvider {
+  const baseUrl = (options.baseUrl ?? DEFAULT_OPENAI_BASE_URL).replace(/\/$/, '');
+  const model = options.model ?? DEFAULT_OPENAI_MODEL;
+  const fetchFn = options.fetch ?? fetch;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_OPENAI_TIMEOUT_MS;
+
+  async function chatCompletion(request: LlmRequest, signal: AbortSignal): Promise<string> {
+    const response = await fetchFn(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.prompt },
+        ],
+        temperature: request.temperature,
+        max_tokens: request.maxOutputTokens,
+        response_format: { type: 'json_object' },
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw Object.assign(
+        new Error(`OpenAI-compatible API error ${response.status} from ${baseUrl}`),
+        { status: response.status },
+      );
+    }
+
+    const body = (await response.json()) as ChatCompletionResponse;
+    const content = body.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error('No content in chat completion response');
+    }
+    return content;
+  }
+
+  return {
+    id: 'openai',
+    model,
+
+    async complete(request: LlmRequest): Promise<string> {
+      try {
+        return await chatCompletion(request, AbortSignal.timeout(timeoutMs));
+      } catch (error) {
+        // Thrown as TimeoutError so withRetry tries again, like a 429
+        if ((error as Error | null)?.name === 'TimeoutError') {
+          throw Object.assign(
+            new Error(`OpenAI-compatible API timed out after ${timeoutMs}ms from ${baseUrl}`),
+            { name: 'TimeoutError' },
+          );
+        }
+        throw error;
+      }
+    },
+  };
+}
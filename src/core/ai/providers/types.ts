@@ -0,0 +1,28 @@
+/**
+ * LLM backends that can write recommendations
+ */
+export type LlmProviderId = 'gemini' | 'openai' | 'mock';
+
+/**
+ * One completion request. The reply is expected to be a JSON object.
+ */
+export interface LlmRequest {
+  system: string;
+  prompt: string;
+  temperature: number;
+  maxOutputTokens: number;
+}
+
+/**
+ * LLM adapter. Providers return the raw reply text; parsing and
+ * validation stay in generate.ts so every backend is held to the same rules.
+ */
+export interface LlmProvider {
+  id: LlmProviderId;
+  model: string;
+
+  /** Throws when the backend fails or returns nothing */
+  complete(request: LlmRequest): Promise<string>;
+}
+
+export type FetchFn = typeof fetch;
@@ -0,0 +1,164 @@
+import { subDays } from 'date-fns';
+import { config } from '../../config.js';
+import { type ContentPolicyRow, type VoiceProfileRow, api, convex } from '../../lib/convex.js';
+import { CACHE_TTL_DAYS, type RecommendationCache } from './cache.js';
+import type { GenerateOptions } from './generate.js';
+import {
+  type ContentPolicy,
+  type ContentPolicyUpdate,
+  ContentPolicyUpdateSchema,
+  resolveContentPolicy,
+} from './policy.js';
+import type { LlmQuota } from './throttle.js';
+import { type VoiceProfile, VoiceProfileSchema } from './voice.js';
+
+/**
+ * The founder's voice profile, or null if they haven't saved one or it no
+ * longer validates
+ */
+export async function loadVoiceProfile(founderId: string): Promise<VoiceProfile | null> {
+  const row = (await convex.query(api.settings.getVoiceProfile, {
+    founderId,
+  })) as VoiceProfileRow | null;
+
+  if (!row) return null;
+
+  const parsed = VoiceProfileSchema.safeParse({
+    samples: row.samples,
+    signOff: row.sign_off ?? undefined,
+    formality: row.formality,
+    avoidWords: row.avoid_words,
+  });
+
+  if (!parsed.success) {
+    console.warn(`Ignoring invalid voice profile for founder ${founderId}`);
+    return null;
+  }
+
+  return parsed.data;
+}
+
+export async function saveVoiceProfile(founderId: string, voice: VoiceProfile): Promise<void> {
+  await convex.mutation(api.settings.setVoiceProfile, {
+    founderId,
+    samples: voice.samples,
+    signOff: voice.signOff,
+    formality: voice.formality,
+    avoidWords: voice.avoidWords,
+  });
+}
+
+/**
+ * The founder's stored content policy overrides, without defaults applied.
+ * A row that no longer validates is ignored.
+ */
+export async function loadContentPolicyOverrides(founderId: string): Promise<ContentPolicyUpdate> {
+  const row = (await convex.query(api.settings.getContentPolicy, {
+    founderId,
+  })) as ContentPolicyRow | null;
+
+  if (!row) return {};
+
+  const parsed = ContentPolicyUpdateSchema.safeParse({
+    bannedTerms: row.banned_terms,
+    requiredTerms: row.required_terms,
+    allowLinks: row.allow_links ?? undefined,
+    allowDiscounts: row.allow_discounts ?? undefined,
+    maxMessageLength: row.max_message_length ?? undefined,
+  });
+
+  if (!parsed.success) {
+    console.warn(`Ignoring invalid content policy for founder ${founderId}`);
+    return {};
+  }
+
+  return parsed.data;
+}
+
+/**
+ * The founder's content policy with defaults filled in
+ */
+export async function loadContentPolicy(founderId: string): Promise<ContentPolicy> {
+  return resolveContentPolicy(await loadContentPolicyOverrides(founderId));
+}
+
+/**
+ * Replace the founder's overrides; returns the resolved policy
+ */
+export async function saveContentPolicy(
+  founderId: string,
+  overrides: ContentPolicyUpdate,
+): Promise<ContentPolicy> {
+  await convex.mutation(api.settings.setContentPolicy, {
+    founderId,
+    banned_terms: overrides.bannedTerms,
+    required_terms: overrides.requiredTerms,
+    allow_links: overrides.allowLinks,
+    allow_discounts: overrides.allowDiscounts,
+    max_message_length: overrides.maxMessageLength,
+  });
+
+  return resolveContentPolicy(overrides);
+}
+
+/**
+ * Convex-backed reply cache. Cache errors are logged and treated as a
+ * miss, so a Convex hiccup costs an LLM call rather than a recommendation.
+ */
+export function recommendationCache(): RecommendationCache {
+  return {
+    async get(key) {
+      try {
+        return (await convex.query(api.llm.getCachedRecommendation, {
+          key,
+          since: subDays(new Date(), CACHE_TTL_DAYS).toISOString(),
+        })) as string | null;
+      } catch (error) {
+        console.error('Recommendation cache read failed:', error);
+        return null;
+      }
+    },
+
+    async set(key, ruleId, content) {
+      try {
+        await convex.mutation(api.llm.setCachedRecommendation, { key, ruleId, content });
+      } catch (error) {
+        console.error('Recommendation cache write failed:', error);
+      }
+    },
+  };
+}
+
+/**
+ * Daily call budget shared by every founder, counted per UTC day in Convex
+ */
+export function dailyLlmQuota(limit: number): LlmQuota {
+  return {
+    async reserve() {
+      return (await convex.mutation(api.llm.reserveLlmCall, {
+        day: new Date().toISOString().slice(0, 10),
+        limit,
+      })) as boolean;
+    },
+  };
+}
+
+/**
+ * Cache, quota and concurrency from config, for every generation batch
+ */
+export function generationLimits(): Pick<GenerateOptions, 'cache' | 'quota' | 'concurrency'> {
+  return {
+    cache: recommendationCache(),
+    quota: dailyLlmQuota(config.LLM_DAILY_QUOTA),
+    concurrency: config.LLM_CONCURRENCY,
+  };
+}
+
+/**
+ * Drop cached replies too old to be used; returns how many were deleted
+ */
+export async function pruneRecommendationCache(): Promise<number> {
+  return (await convex.mutation(api.llm.pruneRecommendationCache, {
+    before: subDays(new Date(), CACHE_TTL_DAYS).toISOString(),
+  })) as number;
+}
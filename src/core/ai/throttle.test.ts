@@ -0,0 +1,99 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { isRateLimitError, isTimeoutError, mapWithConcurrency, withRetry } from './throttle.js';
+
+describe('Concurrency limit', () => {
+  it('should keep at most the limit in flight and preserve order', async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([5, 1, 4, 2, 3, 0], 2, async (n) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, n));
+      inFlight--;
+      return n * 10;
+    });
+
+    assert.deepStrictEqual(results, [50, 10, 40, 20, 30, 0]);
+    assert.strictEqual(peak, 2);
+  });
+
+  it('should handle an empty list', async () => {
+    assert.deepStrictEqual(await mapWithConcurrency([], 4, async () => 1), []);
+  });
+});
+
+describe('Retry with backoff', () => {
+  const rateLimited = () => Object.assign(new Error('Too Many Requests'), { status: 429 });
+
+  it('should recognise rate-limit errors', () => {
+    assert.strictEqual(isRateLimitError(rateLimited()), true);
+    assert.strictEqual(isRateLimitError(new Error('OpenAI-compatible API error 429 from x')), true);
+    assert.strictEqual(isRateLimitError(new Error('[503 Service Unavailable]')), false);
+  });
+
+  it('should retry rate-limited calls with doubling delays', async () => {
+    const delays: number[] = [];
+    let attempts = 0;
+
+    const result = await withRetry(
+      async () => {
+        attempts++;
+        if (attempts < 3) throw rateLimited();
+        return 'ok';
+      },
+      { baseDelayMs: 100, sleep: async (ms) => void delays.push(ms) },
+    );
+
+    assert.strictEqual(result, 'ok');
+    assert.deepStrictEqual(delays, [100, 200]);
+  });
+
+  it('should retry timed-out calls', async () => {
+    let attempts = 0;
+
+    const result = await withRetry(
+      async () => {
+        attempts++;
+        if (attempts < 2) throw new DOMException('The operation timed out.', 'TimeoutError');
+        return 'ok';
+      },
+      { sleep: async () => {} },
+    );
+
+    assert.strictEqual(result, 'ok');
+    assert.strictEqual(attempts, 2);
+    assert.strictEqual(isTimeoutError(new Error('timeout')), false);
+  });
+
+  it('should give up after the last retry and not retry other errors', async () => {
+    const sleep = async () => {};
+    let attempts = 0;
+
+    await assert.rejects(
+      withRetry(
+        async () => {
+          attempts++;
+          throw rateLimited();
+        },
+        { retries: 2, sleep },
+      ),
+      /Too Many Requests/,
+    );
+    assert.strictEqual(attempts, 3);
+
+    attempts = 0;
+    await assert.rejects(
+      withRetry(
+        async () => {
+          attempts++;
+          throw new Error('bad request');
+        },
+        { sleep },
+      ),
+      /bad request/,
+    );
+    assert.strictEqual(attempts, 1);
+  });
+});
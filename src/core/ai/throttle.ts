@@ -0,0 +1,90 @@
+/**
+ * Limits on how hard generation hits the LLM provider.
+ *
+ * Batches run a few accounts at a time, rate-limited and timed-out calls are
+ * retried with exponential backoff, and a daily quota shared by every
+ * founder caps the total. Once the quota is used up, recommendations use
+ * the fallback templates until the next UTC day.
+ */
+
+export const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Like Promise.all over `items.map(fn)`, with at most `limit` calls in flight.
+ * Results keep the input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  const workers = Math.min(Math.max(1, Math.floor(limit)), items.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+
+  return results;
+}
+
+/**
+ * HTTP 429 from any provider: the Gemini SDK sets `status`, the OpenAI
+ * adapter does too, and anything else is matched on its message
+ */
+export function isRateLimitError(error: unknown): boolean {
+  if ((error as { status?: unknown } | null)?.status === 429) return true;
+
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b429\b|rate.?limit|too many requests|resource.?exhausted/i.test(message);
+}
+
+/**
+ * A request abandoned after its timeout (AbortSignal.timeout rejects with a
+ * TimeoutError), worth retrying like a 429
+ */
+export function isTimeoutError(error: unknown): boolean {
+  return (error as { name?: unknown } | null)?.name === 'TimeoutError';
+}
+
+export interface RetryOptions {
+  /** Retries after the first attempt */
+  retries?: number;
+  /** Wait before the first retry; doubles each time */
+  baseDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Run `fn`, retrying rate-limit errors and timeouts with exponential backoff.
+ * Any other error, or the last retryable error, is thrown.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const retries = options.retries ?? 3;
+  const baseDelayMs = options.baseDelayMs ?? 1000;
+  const sleep =
+    options.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries || !(isRateLimitError(error) || isTimeoutError(error))) throw error;
+      await sleep(baseDelayMs * 2 ** attempt);
+    }
+  }
+}
+
+/**
+ * Calls left today, across every founder
+ */
+export interface LlmQuota {
+  /** Claim one call; false once today's quota is used up */
+  reserve(): Promise<boolean>;
+}
@@ -0,0 +1,170 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { CONFIGURABLE_RULES } from '../rules/rules.js';
+import type { Account, RuleResult } from '../rules/types.js';
+import { generateRecommendation } from './generate.js';
+import { resolveContentPolicy } from './policy.js';
+import { previewVoice } from './preview.js';
+import { SYSTEM_PROMPT } from './prompt.js';
+import { DEFAULT_MOCK_REPLY, createMockProvider } from './providers/mock.js';
+import {
+  type VoiceProfile,
+  VoiceProfileSchema,
+  buildSystemPrompt,
+  scrubSample,
+  withSignOff,
+} from './voice.js';
+
+const voice: VoiceProfile = {
+  samples: ['Hey Sam, saw you on sam@acme.io — shout if the $49 plan is too much. Cheers!'],
+  signOff: '— Priya',
+  formality: 'CASUAL',
+  avoidWords: ['circle back', 'synergy'],
+};
+
+const account: Account = {
+  _id: 'acc_1',
+  founder_id: 'founder_1',
+  email: 'jane@example.com',
+  name: 'Jane',
+  mrr: 99,
+  currency: 'usd',
+  last_active_at: null,
+  activated: true,
+  core_used: true,
+  usage_freq: 'WEEKLY',
+  billing_status: 'ACTIVE',
+  cancel_at_period_end: false,
+  stripe_customer_id: null,
+  stripe_subscription_id: null,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-03-01T00:00:00Z',
+};
+
+const result: RuleResult = {
+  ruleId: 'H1',
+  ruleName: 'Silent Drop-off',
+  riskLevel: 'HIGH',
+  reason: 'Stopped using product after activation (expected weekly usage).',
+  suggestedAction: 'SEND_MESSAGE',
+};
+
+describe('Voice profile', () => {
+  it('should fill in defaults and reject unknown fields', () => {
+    assert.deepStrictEqual(VoiceProfileSchema.parse({}), {
+      samples: [],
+      formality: 'NEUTRAL',
+      avoidWords: [],
+    });
+    assert.strictEqual(VoiceProfileSchema.safeParse({ tone: 'warm' }).success, false);
+    assert.strictEqual(
+      VoiceProfileSchema.safeParse({ samples: Array(6).fill('Hi') }).success,
+      false,
+    );
+  });
+
+  it('should fold the voice into the system prompt with samples redacted', () => {
+    assert.strictEqual(buildSystemPrompt(null), SYSTEM_PROMPT);
+
+    const prompt = buildSystemPrompt(voice);
+    assert.ok(prompt.startsWith(SYSTEM_PROMPT));
+    assert.match(prompt, /Formality: casual/);
+    assert.match(prompt, /Never use these words: circle back, synergy/);
+    assert.match(prompt, /Hey \[name\], saw you on \[email\] — shout if the \[amount\] plan/);
+    assert.doesNotMatch(prompt, /Sam|sam@acme\.io|\$49/);
+  });
+
+  it("should scrub recipients' names from sample greetings", () => {
+    assert.strictEqual(
+      scrubSample('Hi Sarah,\nGood to hear from you.\n\nThanks Sarah Lee!'),
+      'Hi [name],\nGood to hear from you.\n\nThanks [name]!',
+    );
+    assert.strictEqual(scrubSample('hey there, Dear Prudence'), 'hey there, Dear Prudence');
+  });
+
+  it('should append the sign-off once', () => {
+    assert.strictEqual(withSignOff('Hi there', '— Priya'), 'Hi there\n\n— Priya');
+    assert.strictEqual(withSignOff('Hi there\n\n— Priya', '— Priya'), 'Hi there\n\n— Priya');
+  });
+});
+
+describe('Generation with a voice profile', () => {
+  it('should send the voice prompt and sign the message', async () => {
+    const provider = createMockProvider();
+    const recommendation = await generateRecommendation(account, result, { provider, voice });
+
+    assert.strictEqual(provider.calls[0].system, buildSystemPrompt(voice));
+    assert.strictEqual(recommendation.fallbackUsed, false);
+    assert.match(recommendation.message ?? '', /\n\n— Priya$/);
+  });
+
+  it('should fall back when the reply uses an avoided word', async () => {
+    const provider = createMockProvider([
+      JSON.stringify({
+        explanation: 'They went quiet.',
+        action: 'SEND_MESSAGE',
+        message: 'Wanted to circle back on your account.',
+      }),
+    ]);
+    const recommendation = await generateRecommendation(account, result, { provider, voice });
+
+    assert.strictEqual(recommendation.fallbackUsed, true);
+    assert.match(recommendation.message ?? '', /— Priya$/);
+  });
+
+  it('should count the sign-off toward the length limit', async () => {
+    const reply = (length: number) =>
+      JSON.stringify({
+        explanation: 'They went quiet.',
+        action: 'SEND_MESSAGE',
+        message: 'x'.repeat(length),
+      });
+    const policy = resolveContentPolicy({ maxMessageLength: 100 });
+    const options = { voice, policy };
+
+    const fits = await generateRecommendation(account, result, {
+      ...options,
+      provider: createMockProvider([reply(91)]),
+    });
+    const over = await generateRecommendation(account, result, {
+      ...options,
+      provider: createMockProvider([reply(95)]),
+    });
+
+    assert.strictEqual(fits.fallbackUsed, false);
+    assert.strictEqual(fits.message?.length, 100);
+    assert.strictEqual(over.fallbackUsed, true);
+  });
+});
+
+describe('Voice preview', () => {
+  it('should write every rule with and without the voice', async () => {
+    const provider = createMockProvider(() => DEFAULT_MOCK_REPLY);
+    const previews = await previewVoice(voice, {
+      provider,
+      customRules: [
+        {
+          id: 'C1',
+          name: 'Big account gone quiet',
+          riskLevel: 'HIGH',
+          action: 'SEND_MESSAGE',
+          reason: 'Pays {{mrr}} a month and went quiet',
+          when: { field: 'mrr', op: 'gte', value: 50 },
+        },
+      ],
+      clock: { now: new Date('2026-10-19T09:00:00Z'), timeZone: 'UTC' },
+    });
+
+    assert.deepStrictEqual(
+      previews.map((p) => p.ruleId),
+      [...CONFIGURABLE_RULES.map((rule) => rule.id), 'C1'],
+    );
+    for (const preview of previews) {
+      assert.doesNotMatch(preview.before.message ?? '', /Priya/);
+      assert.match(preview.after.message ?? '', /— Priya$/);
+    }
+    assert.strictEqual(provider.calls.length, previews.length * 2);
+    assert.strictEqual(provider.calls[0].system, SYSTEM_PROMPT);
+    assert.doesNotMatch(provider.calls.at(-1)?.prompt ?? '', /\b79\b/);
+  });
+});
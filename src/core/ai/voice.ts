@@ -0,0 +1,86 @@
+import { z } from 'zod';
+import { redact } from './context.js';
+import { type ContentPolicy, describePolicy } from './policy.js';
+import { SYSTEM_PROMPT } from './prompt.js';
+
+/**
+ * Founder voice profiles.
+ *
+ * A profile is folded into the system prompt so messages sound like the
+ * founder: sample emails to imitate, a formality level and words to avoid.
+ * The sign-off is appended after generation rather than left to the model.
+ */
+
+export const VoiceProfileSchema = z
+  .object({
+    /** Emails the founder has sent; scrubbed of names, emails, IDs and amounts before use */
+    samples: z.array(z.string().trim().min(1).max(1500)).max(5).default([]),
+    signOff: z.string().trim().min(1).max(80).optional(),
+    formality: z.enum(['CASUAL', 'NEUTRAL', 'FORMAL']).default('NEUTRAL'),
+    avoidWords: z.array(z.string().trim().min(1).max(40)).max(30).default([]),
+  })
+  .strict();
+
+export type VoiceProfile = z.infer<typeof VoiceProfileSchema>;
+
+const FORMALITY: Record<VoiceProfile['formality'], string> = {
+  CASUAL: 'casual: contractions, short sentences and first names are fine',
+  NEUTRAL: 'neutral: friendly but plain',
+  FORMAL: 'formal: full sentences, no slang or contractions',
+};
+
+/**
+ * A greeting at the start of a line and the capitalised name after it.
+ * Case-sensitive, since `i` would let \p{Lu} match lowercase too.
+ */
+const GREETING_NAME =
+  /^(\s*(?:[Hh]i|[Hh]ey|[Hh]ello|[Dd]ear|(?:[Gg]ood )?[Mm]orning|[Gg]ood (?:afternoon|evening)|[Tt]hanks|[Tt]hank you)[ \t]+)\p{Lu}[\p{L}'-]*(?:[ \t]+\p{Lu}[\p{L}'-]*)?/gmu;
+
+/**
+ * A sample with the recipient's name taken out of greetings ("Hi Sarah," →
+ * "Hi [name],"), then redacted like any other free text. Samples are other
+ * customers' emails, and their names must not reach the model.
+ */
+export function scrubSample(sample: string): string {
+  return redact(sample.replace(GREETING_NAME, '$1[name]'));
+}
+
+/**
+ * The shared system prompt, plus the founder's content rules and voice
+ * when they have them
+ */
+export function buildSystemPrompt(voice?: VoiceProfile | null, policy?: ContentPolicy): string {
+  const rules = policy ? describePolicy(policy) : [];
+  const base =
+    rules.length > 0
+      ? `${SYSTEM_PROMPT}\n\nFounder's content rules:\n${rules.join('\n')}`
+      : SYSTEM_PROMPT;
+
+  if (!voice) return base;
+
+  const lines = [`- Formality: ${FORMALITY[voice.formality]}`];
+  if (voice.avoidWords.length > 0) {
+    lines.push(`- Never use these words: ${voice.avoidWords.join(', ')}`);
+  }
+  if (voice.signOff) {
+    lines.push(
+      `- Do not add a sign-off at the end; "${voice.signOff}" is added for you and counts toward the length limit.`,
+    );
+  }
+
+  const samples =
+    voice.samples.length > 0
+      ? `\n\nEmails the founder wrote. Match their tone and phrasing, never copy them:\n${voice.samples
+          .map((sample) => `---\n${scrubSample(sample)}`)
+          .join('\n')}\n---`
+      : '';
+
+  return `${base}
+
+Write the message in the founder's own voice:
+${lines.join('\n')}${samples}`;
+}
+
+export function withSignOff(message: string, signOff: string): string {
+  return message.trimEnd().endsWith(signOff) ? message : `${message.trimEnd()}\n\n${signOff}`;
+}
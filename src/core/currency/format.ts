@@ -0,0 +1,33 @@
+/**
+ * Format an amount for display, e.g. formatMoney(1234.5, 'eur') → "€1,234.50"
+ *
+ * Whole amounts drop the decimals to keep emails readable.
+ */
+export function formatMoney(amount: number, currency: string): string {
+  const fractionDigits = Number.isInteger(amount) ? 0 : 2;
+
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency.toUpperCase(),
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    }).format(amount);
+  } catch {
+    // Unknown ISO code: fall back to a plain number with the code
+    return `${amount.toLocaleString('en-US')} ${currency.toUpperCase()}`;
+  }
+}
+
+/**
+ * Note under a converted total, e.g. "Excludes JPY and KRW amounts (no exchange rate)";
+ * null when nothing was left out
+ */
+export function formatExcludedCurrencies(currencies: string[]): string | null {
+  if (currencies.length === 0) return null;
+
+  const codes = currencies.map((c) => c.toUpperCase());
+  const list =
+    codes.length === 1 ? codes[0] : `${codes.slice(0, -1).join(', ')} and ${codes.at(-1)}`;
+  return `Excludes ${list} amounts (no exchange rate)`;
+}
@@ -0,0 +1,57 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { formatExcludedCurrencies, formatMoney } from './format.js';
+import { convertAmount, sumInCurrency } from './fx.js';
+
+const rates = { usd: 1, eur: 1.1, gbp: 1.25 };
+
+describe('FX conversion', () => {
+  it('should return the amount unchanged for the same currency', () => {
+    assert.strictEqual(convertAmount(49, 'EUR', 'eur', {}), 49);
+  });
+
+  it('should convert through the USD rate table', () => {
+    assert.strictEqual(convertAmount(100, 'eur', 'usd', rates)?.toFixed(2), '110.00');
+    assert.strictEqual(convertAmount(125, 'usd', 'gbp', rates)?.toFixed(2), '100.00');
+    assert.strictEqual(convertAmount(100, 'gbp', 'eur', rates)?.toFixed(2), '113.64');
+  });
+
+  it('should return null when a rate is missing', () => {
+    assert.strictEqual(convertAmount(100, 'jpy', 'usd', rates), null);
+  });
+
+  it('should sum mixed currencies into the base currency and report missing rates', () => {
+    const result = sumInCurrency(
+      [
+        { amount: 100, currency: 'usd' },
+        { amount: 100, currency: 'eur' },
+        { amount: 1000, currency: 'jpy' },
+      ],
+      'usd',
+      rates,
+    );
+
+    assert.strictEqual(result.total, 210);
+    assert.deepStrictEqual(result.missing, ['jpy']);
+  });
+});
+
+describe('formatMoney', () => {
+  it('should format with the currency symbol', () => {
+    assert.strictEqual(formatMoney(1234, 'usd'), '$1,234');
+    assert.strictEqual(formatMoney(49.5, 'eur'), '€49.50');
+    assert.strictEqual(formatMoney(20, 'GBP'), '£20');
+  });
+
+  it('should list the currencies left out of a total', () => {
+    assert.strictEqual(formatExcludedCurrencies([]), null);
+    assert.strictEqual(
+      formatExcludedCurrencies(['jpy']),
+      'Excludes JPY amounts (no exchange rate)',
+    );
+    assert.strictEqual(
+      formatExcludedCurrencies(['jpy', 'krw', 'try']),
+      'Excludes JPY, KRW and TRY amounts (no exchange rate)',
+    );
+  });
+});
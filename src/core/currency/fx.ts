@@ -0,0 +1,79 @@
+import { api, convex } from '../../lib/convex.js';
+
+/**
+ * FX conversion against the locally stored rate table.
+ *
+ * Rates are stored as the USD value of one unit of each currency
+ * (e.g. eur → 1.08). USD itself is always 1.
+ */
+
+export type FxRates = Record<string, number>;
+
+export const DEFAULT_BASE_CURRENCY = 'usd';
+
+/**
+ * Load the rate table from Convex, keyed by lowercase ISO code
+ */
+export async function loadFxRates(): Promise<FxRates> {
+  const rows = (await convex.query(api.fx.getFxRates)) as Array<{
+    currency: string;
+    usd_rate: number;
+  }>;
+
+  const rates: FxRates = { usd: 1 };
+  for (const row of rows) {
+    rates[row.currency.toLowerCase()] = row.usd_rate;
+  }
+  return rates;
+}
+
+/**
+ * Convert an amount between currencies.
+ * Returns null when either rate is missing.
+ */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  rates: FxRates,
+): number | null {
+  const source = from.toLowerCase();
+  const target = to.toLowerCase();
+
+  if (source === target) return amount;
+
+  const sourceRate = source === 'usd' ? 1 : rates[source];
+  const targetRate = target === 'usd' ? 1 : rates[target];
+
+  if (!sourceRate || !targetRate) return null;
+
+  return (amount * sourceRate) / targetRate;
+}
+
+/**
+ * Sum amounts in mixed currencies into the base currency.
+ * Amounts without a known rate are left out and reported in `missing`.
+ */
+export function sumInCurrency(
+  amounts: Array<{ amount: number; currency: string }>,
+  baseCurrency: string,
+  rates: FxRates,
+): { total: number; missing: string[] } {
+  let total = 0;
+  const missing = new Set<string>();
+
+  for (const { amount, currency } of amounts) {
+    const converted = convertAmount(amount, currency, baseCurrency, rates);
+    if (converted === null) {
+      missing.add(currency.toLowerCase());
+    } else {
+      total += converted;
+    }
+  }
+
+  if (missing.size > 0) {
+    console.warn(`No FX rate for ${[...missing].join(', ')}; excluded from ${baseCurrency} total`);
+  }
+
+  return { total: Math.round(total * 100) / 100, missing: [...missing] };
+}
@@ -0,0 +1,53 @@
+/**
+ * Minor units per currency.
+ *
+ * Billing APIs send amounts in the currency's smallest unit: cents for USD,
+ * whole yen for JPY, fils for KWD. The lists follow Stripe's, which Paddle
+ * and Lemon Squeezy agree with.
+ */
+
+const ZERO_DECIMAL = new Set([
+  'bif',
+  'clp',
+  'djf',
+  'gnf',
+  'jpy',
+  'kmf',
+  'krw',
+  'mga',
+  'pyg',
+  'rwf',
+  'ugx',
+  'vnd',
+  'vuv',
+  'xaf',
+  'xof',
+  'xpf',
+]);
+
+const THREE_DECIMAL = new Set(['bhd', 'jod', 'kwd', 'omr', 'tnd']);
+
+/**
+ * Digits after the decimal point in the currency's minor unit
+ */
+export function minorUnitDigits(currency: string): number {
+  const code = currency.toLowerCase();
+  if (ZERO_DECIMAL.has(code)) return 0;
+  if (THREE_DECIMAL.has(code)) return 3;
+  return 2;
+}
+
+/**
+ * Convert an amount in minor units to major units, rounded to the minor unit
+ */
+export function fromMinorUnits(amount: number, currency: string): number {
+  return Math.round(amount) / 10 ** minorUnitDigits(currency);
+}
+
+/**
+ * Round an amount in major units to the currency's minor unit
+ */
+export function roundToMinorUnit(amount: number, currency: string): number {
+  const factor = 10 ** minorUnitDigits(currency);
+  return Math.round(amount * factor) / factor;
+}
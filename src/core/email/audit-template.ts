@@ -1,4 +1,5 @@
 import type { GenerationResult } from '../ai/generate.js';
+import { formatExcludedCurrencies, formatMoney } from '../currency/format.js';
 import type { Account } from '../rules/types.js';
 import type { RuleResult } from '../rules/types.js';
 
@@ -26,7 +27,11 @@ export interface AuditData {
   email: string;
   company?: string;
   customers: AuditCustomer[];
+  /** Reporting currency; totalMrrAtRisk is already converted into it */
+  currency: string;
   totalMrrAtRisk: number;
+  /** Currencies left out of totalMrrAtRisk because there was no rate for them */
+  excludedCurrencies?: string[];
   atRiskCount: number;
   generatedAt: Date;
 }
@@ -34,8 +39,8 @@ export interface AuditData {
 /**
  * Generate subject line for audit email
  */
-export function generateAuditSubject(mrrAtRisk: number): string {
-  return `Your ChurnPilot Audit: $${mrrAtRisk.toLocaleString()} MRR at Risk`;
+export function generateAuditSubject(mrrAtRisk: number, currency: string): string {
+  return `Your ChurnPilot Audit: ${formatMoney(mrrAtRisk, currency)} MRR at Risk`;
 }
 
 /**
@@ -43,6 +48,7 @@ export function generateAuditSubject(mrrAtRisk: number): string {
  */
 export function generateAuditHtml(data: AuditData): string {
   const subscribeUrl = 'https://churnpilot.com/#signup';
+  const excluded = formatExcludedCurrencies(data.excludedCurrencies ?? []);
 
   return `
 <!DOCTYPE html>
@@ -62,11 +68,18 @@ export function generateAuditHtml(data: AuditData): string {
           Your Free Audit
         </p>
         <h1 style="margin: 0 0 8px 0; font-size: 28px; font-weight: 700; color: #1a1a1a;">
-          $${data.totalMrrAtRisk.toLocaleString()} MRR at Risk
+          ${formatMoney(Math.round(data.totalMrrAtRisk), data.currency)} MRR at Risk
         </h1>
         <p style="margin: 0; color: #666; font-size: 15px;">
           ${data.atRiskCount} ${data.atRiskCount === 1 ? 'account needs' : 'accounts need'} your attention right now.
         </p>
+        ${
+          excluded
+            ? `
+        <p style="margin: 8px 0 0 0; color: #999; font-size: 13px;">${excluded}</p>
+        `
+            : ''
+        }
       </div>
 
       <hr style="border: none; border-top: 1px solid #eee; margin: 24px 0;">
@@ -83,7 +96,7 @@ export function generateAuditHtml(data: AuditData): string {
           (c, _i) => `
         <div style="margin-bottom: 20px; padding: 20px; background: #f8f9fa; border-radius: 8px; border-left: 4px solid ${c.result.riskLevel === 'HIGH' ? '#ef4444' : '#eab308'};">
           <h3 style="margin: 0 0 8px 0; font-size: 15px; font-weight: 600; color: #1a1a1a;">
-            ${riskBadge(c.result.riskLevel)} ${c.account.name || c.account.email} — $${c.account.mrr}/mo
+            ${riskBadge(c.result.riskLevel)} ${c.account.name || c.account.email} — ${formatMoney(c.account.mrr, c.account.currency)}/mo
           </h3>
           
           <p style="margin: 0 0 8px 0; color: #444; font-size: 14px;">
@@ -145,17 +158,21 @@ export function generateAuditHtml(data: AuditData): string {
  * Generate plain text version of audit email
  */
 export function generateAuditText(data: AuditData): string {
-  let text = `YOUR CHURNPILOT AUDIT\n\n`;
-  text += `$${data.totalMrrAtRisk.toLocaleString()} MRR at Risk\n`;
+  let text = 'YOUR CHURNPILOT AUDIT\n\n';
+  text += `${formatMoney(Math.round(data.totalMrrAtRisk), data.currency)} MRR at Risk\n`;
+  const excluded = formatExcludedCurrencies(data.excludedCurrencies ?? []);
+  if (excluded) {
+    text += `${excluded}\n`;
+  }
   text += `${data.atRiskCount} ${data.atRiskCount === 1 ? 'account needs' : 'accounts need'} your attention.\n\n`;
-  text += `---\n\n`;
-  text += `HERE'S WHO TO REACH OUT TO:\n\n`;
+  text += '---\n\n';
+  text += "HERE'S WHO TO REACH OUT TO:\n\n";
 
   data.customers
     .filter((c) => c.result.riskLevel !== 'HEALTHY')
     .slice(0, 3)
     .forEach((c, i) => {
-      text += `${i + 1}) ${c.account.name || c.account.email} — $${c.account.mrr}/mo\n`;
+      text += `${i + 1}) ${c.account.name || c.account.email} — ${formatMoney(c.account.mrr, c.account.currency)}/mo\n`;
       text += `Why: ${c.recommendation.explanation}\n`;
       if (c.recommendation.message) {
         text += `Message: "${c.recommendation.message}"\n`;
@@ -167,9 +184,9 @@ export function generateAuditText(data: AuditData): string {
     text += `+ ${data.atRiskCount - 3} more accounts at risk...\n\n`;
   }
 
-  text += `---\n\n`;
-  text += `GET THIS REPORT EVERY WEEK\n`;
-  text += `Subscribe at https://churnpilot.com — $79/mo\n`;
+  text += '---\n\n';
+  text += 'GET THIS REPORT EVERY WEEK\n';
+  text += 'Subscribe at https://churnpilot.com — $79/mo\n';
 
   return text;
 }
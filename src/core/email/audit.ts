@@ -3,6 +3,21 @@ import Stripe from 'stripe';
 import { config } from '../../config.js';
 import { api, convex } from '../../lib/convex.js';
 import { generateRecommendations } from '../ai/generate.js';
+import { generationLimits } from '../ai/store.js';
+import {
+  DEFAULT_BASE_CURRENCY,
+  type FxRates,
+  convertAmount,
+  loadFxRates,
+  sumInCurrency,
+} from '../currency/fx.js';
+import { aggregateSubscriptions } from '../ingest/aggregate.js';
+import type { NormalizedSubscription } from '../ingest/providers/index.js';
+import {
+  fetchStripeBillingSignals,
+  listStripeSubscriptions,
+  normalizeStripeSubscription,
+} from '../ingest/providers/stripe.js';
 import { evaluateAccounts } from '../rules/engine.js';
 import type { Account } from '../rules/types.js';
 import {
@@ -21,6 +36,7 @@ interface AuditAccount {
   email: string;
   name: string | null;
   mrr: number;
+  currency: string;
   last_active_at: string | null;
   activated: boolean;
   core_used: boolean;
@@ -31,88 +47,93 @@ interface AuditAccount {
   stripe_subscription_id: string | null;
   created_at: string;
   updated_at: string;
+  last_payment_failed_at: string | null;
+  oldest_unpaid_invoice_at: string | null;
+  card_expires_at: string | null;
+  current_period_end: string | null;
+  downgraded_at: string | null;
 }
 
 /**
- * Normalize Stripe subscription status to billing_status enum
+ * The Stripe account's default currency, used as the audit's reporting currency.
+ * Restricted keys may not be allowed to read the account; fall back to USD.
  */
-function normalizeBillingStatus(
-  subscription: Stripe.Subscription,
-): 'ACTIVE' | 'PAYMENT_FAILED' | 'CANCELING' | 'CANCELED' {
-  if (subscription.cancel_at_period_end) {
-    return 'CANCELING';
-  }
-
-  switch (subscription.status) {
-    case 'active':
-    case 'trialing':
-      return 'ACTIVE';
-    case 'past_due':
-    case 'unpaid':
-      return 'PAYMENT_FAILED';
-    case 'canceled':
-    case 'incomplete_expired':
-      return 'CANCELED';
-    default:
-      return 'PAYMENT_FAILED';
+async function fetchDefaultCurrency(stripeApiKey: string): Promise<string> {
+  try {
+    const account = await new Stripe(stripeApiKey).accounts.retrieve();
+    return account.default_currency || DEFAULT_BASE_CURRENCY;
+  } catch {
+    return DEFAULT_BASE_CURRENCY;
   }
 }
 
 /**
  * Fetch accounts from Stripe using provided API key.
+ * Subscriptions are grouped per customer, like synced accounts.
  * Returns in-memory Account objects (not persisted to DB).
  */
-async function fetchAccountsFromStripe(stripeApiKey: string): Promise<AuditAccount[]> {
+async function fetchAccountsFromStripe(
+  stripeApiKey: string,
+  rates: FxRates,
+): Promise<AuditAccount[]> {
   const stripe = new Stripe(stripeApiKey);
+  const byCustomer = new Map<string, NormalizedSubscription[]>();
 
-  const subscriptions = await stripe.subscriptions.list({
-    status: 'all',
-    limit: 100,
-    expand: ['data.customer', 'data.latest_invoice'],
-  });
-
-  const accounts: AuditAccount[] = [];
-  const now = new Date().toISOString();
-
-  for (const subscription of subscriptions.data) {
-    const customer = subscription.customer as Stripe.Customer;
+  // Auto-paginate through every subscription, not just the first page
+  for await (const subscription of listStripeSubscriptions(stripe)) {
+    const normalized = normalizeStripeSubscription(subscription);
 
     // Skip deleted customers
-    if (customer.deleted) continue;
+    if (!normalized) continue;
 
-    // Calculate MRR from subscription items
-    const mrr = subscription.items.data.reduce((total, item) => {
-      const price = item.price;
-      if (!price.unit_amount) return total;
+    const existing = byCustomer.get(normalized.customerId) ?? [];
+    byCustomer.set(normalized.customerId, [...existing, normalized]);
+  }
+
+  const customerSignals = await fetchStripeBillingSignals(stripe);
+  const now = new Date().toISOString();
 
-      // Normalize to monthly
-      if (price.recurring?.interval === 'year') {
-        return total + price.unit_amount / 12 / 100;
-      }
-      return total + price.unit_amount / 100;
-    }, 0);
+  return [...byCustomer].map(([customerId, subscriptions]) => {
+    const live = subscriptions.filter((s) => s.billingStatus !== 'CANCELED');
+    const signals = customerSignals.get(customerId);
+    const first = subscriptions.reduce((a, b) => (b.createdAt < a.createdAt ? b : a));
+    const aggregate = aggregateSubscriptions(
+      subscriptions.map((s) => ({
+        mrr: s.mrr,
+        currency: s.currency,
+        billing_status: s.billingStatus,
+        cancel_at_period_end: s.cancelAtPeriodEnd,
+        card_expires_at: s.signals?.cardExpiresAt,
+        current_period_end: s.currentPeriodEnd,
+      })),
+      (amount, from, to) => convertAmount(amount, from, to, rates),
+    );
 
     // Create in-memory account
-    accounts.push({
-      _id: subscription.id,
+    return {
+      _id: customerId,
       founder_id: 'audit',
-      email: customer.email || 'unknown@example.com',
-      name: customer.name || customer.email || 'Unknown',
-      mrr,
-      billing_status: normalizeBillingStatus(subscription),
-      cancel_at_period_end: subscription.cancel_at_period_end,
-      stripe_customer_id: customer.id,
-      stripe_subscription_id: subscription.id,
+      email: first.email,
+      name: first.name,
+      ...aggregate,
+      stripe_customer_id: customerId,
+      stripe_subscription_id: null,
       last_active_at: null,
       activated: false,
       core_used: false,
       usage_freq: 'WEEKLY',
-      created_at: new Date(subscription.created * 1000).toISOString(),
+      created_at: first.createdAt,
       updated_at: now,
-    });
-  }
+      last_payment_failed_at: latest(live.map((s) => s.signals?.lastPaymentFailedAt)),
+      oldest_unpaid_invoice_at: signals?.oldestUnpaidInvoiceAt ?? null,
+      downgraded_at: signals?.downgradedAt ?? null,
+    };
+  });
+}
 
-  return accounts;
+function latest(dates: Array<string | null | undefined>): string | null {
+  const present = dates.filter((d): d is string => !!d).sort();
+  return present[present.length - 1] ?? null;
 }
 
 export interface AuditResult {
@@ -120,6 +141,7 @@ export interface AuditResult {
   error?: string;
   atRiskCount: number;
   totalMrrAtRisk: number;
+  currency?: string;
   emailId?: string;
 }
 
@@ -128,7 +150,7 @@ export interface AuditResult {
  *
  * Flow:
  * 1. Fetch subscriptions from Stripe (in-memory, no DB write)
- * 2. Run rules engine
+ * 2. Run the billing-only rule pack
  * 3. Generate AI recommendations
  * 4. Send audit email
  * 5. Log lead to audit_leads table
@@ -140,7 +162,8 @@ export async function runAudit(
 ): Promise<AuditResult> {
   try {
     // 1. Fetch accounts from Stripe
-    const accounts = await fetchAccountsFromStripe(stripeApiKey);
+    const rates = await loadFxRates();
+    const accounts = await fetchAccountsFromStripe(stripeApiKey, rates);
 
     if (accounts.length === 0) {
       return {
@@ -151,16 +174,26 @@ export async function runAudit(
       };
     }
 
-    // 2. Run rules engine
-    const evaluatedAccounts = evaluateAccounts(accounts as Account[]);
+    // 2. Run rules engine. The audit has no usage data, so only billing rules apply.
+    const evaluatedAccounts = evaluateAccounts(accounts as Account[], {
+      rulePack: 'BILLING_ONLY',
+    });
 
     // 3. Generate AI recommendations
-    const withRecommendations = await generateRecommendations(evaluatedAccounts);
+    const withRecommendations = await generateRecommendations(
+      evaluatedAccounts,
+      generationLimits(),
+    );
 
     // 4. Calculate stats
     const atRiskAccounts = withRecommendations.filter((c) => c.result.riskLevel !== 'HEALTHY');
     const atRiskCount = atRiskAccounts.length;
-    const totalMrrAtRisk = atRiskAccounts.reduce((sum, c) => sum + c.account.mrr, 0);
+    const currency = await fetchDefaultCurrency(stripeApiKey);
+    const { total: totalMrrAtRisk, missing: excludedCurrencies } = sumInCurrency(
+      atRiskAccounts.map((c) => ({ amount: c.account.mrr, currency: c.account.currency })),
+      currency,
+      rates,
+    );
 
     // Sort by risk level (HIGH first)
     const sortedCustomers: AuditCustomer[] = withRecommendations.sort((a, b) => {
@@ -173,14 +206,16 @@ export async function runAudit(
       email,
       company,
       customers: sortedCustomers,
+      currency,
       totalMrrAtRisk,
+      excludedCurrencies,
       atRiskCount,
       generatedAt: new Date(),
     };
 
     const html = generateAuditHtml(auditData);
     const text = generateAuditText(auditData);
-    const subject = generateAuditSubject(Math.round(totalMrrAtRisk));
+    const subject = generateAuditSubject(Math.round(totalMrrAtRisk), currency);
 
     // 6. Send email via Resend
     const { data: emailData, error: emailError } = await resend.emails.send({
@@ -198,6 +233,7 @@ export async function runAudit(
         error: 'Failed to send audit email.',
         atRiskCount,
         totalMrrAtRisk,
+        currency,
       };
     }
 
@@ -207,6 +243,7 @@ export async function runAudit(
         email,
         company: company || undefined,
         mrrAtRisk: totalMrrAtRisk,
+        currency,
         atRiskCount,
       });
     } catch (insertErr) {
@@ -218,6 +255,7 @@ export async function runAudit(
       success: true,
       atRiskCount,
       totalMrrAtRisk,
+      currency,
       emailId: emailData?.id,
     };
   } catch (error) {
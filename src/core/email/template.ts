@@ -1,4 +1,6 @@
 import type { GenerationResult } from '../ai/generate.js';
+import { formatExcludedCurrencies, formatMoney } from '../currency/format.js';
+import type { RiskChange, RiskChanges } from '../history/changes.js';
 import type { Account } from '../rules/types.js';
 import type { RuleResult } from '../rules/types.js';
 
@@ -21,6 +23,8 @@ function formatAction(action: string): string {
  */
 function riskBadge(level: string): string {
   switch (level) {
+    case 'CRITICAL':
+      return '🚨';
     case 'HIGH':
       return '🔴';
     case 'MEDIUM':
@@ -30,28 +34,106 @@ function riskBadge(level: string): string {
   }
 }
 
+/**
+ * Rules that fired besides the primary one, e.g. "Silent Drop-off · Card Expiring"
+ */
+function alsoFlagged(result: RuleResult): string | null {
+  const others = result.signals?.slice(1) ?? [];
+  if (others.length === 0) return null;
+  return others.map((s) => s.ruleName).join(' · ');
+}
+
 export interface DigestCustomer {
   account: Account;
   result: RuleResult;
   recommendation: GenerationResult;
+  /** Signed one-click links that keep the account out of later digests */
+  snoozeLinks?: { handled: string; snooze: string; snoozeDays: number };
+}
+
+export interface DigestChanges extends RiskChanges {
+  /** Change in total MRR at risk; null when last run's currency can't be converted */
+  mrrAtRiskDelta: number | null;
+  previousRunAt: string;
+}
+
+export interface DigestOutcomes {
+  /** MRR of accounts that recovered after being flagged, in the digest currency */
+  mrrRetained: number;
+  recoveredAccounts: number;
+  /** Period the figures cover */
+  days: number;
 }
 
 export interface DigestData {
   founderName: string;
   founderEmail: string;
   customers: DigestCustomer[];
+  /** Founder's reporting currency; totalMrrAtRisk is already converted into it */
+  currency: string;
+  totalMrrAtRisk: number;
+  /** Currencies left out of totalMrrAtRisk because there was no rate for them */
+  excludedCurrencies?: string[];
+  /** Week-over-week changes; null on the founder's first digest */
+  changes?: DigestChanges | null;
+  /** Null until a flagged account has recovered */
+  outcomes?: DigestOutcomes | null;
   generatedAt: Date;
 }
 
+function titleCase(level: string): string {
+  return level.charAt(0) + level.slice(1).toLowerCase();
+}
+
+/**
+ * "+$120 vs last week", or null when there's nothing to compare
+ */
+function formatDelta(changes: DigestChanges, currency: string): string | null {
+  if (changes.mrrAtRiskDelta === null) return null;
+
+  const delta = Math.round(changes.mrrAtRiskDelta);
+  if (delta === 0) return 'unchanged vs last week';
+
+  const sign = delta > 0 ? '+' : '−';
+  return `${sign}${formatMoney(Math.abs(delta), currency)} vs last week`;
+}
+
+/**
+ * "$450 MRR retained in the last 90 days (3 accounts recovered)"
+ */
+function formatRetained(outcomes: DigestOutcomes, currency: string): string {
+  const accounts = outcomes.recoveredAccounts === 1 ? 'account' : 'accounts';
+  return `${formatMoney(Math.round(outcomes.mrrRetained), currency)} MRR retained in the last ${outcomes.days} days (${outcomes.recoveredAccounts} ${accounts} recovered)`;
+}
+
+/**
+ * Non-empty week-over-week sections, each as a title and its account lines
+ */
+function changeSections(changes: DigestChanges): Array<{ title: string; lines: string[] }> {
+  const name = (c: RiskChange) => `${c.name} (${formatMoney(c.mrr, c.currency)}/month)`;
+
+  return [
+    { title: 'Newly at risk', lines: changes.newlyAtRisk.map(name) },
+    {
+      title: 'Escalated',
+      lines: changes.escalated.map(
+        (c) => `${name(c)}: ${titleCase(c.from ?? '')} → ${titleCase(c.to ?? '')}`,
+      ),
+    },
+    { title: 'Recovered', lines: changes.recovered.map(name) },
+    { title: 'Churned', lines: changes.churned.map(name) },
+  ].filter((section) => section.lines.length > 0);
+}
+
 /**
  * Generate HTML email content for weekly digest
  * Per PRD Section 8: Weekly Churn Email (The Product)
  */
 export function generateDigestHtml(data: DigestData): string {
   const riskCount = data.customers.filter((c) => c.result.riskLevel !== 'HEALTHY').length;
-  const totalMrrAtRisk = data.customers
-    .filter((c) => c.result.riskLevel !== 'HEALTHY')
-    .reduce((sum, c) => sum + c.account.mrr, 0);
+  const delta = data.changes ? formatDelta(data.changes, data.currency) : null;
+  const excluded = formatExcludedCurrencies(data.excludedCurrencies ?? []);
+  const sections = data.changes ? changeSections(data.changes) : [];
 
   return `
 <!DOCTYPE html>
@@ -71,10 +153,47 @@ export function generateDigestHtml(data: DigestData): string {
           ${riskCount} ${riskCount === 1 ? 'account' : 'accounts'} to review this week
         </h1>
         <p style="margin: 0; color: #666; font-size: 14px;">
-          $${totalMrrAtRisk.toFixed(0)} MRR at risk
+          ${formatMoney(Math.round(data.totalMrrAtRisk), data.currency)} MRR at risk${delta ? ` (${delta})` : ''}
         </p>
+        ${
+          excluded
+            ? `
+        <p style="margin: 4px 0 0 0; color: #999; font-size: 13px;">${excluded}</p>
+        `
+            : ''
+        }
+        ${
+          data.outcomes
+            ? `
+        <p style="margin: 4px 0 0 0; color: #1a7f37; font-size: 14px;">
+          ${formatRetained(data.outcomes, data.currency)}
+        </p>
+        `
+            : ''
+        }
       </div>
 
+      ${
+        sections.length > 0
+          ? `
+      <!-- Since last week -->
+      <div style="margin-bottom: 24px;">
+        <h2 style="margin: 0 0 12px 0; font-size: 16px; font-weight: 600;">Since last week</h2>
+        ${sections
+          .map(
+            (section) => `
+        <p style="margin: 0 0 8px 0; color: #444; font-size: 14px;">
+          <strong>${section.title}:</strong><br>
+          ${section.lines.join('<br>')}
+        </p>
+        `,
+          )
+          .join('')}
+      </div>
+      `
+          : ''
+      }
+
       <hr style="border: none; border-top: 1px solid #eee; margin: 24px 0;">
 
       <!-- Customers -->
@@ -83,8 +202,17 @@ export function generateDigestHtml(data: DigestData): string {
           (c, i) => `
         <div style="margin-bottom: 24px; padding: 20px; background: #f8f9fa; border-radius: 8px;">
           <h3 style="margin: 0 0 12px 0; font-size: 16px; font-weight: 600;">
-            ${riskBadge(c.result.riskLevel)} ${i + 1}) ${c.account.name || c.account.email} — $${c.account.mrr}/month
+            ${riskBadge(c.result.severity ?? c.result.riskLevel)} ${i + 1}) ${c.account.name || c.account.email} — ${formatMoney(c.account.mrr, c.account.currency)}/month
           </h3>
+          ${
+            alsoFlagged(c.result)
+              ? `
+          <p style="margin: 0 0 12px 0; color: #666; font-size: 14px;">
+            <strong>Also flagged:</strong> ${alsoFlagged(c.result)}
+          </p>
+          `
+              : ''
+          }
           
           <p style="margin: 0 0 12px 0; color: #444;">
             <strong>Why this matters:</strong><br>
@@ -106,6 +234,16 @@ export function generateDigestHtml(data: DigestData): string {
           `
               : ''
           }
+          ${
+            c.snoozeLinks
+              ? `
+          <p style="margin: 12px 0 0 0; font-size: 13px; color: #666;">
+            <a href="${c.snoozeLinks.handled}" style="color: #0066cc;">Mark handled</a> ·
+            <a href="${c.snoozeLinks.snooze}" style="color: #0066cc;">Snooze ${c.snoozeLinks.snoozeDays} days</a>
+          </p>
+          `
+              : ''
+          }
         </div>
       `,
         )
@@ -134,15 +272,42 @@ export function generateDigestHtml(data: DigestData): string {
 export function generateDigestText(data: DigestData): string {
   const riskCount = data.customers.filter((c) => c.result.riskLevel !== 'HEALTHY').length;
 
-  let text = `${riskCount} ${riskCount === 1 ? 'account' : 'accounts'} to review this week\n\n`;
+  let text = `${riskCount} ${riskCount === 1 ? 'account' : 'accounts'} to review this week\n`;
+  const delta = data.changes ? formatDelta(data.changes, data.currency) : null;
+  text += `${formatMoney(Math.round(data.totalMrrAtRisk), data.currency)} MRR at risk${delta ? ` (${delta})` : ''}\n`;
+  const excluded = formatExcludedCurrencies(data.excludedCurrencies ?? []);
+  if (excluded) {
+    text += `${excluded}\n`;
+  }
+  if (data.outcomes) {
+    text += `${formatRetained(data.outcomes, data.currency)}\n`;
+  }
+  text += '\n';
+
+  const sections = data.changes ? changeSections(data.changes) : [];
+  if (sections.length > 0) {
+    text += 'Since last week:\n';
+    for (const section of sections) {
+      text += `${section.title}: ${section.lines.join('; ')}\n`;
+    }
+    text += '\n';
+  }
 
   data.customers.forEach((c, i) => {
-    text += `${i + 1}) ${c.account.name || c.account.email} — $${c.account.mrr}/month\n`;
+    text += `${i + 1}) ${c.account.name || c.account.email} — ${formatMoney(c.account.mrr, c.account.currency)}/month\n`;
+    const others = alsoFlagged(c.result);
+    if (others) {
+      text += `Also flagged: ${others}\n`;
+    }
     text += `Why this matters: ${c.recommendation.explanation}\n`;
     text += `Recommended action: ${formatAction(c.recommendation.action)}\n`;
     if (c.recommendation.message) {
       text += `Suggested message: "${c.recommendation.message}"\n`;
     }
+    if (c.snoozeLinks) {
+      text += `Mark handled: ${c.snoozeLinks.handled}\n`;
+      text += `Snooze ${c.snoozeLinks.snoozeDays} days: ${c.snoozeLinks.snooze}\n`;
+    }
     text += '\n';
   });
 
@@ -1,10 +1,40 @@
 import { Resend } from 'resend';
 import { config } from '../../config.js';
-import { type Account, api, convex } from '../../lib/convex.js';
+import { type Account, type Founder, api, convex } from '../../lib/convex.js';
+import { productProfile } from '../ai/context.js';
 import { generateRecommendations } from '../ai/generate.js';
+import {
+  generationLimits,
+  loadContentPolicy,
+  loadVoiceProfile,
+  pruneRecommendationCache,
+} from '../ai/store.js';
+import {
+  DEFAULT_BASE_CURRENCY,
+  type FxRates,
+  convertAmount,
+  loadFxRates,
+  sumInCurrency,
+} from '../currency/fx.js';
+import { compareRuns } from '../history/changes.js';
+import { loadPreviousRun, loadSnapshotHistory, recordEvaluationRun } from '../history/snapshots.js';
+import {
+  OUTCOME_REPORT_DAYS,
+  followUpDecisions,
+  outcomeReportForFounder,
+} from '../outcomes/store.js';
+import { systemClock } from '../rules/dates.js';
 import { evaluateAccounts } from '../rules/engine.js';
+import { loadCustomRules, loadRuleSettings } from '../rules/store.js';
+import type { Account as RuleAccount, RuleResult } from '../rules/types.js';
+import { rulePackStamp } from '../rules/version.js';
+import { createSnoozeToken, snoozeLinkKey, snoozeLinkUrl } from '../snooze/links.js';
+import { type SnoozeRequest, applySnoozes, severityOf } from '../snooze/snooze.js';
+import { clearEndedSnoozes, loadSnoozes } from '../snooze/store.js';
 import {
+  type DigestChanges,
   type DigestCustomer,
+  type DigestOutcomes,
   generateDigestHtml,
   generateDigestText,
   generateSubject,
@@ -12,6 +42,83 @@ import {
 
 const resend = new Resend(config.RESEND_API_KEY);
 
+/**
+ * How long the digest's one-click snooze link holds an account back
+ */
+const DIGEST_SNOOZE_DAYS = 7;
+
+/**
+ * Signed "handled" and "snooze" links for one digest entry
+ */
+function snoozeLinks(
+  founderId: string,
+  account: { _id: string },
+  result: RuleResult,
+): DigestCustomer['snoozeLinks'] {
+  const payload = {
+    founderId,
+    accountId: account._id,
+    severity: severityOf(result),
+    ruleId: result.ruleId,
+  };
+  const link = (request: SnoozeRequest) =>
+    snoozeLinkUrl(
+      config.BASE_URL,
+      createSnoozeToken({ ...payload, request }, snoozeLinkKey(config.SESSION_SECRET)),
+    );
+
+  return {
+    handled: link({ action: 'HANDLED' }),
+    snooze: link({ action: 'SNOOZE', days: DIGEST_SNOOZE_DAYS }),
+    snoozeDays: DIGEST_SNOOZE_DAYS,
+  };
+}
+
+/**
+ * What changed since the founder's previous digest run, or null before the first one
+ */
+async function weekOverWeek(
+  founderId: string,
+  evaluated: Array<{ account: RuleAccount; result: RuleResult }>,
+  report: { totalMrrAtRisk: number; currency: string; rates: FxRates },
+): Promise<DigestChanges | null> {
+  const previous = await loadPreviousRun(founderId);
+  if (!previous) return null;
+
+  const accounts = (await convex.query(api.accounts.getAccountsByFounder, {
+    founderId,
+  })) as Account[];
+  const canceled = accounts.filter((a) => a.billing_status === 'CANCELED');
+  const previousTotal = convertAmount(
+    previous.run.mrr_at_risk,
+    previous.run.currency,
+    report.currency,
+    report.rates,
+  );
+
+  return {
+    ...compareRuns(evaluated, previous.snapshots, canceled),
+    mrrAtRiskDelta: previousTotal === null ? null : report.totalMrrAtRisk - previousTotal,
+    previousRunAt: previous.run.created_at,
+  };
+}
+
+/**
+ * "MRR retained" headline for the digest, or null until an account has recovered
+ */
+async function retainedMrr(founderId: string): Promise<DigestOutcomes | null> {
+  await followUpDecisions(founderId);
+
+  const report = await outcomeReportForFounder(founderId, { days: OUTCOME_REPORT_DAYS });
+  if (report.recoveredAccounts === 0) return null;
+
+  return {
+    mrrRetained: report.mrrRetained,
+    recoveredAccounts: report.recoveredAccounts,
+    days: OUTCOME_REPORT_DAYS,
+  };
+}
+
 export async function sendWeeklyDigest(founderId: string): Promise<{
   success: boolean;
   emailId?: string;
@@ -20,7 +127,9 @@ export async function sendWeeklyDigest(founderId: string): Promise<{
   accountCount: number;
 }> {
   try {
-    const founder = await convex.query(api.founders.getFounderById, { id: founderId });
+    const founder = (await convex.query(api.founders.getFounderById, {
+      id: founderId,
+    })) as Founder | null;
 
     if (!founder) {
       return { success: false, error: 'Founder not found', riskCount: 0, accountCount: 0 };
@@ -36,21 +145,69 @@ export async function sendWeeklyDigest(founderId: string): Promise<{
       };
     }
 
-    const evaluatedAccounts = evaluateAccounts(accounts as Account[]);
+    const settings = await loadRuleSettings(founderId);
+    const customRules = await loadCustomRules(founderId);
+    const evaluatedAccounts = evaluateAccounts(accounts as Account[], {
+      timeZone: founder.time_zone ?? undefined,
+      history: await loadSnapshotHistory(founderId),
+      settings,
+      customRules,
+      mode: 'all',
+      trace: true,
+    });
+    const rulePack = rulePackStamp({ settings, customRules });
+
+    const { visible, ended } = applySnoozes(evaluatedAccounts, await loadSnoozes(founderId));
+    await clearEndedSnoozes(ended);
 
-    const withRecommendations = await generateRecommendations(evaluatedAccounts);
+    const rates = await loadFxRates();
+    const withRecommendations = await generateRecommendations(visible, {
+      product: productProfile(founder),
+      rates,
+      clock: systemClock(founder.time_zone ?? undefined),
+      voice: await loadVoiceProfile(founderId),
+      policy: await loadContentPolicy(founderId),
+      ...generationLimits(),
+    });
 
     const sortedCustomers: DigestCustomer[] = withRecommendations.sort((a, b) => {
-      const riskOrder = { HIGH: 0, MEDIUM: 1, HEALTHY: 2 };
-      return riskOrder[a.result.riskLevel] - riskOrder[b.result.riskLevel];
+      const severityOrder = { CRITICAL: 0, HIGH: 1, MEDIUM: 2, HEALTHY: 3 };
+      return (
+        severityOrder[a.result.severity ?? a.result.riskLevel] -
+        severityOrder[b.result.severity ?? b.result.riskLevel]
+      );
     });
 
-    const riskCount = sortedCustomers.filter((c) => c.result.riskLevel !== 'HEALTHY').length;
+    const atRiskCustomers = sortedCustomers.filter((c) => c.result.riskLevel !== 'HEALTHY');
+    const riskCount = atRiskCustomers.length;
+
+    const baseCurrency = founder.base_currency || DEFAULT_BASE_CURRENCY;
+    const { total: totalMrrAtRisk, missing: excludedCurrencies } = sumInCurrency(
+      atRiskCustomers.map((c) => ({ amount: c.account.mrr, currency: c.account.currency })),
+      baseCurrency,
+      rates,
+    );
+
+    // Compared against the last run that was emailed; this one is recorded once it is sent
+    const changes = await weekOverWeek(founderId, evaluatedAccounts, {
+      totalMrrAtRisk,
+      currency: baseCurrency,
+      rates,
+    });
 
     const digestData = {
-      founderName: (founder as { company: string }).company,
-      founderEmail: (founder as { email: string }).email,
-      customers: sortedCustomers,
+      founderName: founder.company,
+      founderEmail: founder.email,
+      customers: sortedCustomers.map((c) =>
+        c.result.riskLevel === 'HEALTHY'
+          ? c
+          : { ...c, snoozeLinks: snoozeLinks(founderId, c.account, c.result) },
+      ),
+      currency: baseCurrency,
+      totalMrrAtRisk,
+      excludedCurrencies,
+      changes,
+      outcomes: await retainedMrr(founderId),
       generatedAt: new Date(),
     };
 
@@ -60,7 +217,7 @@ export async function sendWeeklyDigest(founderId: string): Promise<{
 
     const { data: emailData, error: emailError } = await resend.emails.send({
       from: 'ChurnPilot <hello@churnpilot.com>',
-      to: (founder as { email: string }).email,
+      to: founder.email,
       subject,
       html,
       text,
@@ -76,6 +233,13 @@ export async function sendWeeklyDigest(founderId: string): Promise<{
       };
     }
 
+    // A failed send leaves no run, so next week still compares against the last email
+    await recordEvaluationRun(founderId, evaluatedAccounts, {
+      riskCount,
+      mrrAtRisk: totalMrrAtRisk,
+      currency: baseCurrency,
+    });
+
     await convex.mutation(api.logs.insertDigestLog, {
       founderId,
       accountCount: accounts.length,
@@ -85,12 +249,20 @@ export async function sendWeeklyDigest(founderId: string): Promise<{
     for (const customer of sortedCustomers.filter((c) => c.result.riskLevel !== 'HEALTHY')) {
       await convex.mutation(api.logs.insertDecisionLog, {
         accountId: customer.account._id,
+        founderId,
         ruleId: customer.result.ruleId,
         riskLevel: customer.result.riskLevel,
         action: customer.recommendation.action,
         explanation: customer.recommendation.explanation,
         message: customer.recommendation.message,
         fallbackUsed: customer.recommendation.fallbackUsed,
+        trace: customer.result.trace,
+        ruleVersion: rulePack.version,
+        ruleHash: rulePack.hash,
+        inputs: customer.result.inputs,
+        generator: customer.recommendation.generator,
+        mrr: customer.account.mrr,
+        currency: customer.account.currency,
       });
     }
 
@@ -124,6 +296,10 @@ export async function sendAllWeeklyDigests(): Promise<{
     return { total: 0, successful: 0, failed: 0, results: [] };
   }
 
+  await pruneRecommendationCache().catch((error) =>
+    console.error('Failed to prune recommendation cache:', error),
+  );
+
   const results: Array<{ founderId: string; success: boolean; error?: string }> = [];
 
   for (const founder of founders) {
@@ -147,46 +323,105 @@ export async function sendAllWeeklyDigests(): Promise<{
 
 export async function getDigestPreview(founderId: string): Promise<{
   accountCount: number;
+  currency: string;
+  totalMrrAtRisk: number;
+  /** Currencies left out of totalMrrAtRisk for lack of an exchange rate */
+  excludedCurrencies: string[];
   atRiskAccounts: Array<{
     name: string;
     email: string;
     mrr: number;
+    currency: string;
     riskLevel: string;
+    severity: string;
+    signals: Array<{ ruleId: string; ruleName: string; reason: string }>;
     reason: string;
     action: string;
     message: string | null;
   }>;
+  /** At-risk accounts left out because the founder snoozed them */
+  snoozedCount: number;
+  changes: DigestChanges | null;
   subject: string;
 }> {
+  const founder = (await convex.query(api.founders.getFounderById, {
+    id: founderId,
+  })) as Founder | null;
+  const baseCurrency = founder?.base_currency || DEFAULT_BASE_CURRENCY;
+
   const accounts = await convex.query(api.accounts.getActiveAccountsByFounder, { founderId });
 
   if (!accounts || accounts.length === 0) {
     return {
       accountCount: 0,
+      currency: baseCurrency,
+      totalMrrAtRisk: 0,
+      excludedCurrencies: [],
       atRiskAccounts: [],
+      snoozedCount: 0,
+      changes: null,
       subject: 'No accounts to analyze',
     };
   }
 
-  const evaluatedAccounts = evaluateAccounts(accounts as Account[]);
+  const evaluatedAccounts = evaluateAccounts(accounts as Account[], {
+    timeZone: founder?.time_zone ?? undefined,
+    history: await loadSnapshotHistory(founderId),
+    settings: await loadRuleSettings(founderId),
+    customRules: await loadCustomRules(founderId),
+    mode: 'all',
+  });
 
-  const atRiskAccounts = evaluatedAccounts.filter((e) => e.result.riskLevel !== 'HEALTHY');
+  const { visible, snoozed } = applySnoozes(evaluatedAccounts, await loadSnoozes(founderId));
+  const atRiskAccounts = visible.filter((e) => e.result.riskLevel !== 'HEALTHY');
 
-  const withRecommendations = await generateRecommendations(atRiskAccounts);
+  const rates = await loadFxRates();
+  const withRecommendations = await generateRecommendations(atRiskAccounts, {
+    product: productProfile(founder),
+    rates,
+    clock: systemClock(founder?.time_zone ?? undefined),
+    voice: await loadVoiceProfile(founderId),
+    policy: await loadContentPolicy(founderId),
+    ...generationLimits(),
+  });
 
   const formattedAccounts = withRecommendations.map(({ account, result, recommendation }) => ({
+    // For the dashboard's handled and snooze controls
+    id: account._id,
     name: (account as { name?: string | null }).name || 'Unknown',
     email: (account as { email: string }).email,
     mrr: (account as { mrr: number }).mrr,
+    currency: (account as { currency: string }).currency,
     riskLevel: result.riskLevel,
+    severity: result.severity ?? result.riskLevel,
+    signals: (result.signals ?? []).map(({ ruleId, ruleName, reason }) => ({
+      ruleId,
+      ruleName,
+      reason,
+    })),
     reason: result.reason,
     action: recommendation.action,
     message: recommendation.message,
   }));
 
+  const { total: totalMrrAtRisk, missing: excludedCurrencies } = sumInCurrency(
+    formattedAccounts.map((a) => ({ amount: a.mrr, currency: a.currency })),
+    baseCurrency,
+    rates,
+  );
+
   return {
     accountCount: accounts.length,
+    currency: baseCurrency,
+    totalMrrAtRisk,
+    excludedCurrencies,
     atRiskAccounts: formattedAccounts,
+    snoozedCount: snoozed.filter((e) => e.result.riskLevel !== 'HEALTHY').length,
+    changes: await weekOverWeek(founderId, evaluatedAccounts, {
+      totalMrrAtRisk,
+      currency: baseCurrency,
+      rates,
+    }),
     subject: generateSubject(formattedAccounts.length),
   };
 }
@@ -0,0 +1,169 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { addDays } from 'date-fns';
+import type { AccountSnapshot } from '../../lib/convex.js';
+import { resolveRuleSettings } from '../rules/settings.js';
+import type { Account } from '../rules/types.js';
+import { BacktestRequestSchema, runBacktest } from './backtest.js';
+
+const FIRST_SNAPSHOT = new Date('2026-02-23T09:00:00Z');
+
+function createAccount(id: string, overrides: Partial<Account> = {}): Account {
+  return {
+    _id: id,
+    founder_id: 'founder_1',
+    email: `${id}@example.com`,
+    name: id,
+    mrr: 99,
+    currency: 'usd',
+    last_active_at: null,
+    activated: true,
+    core_used: true,
+    usage_freq: 'WEEKLY',
+    billing_status: 'ACTIVE',
+    cancel_at_period_end: false,
+    stripe_customer_id: null,
+    stripe_subscription_id: null,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-05-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+/**
+ * Weekly snapshots from FIRST_SNAPSHOT, with state chosen per snapshot date
+ */
+function weeklySnapshots(
+  accountId: string,
+  weeks: number,
+  state: (at: Date) => Partial<AccountSnapshot>,
+): AccountSnapshot[] {
+  return Array.from({ length: weeks }, (_, week) => {
+    const at = addDays(FIRST_SNAPSHOT, week * 7);
+    return {
+      _id: `${accountId}_${week}`,
+      founder_id: 'founder_1',
+      account_id: accountId,
+      source: 'SYNC',
+      mrr: 99,
+      currency: 'usd',
+      billing_status: 'ACTIVE',
+      cancel_at_period_end: false,
+      last_active_at: at.toISOString(),
+      activated: true,
+      core_used: true,
+      usage_freq: 'WEEKLY',
+      card_expires_at: null,
+      current_period_end: null,
+      rule_id: null,
+      risk_level: null,
+      severity: null,
+      run_id: null,
+      created_at: at.toISOString(),
+      ...state(at),
+    };
+  });
+}
+
+// Went quiet on Mar 1, canceled Apr 13
+const dropoff = weeklySnapshots('dropoff', 10, (at) => ({
+  last_active_at: '2026-03-01T12:00:00Z',
+  billing_status: at >= new Date('2026-04-13') ? 'CANCELED' : 'ACTIVE',
+}));
+
+// Active every week, never cancels
+const healthy = weeklySnapshots('healthy', 10, () => ({}));
+
+// Active until it canceled on Apr 20, no warning
+const silent = weeklySnapshots('silent', 10, (at) => ({
+  billing_status: at >= new Date('2026-04-20') ? 'CANCELED' : 'ACTIVE',
+}));
+
+const accounts = [createAccount('dropoff'), createAccount('healthy'), createAccount('silent')];
+const snapshots = [...dropoff, ...healthy, ...silent];
+
+const baseOptions = {
+  from: new Date('2026-03-02T12:00:00Z'),
+  to: new Date('2026-04-27T12:00:00Z'),
+  horizonDays: 30,
+  now: new Date('2026-06-01T00:00:00Z'),
+};
+
+describe('Rule backtest', () => {
+  it('should replay weekly and score H1 against cancellations', () => {
+    const report = runBacktest(accounts, snapshots, baseOptions);
+    const h1 = report.rules.find((r) => r.ruleId === 'H1');
+
+    assert.strictEqual(report.evaluations, 9);
+    // dropoff until it cancels (6), healthy throughout (9), silent until it cancels (7)
+    assert.strictEqual(report.observations, 22);
+    assert.strictEqual(report.positives, 8);
+
+    // Fires from Mar 16 (15 days quiet); every flag precedes the cancellation
+    assert.strictEqual(h1?.truePositives, 4);
+    assert.strictEqual(h1?.falsePositives, 0);
+    assert.strictEqual(h1?.falseNegatives, 4);
+    assert.strictEqual(h1?.precision, 1);
+    assert.strictEqual(h1?.recall, 0.5);
+    assert.strictEqual(h1?.medianLeadDays, 28);
+  });
+
+  it('should score a trial threshold', () => {
+    const report = runBacktest(accounts, snapshots, {
+      ...baseOptions,
+      settings: resolveRuleSettings({ inactiveDays: { WEEKLY: 21 } }),
+    });
+    const h1 = report.rules.find((r) => r.ruleId === 'H1');
+
+    assert.strictEqual(h1?.truePositives, 3);
+    assert.strictEqual(h1?.medianLeadDays, 21);
+  });
+
+  it('should report no precision for a rule that never fired', () => {
+    const report = runBacktest(accounts, snapshots, baseOptions);
+    const h4 = report.rules.find((r) => r.ruleId === 'H4');
+
+    assert.strictEqual(h4?.flagged, 0);
+    assert.strictEqual(h4?.precision, null);
+    assert.strictEqual(h4?.recall, 0);
+  });
+
+  it('should date unrecorded cancellations by the period end, not the last update', () => {
+    const canceled = (overrides: Partial<Account>) =>
+      createAccount('silent', {
+        billing_status: 'CANCELED',
+        updated_at: '2026-05-30T00:00:00Z',
+        ...overrides,
+      });
+    const history = weeklySnapshots('silent', 7, () => ({}));
+    const options = { ...baseOptions, to: new Date('2026-04-06T12:00:00Z') };
+
+    const dated = runBacktest(
+      [canceled({ current_period_end: '2026-04-20T00:00:00Z' })],
+      history,
+      options,
+    );
+    const undated = runBacktest([canceled({ current_period_end: null })], history, options);
+
+    assert.strictEqual(dated.positives, 3);
+    assert.strictEqual(undated.observations, 0);
+  });
+
+  it('should cap the replayed range', () => {
+    const range = (from: string, to: string) =>
+      BacktestRequestSchema.safeParse({ from, to }).success;
+
+    assert.strictEqual(range('2026-01-01', '2026-06-30'), true);
+    assert.strictEqual(range('2024-01-01', '2026-06-30'), false);
+    assert.strictEqual(range('2026-06-30', '2026-01-01'), false);
+  });
+
+  it('should skip instants whose outcome is not known yet', () => {
+    const report = runBacktest(accounts, snapshots, {
+      ...baseOptions,
+      now: new Date('2026-04-20T00:00:00Z'),
+    });
+
+    assert.strictEqual(report.evaluations, 3);
+  });
+});
@@ -0,0 +1,333 @@
+import { addDays, differenceInDays, subDays, subWeeks } from 'date-fns';
+import { z } from 'zod';
+import { type Account, type AccountSnapshot, type Founder, api, convex } from '../../lib/convex.js';
+import { DEFAULT_TIME_ZONE, daysUntil } from '../rules/dates.js';
+import { type CustomRule, mergeRules } from '../rules/dsl.js';
+import { evaluateAccount } from '../rules/engine.js';
+import { RULE_PACKS } from '../rules/rules.js';
+import {
+  type RuleSettings,
+  RuleSettingsUpdateSchema,
+  resolveRuleSettings,
+} from '../rules/settings.js';
+import { loadCustomRules, loadRuleOverrides } from '../rules/store.js';
+import type { Account as RuleAccount, RulePackId } from '../rules/types.js';
+import { SNAPSHOT_LOOKBACK_DAYS } from './snapshots.js';
+
+/**
+ * Rule backtesting.
+ *
+ * Replays recorded account snapshots through the engine at weekly intervals
+ * and checks whether each flagged account was canceled within the horizon.
+ * Every evaluation of an account at one instant is an observation; an
+ * observation is positive when the account reached CANCELED within
+ * `horizonDays` of it. Canceled accounts whose cancellation no snapshot
+ * recorded date it by the end of their last billing period, or are left out
+ * when that is unknown too.
+ */
+
+export const BACKTEST_INTERVAL_DAYS = 7;
+export const DEFAULT_BACKTEST_HORIZON_DAYS = 30;
+export const DEFAULT_BACKTEST_WEEKS = 12;
+
+/**
+ * Longest span one request may replay; `to` defaults to today when checking
+ */
+export const MAX_BACKTEST_DAYS = 365;
+
+export const BacktestRequestSchema = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    horizonDays: z.number().int().min(1).max(365).default(DEFAULT_BACKTEST_HORIZON_DAYS),
+    /** Thresholds to try, applied over the founder's stored settings */
+    settings: RuleSettingsUpdateSchema.optional(),
+  })
+  .strict()
+  .superRefine(({ from, to }, ctx) => {
+    if (!from) return;
+
+    const days = differenceInDays(to ?? new Date(), from);
+    if (days < 0) {
+      ctx.addIssue({ code: 'custom', path: ['from'], message: 'must be before to' });
+    } else if (days > MAX_BACKTEST_DAYS) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['from'],
+        message: `must be at most ${MAX_BACKTEST_DAYS} days before to`,
+      });
+    }
+  });
+
+export type BacktestRequest = z.infer<typeof BacktestRequestSchema>;
+
+export interface BacktestOptions {
+  from: Date;
+  to: Date;
+  horizonDays: number;
+  intervalDays?: number;
+  settings?: RuleSettings;
+  customRules?: CustomRule[];
+  rulePack?: RulePackId;
+  timeZone?: string;
+  /** Instants whose horizon ends after this are skipped (outcome not known yet) */
+  now?: Date;
+}
+
+export interface RuleBacktestStats {
+  ruleId: string;
+  ruleName: string;
+  /** Observations where the rule fired */
+  flagged: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number | null;
+  recall: number | null;
+  /** Days from the earliest correct flag to cancellation, per canceled account */
+  medianLeadDays: number | null;
+  meanLeadDays: number | null;
+}
+
+export interface BacktestReport {
+  from: string;
+  to: string;
+  horizonDays: number;
+  intervalDays: number;
+  /** Instants the engine was replayed at */
+  evaluations: number;
+  observations: number;
+  /** Observations followed by a cancellation within the horizon */
+  positives: number;
+  /** Any risk rule firing */
+  overall: RuleBacktestStats;
+  rules: RuleBacktestStats[];
+}
+
+interface Tally {
+  ruleId: string;
+  ruleName: string;
+  flagged: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  /** Longest lead per canceled account */
+  leads: Map<string, number>;
+}
+
+/**
+ * Replay snapshots through the engine and score each rule against cancellations
+ */
+export function runBacktest(
+  accounts: RuleAccount[],
+  snapshots: AccountSnapshot[],
+  options: BacktestOptions,
+): BacktestReport {
+  const intervalDays = options.intervalDays ?? BACKTEST_INTERVAL_DAYS;
+  const settings = options.settings ?? resolveRuleSettings();
+  const now = options.now ?? new Date();
+
+  const byAccount = new Map<string, AccountSnapshot[]>();
+  for (const snapshot of [...snapshots].sort((a, b) => a.created_at.localeCompare(b.created_at))) {
+    const list = byAccount.get(snapshot.account_id) ?? [];
+    list.push(snapshot);
+    byAccount.set(snapshot.account_id, list);
+  }
+
+  const canceledAt = new Map<string, string>();
+  const undated = new Set<string>();
+  for (const account of accounts) {
+    const cancel =
+      byAccount.get(account._id)?.find((s) => s.billing_status === 'CANCELED')?.created_at ??
+      (account.billing_status === 'CANCELED' ? account.current_period_end : null);
+
+    if (cancel) {
+      canceledAt.set(account._id, cancel);
+    } else if (account.billing_status === 'CANCELED') {
+      undated.add(account._id);
+    }
+  }
+
+  const rules = mergeRules(RULE_PACKS[options.rulePack ?? 'DEFAULT'], options.customRules ?? [])
+    .filter((rule) => rule.riskLevel !== 'HEALTHY')
+    .filter((rule) => !settings.disabledRules.includes(rule.id));
+  const tallies = rules.map((rule) => newTally(rule.id, rule.name));
+  const overall = newTally('ANY', 'Any risk rule');
+
+  let evaluations = 0;
+  let observations = 0;
+  let positives = 0;
+
+  for (let at = options.from; at <= options.to; at = addDays(at, intervalDays)) {
+    if (addDays(at, options.horizonDays) > now) break;
+
+    const atIso = at.toISOString();
+    const clock = { now: at, timeZone: options.timeZone ?? DEFAULT_TIME_ZONE };
+    evaluations++;
+
+    for (const account of accounts) {
+      if (undated.has(account._id)) continue;
+
+      const history = byAccount.get(account._id) ?? [];
+      const state = history.filter((s) => s.created_at <= atIso).pop();
+      if (!state || state.billing_status === 'CANCELED') continue;
+
+      const cancel = canceledAt.get(account._id);
+      const lead = cancel && cancel > atIso ? daysUntil(cancel, clock) : null;
+      const churned = lead !== null && lead <= options.horizonDays;
+
+      observations++;
+      if (churned) positives++;
+
+      const result = evaluateAccount(replayAccount(account, state), {
+        now: at,
+        timeZone: options.timeZone,
+        history: { [account._id]: history },
+        settings,
+        customRules: options.customRules,
+        rulePack: options.rulePack,
+        mode: 'all',
+      });
+      const fired = new Set((result.signals ?? []).map((s) => s.ruleId));
+
+      for (const tally of tallies) {
+        record(tally, account._id, fired.has(tally.ruleId), churned, lead);
+      }
+      record(overall, account._id, fired.size > 0, churned, lead);
+    }
+  }
+
+  return {
+    from: options.from.toISOString(),
+    to: options.to.toISOString(),
+    horizonDays: options.horizonDays,
+    intervalDays,
+    evaluations,
+    observations,
+    positives,
+    overall: summarize(overall),
+    rules: tallies.map(summarize),
+  };
+}
+
+/**
+ * The account as it was when the snapshot was taken. Billing signals that
+ * snapshots do not record are left unset rather than read from today's row.
+ */
+function replayAccount(account: RuleAccount, state: AccountSnapshot): RuleAccount {
+  return {
+    ...account,
+    mrr: state.mrr,
+    currency: state.currency,
+    billing_status: state.billing_status,
+    cancel_at_period_end: state.cancel_at_period_end,
+    last_active_at: state.last_active_at,
+    activated: state.activated,
+    core_used: state.core_used,
+    usage_freq: state.usage_freq,
+    card_expires_at: state.card_expires_at ?? null,
+    current_period_end: state.current_period_end ?? null,
+    last_payment_failed_at: null,
+    oldest_unpaid_invoice_at: null,
+    downgraded_at: null,
+  };
+}
+
+function newTally(ruleId: string, ruleName: string): Tally {
+  return {
+    ruleId,
+    ruleName,
+    flagged: 0,
+    truePositives: 0,
+    falsePositives: 0,
+    falseNegatives: 0,
+    leads: new Map(),
+  };
+}
+
+function record(
+  tally: Tally,
+  accountId: string,
+  fired: boolean,
+  churned: boolean,
+  lead: number | null,
+): void {
+  if (fired) tally.flagged++;
+
+  if (fired && churned && lead !== null) {
+    tally.truePositives++;
+    tally.leads.set(accountId, Math.max(lead, tally.leads.get(accountId) ?? 0));
+  } else if (fired) {
+    tally.falsePositives++;
+  } else if (churned) {
+    tally.falseNegatives++;
+  }
+}
+
+function summarize(tally: Tally): RuleBacktestStats {
+  const leads = [...tally.leads.values()].sort((a, b) => a - b);
+
+  return {
+    ruleId: tally.ruleId,
+    ruleName: tally.ruleName,
+    flagged: tally.flagged,
+    truePositives: tally.truePositives,
+    falsePositives: tally.falsePositives,
+    falseNegatives: tally.falseNegatives,
+    precision: ratio(tally.truePositives, tally.truePositives + tally.falsePositives),
+    recall: ratio(tally.truePositives, tally.truePositives + tally.falseNegatives),
+    medianLeadDays: leads.length > 0 ? median(leads) : null,
+    meanLeadDays: leads.length > 0 ? leads.reduce((a, b) => a + b, 0) / leads.length : null,
+  };
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator === 0 ? null : numerator / denominator;
+}
+
+function median(sorted: number[]): number {
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Backtest a founder's rules over their recorded snapshots.
+ * Defaults to the last 12 weeks whose outcome is already known.
+ */
+export async function backtestFounder(
+  founderId: string,
+  request: BacktestRequest,
+): Promise<BacktestReport> {
+  const now = new Date();
+  const to = request.to ?? subDays(now, request.horizonDays);
+  const from = request.from ?? subWeeks(to, DEFAULT_BACKTEST_WEEKS);
+
+  const [founder, accounts, snapshots, stored, customRules] = await Promise.all([
+    convex.query(api.founders.getFounderById, { id: founderId }) as Promise<Founder | null>,
+    convex.query(api.accounts.getAccountsByFounder, { founderId }) as Promise<Account[]>,
+    // Earlier snapshots too, so contraction has a peak to compare against
+    convex.query(api.snapshots.getSnapshotsByFounder, {
+      founderId,
+      since: subDays(from, SNAPSHOT_LOOKBACK_DAYS).toISOString(),
+    }) as Promise<AccountSnapshot[]>,
+    loadRuleOverrides(founderId),
+    loadCustomRules(founderId),
+  ]);
+
+  const trial = request.settings ?? {};
+  const settings = resolveRuleSettings({
+    ...stored,
+    ...trial,
+    inactiveDays: { ...stored.inactiveDays, ...trial.inactiveDays },
+  });
+
+  return runBacktest(accounts as RuleAccount[], snapshots, {
+    from,
+    to,
+    horizonDays: request.horizonDays,
+    settings,
+    customRules,
+    timeZone: founder?.time_zone ?? undefined,
+    now,
+  });
+}
@@ -0,0 +1,138 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import type { AccountSnapshot } from '../../lib/convex.js';
+import type { Account, RuleResult } from '../rules/types.js';
+import { compareRuns } from './changes.js';
+
+function createAccount(id: string, overrides: Partial<Account> = {}): Account {
+  return {
+    _id: id,
+    founder_id: 'founder_1',
+    email: `${id}@example.com`,
+    name: id,
+    mrr: 99,
+    currency: 'usd',
+    last_active_at: null,
+    activated: true,
+    core_used: true,
+    usage_freq: 'WEEKLY',
+    billing_status: 'ACTIVE',
+    cancel_at_period_end: false,
+    stripe_customer_id: null,
+    stripe_subscription_id: null,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-03-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function result(riskLevel: RuleResult['riskLevel'], severity?: RuleResult['severity']): RuleResult {
+  return {
+    ruleId: riskLevel === 'HEALTHY' ? 'HEALTHY' : 'H1',
+    ruleName: 'Silent Drop-off',
+    riskLevel,
+    reason: '',
+    suggestedAction: riskLevel === 'HEALTHY' ? 'DO_NOTHING' : 'SEND_MESSAGE',
+    ...(severity ? { severity } : {}),
+  };
+}
+
+function snapshot(accountId: string, overrides: Partial<AccountSnapshot> = {}): AccountSnapshot {
+  return {
+    _id: `snap_${accountId}`,
+    founder_id: 'founder_1',
+    account_id: accountId,
+    source: 'EVALUATION',
+    mrr: 99,
+    currency: 'usd',
+    billing_status: 'ACTIVE',
+    cancel_at_period_end: false,
+    last_active_at: null,
+    activated: true,
+    core_used: true,
+    usage_freq: 'WEEKLY',
+    card_expires_at: null,
+    current_period_end: null,
+    rule_id: null,
+    risk_level: 'HEALTHY',
+    severity: 'HEALTHY',
+    run_id: 'run_1',
+    created_at: '2026-03-02T09:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('Week-over-week changes', () => {
+  it('should report accounts newly at risk, including ones not seen last run', () => {
+    const changes = compareRuns(
+      [
+        { account: createAccount('a'), result: result('HIGH') },
+        { account: createAccount('b'), result: result('MEDIUM') },
+      ],
+      [snapshot('a')],
+      [],
+    );
+
+    assert.deepStrictEqual(
+      changes.newlyAtRisk.map((c) => [c.accountId, c.from, c.to]),
+      [
+        ['a', 'HEALTHY', 'HIGH'],
+        ['b', null, 'MEDIUM'],
+      ],
+    );
+  });
+
+  it('should report escalation by severity, not just risk level', () => {
+    const changes = compareRuns(
+      [
+        { account: createAccount('a'), result: result('HIGH') },
+        { account: createAccount('b'), result: result('HIGH', 'CRITICAL') },
+        { account: createAccount('c'), result: result('MEDIUM') },
+      ],
+      [
+        snapshot('a', { risk_level: 'MEDIUM', severity: 'MEDIUM' }),
+        snapshot('b', { risk_level: 'HIGH', severity: 'HIGH' }),
+        snapshot('c', { risk_level: 'HIGH', severity: 'HIGH' }),
+      ],
+      [],
+    );
+
+    assert.deepStrictEqual(
+      changes.escalated.map((c) => [c.accountId, c.from, c.to]),
+      [
+        ['a', 'MEDIUM', 'HIGH'],
+        ['b', 'HIGH', 'CRITICAL'],
+      ],
+    );
+    assert.strictEqual(changes.newlyAtRisk.length, 0);
+    assert.strictEqual(changes.recovered.length, 0);
+  });
+
+  it('should report recovered accounts', () => {
+    const changes = compareRuns(
+      [{ account: createAccount('a'), result: result('HEALTHY') }],
+      [snapshot('a', { risk_level: 'HIGH', severity: null })],
+      [],
+    );
+
+    assert.deepStrictEqual(
+      changes.recovered.map((c) => [c.accountId, c.from, c.to]),
+      [['a', 'HIGH', 'HEALTHY']],
+    );
+  });
+
+  it('should report churn only for accounts evaluated last run', () => {
+    const changes = compareRuns(
+      [],
+      [snapshot('a', { risk_level: 'HIGH', severity: 'HIGH', mrr: 49 })],
+      [
+        createAccount('a', { billing_status: 'CANCELED', mrr: 0 }),
+        createAccount('old', { billing_status: 'CANCELED' }),
+      ],
+    );
+
+    assert.deepStrictEqual(changes.churned, [
+      { accountId: 'a', name: 'a', mrr: 49, currency: 'usd', from: 'HIGH', to: null },
+    ]);
+  });
+});
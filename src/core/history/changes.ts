@@ -0,0 +1,91 @@
+import type { AccountSnapshot } from '../../lib/convex.js';
+import type { Account, RuleResult, Severity } from '../rules/types.js';
+
+/**
+ * Week-over-week risk changes between two digest runs
+ */
+
+export interface RiskChange {
+  accountId: string;
+  name: string;
+  mrr: number;
+  currency: string;
+  from: Severity | null;
+  to: Severity | null;
+}
+
+export interface RiskChanges {
+  /** At risk now; healthy or not evaluated last run */
+  newlyAtRisk: RiskChange[];
+  /** At risk both runs, at a higher severity now (e.g. MEDIUM → HIGH) */
+  escalated: RiskChange[];
+  /** At risk last run, healthy now */
+  recovered: RiskChange[];
+  /** Evaluated last run, canceled since */
+  churned: RiskChange[];
+}
+
+const SEVERITY_RANK: Record<Severity, number> = {
+  HEALTHY: 0,
+  MEDIUM: 1,
+  HIGH: 2,
+  CRITICAL: 3,
+};
+
+/**
+ * Severity recorded on a snapshot; older snapshots only have the risk level
+ */
+function snapshotSeverity(snapshot: AccountSnapshot): Severity {
+  return snapshot.severity ?? snapshot.risk_level ?? 'HEALTHY';
+}
+
+/**
+ * Compare this run's results with the previous run's snapshots.
+ * `canceled` are the founder's canceled accounts, which are not evaluated.
+ */
+export function compareRuns(
+  current: Array<{ account: Account; result: RuleResult }>,
+  previous: AccountSnapshot[],
+  canceled: Account[],
+): RiskChanges {
+  const before = new Map(previous.map((s) => [s.account_id as string, s]));
+  const changes: RiskChanges = { newlyAtRisk: [], escalated: [], recovered: [], churned: [] };
+
+  for (const { account, result } of current) {
+    const now = result.severity ?? result.riskLevel;
+    const snapshot = before.get(account._id);
+    const was = snapshot ? snapshotSeverity(snapshot) : null;
+    const change = {
+      accountId: account._id,
+      name: account.name || account.email,
+      mrr: account.mrr,
+      currency: account.currency,
+      from: was,
+      to: now,
+    };
+
+    if (now !== 'HEALTHY' && (was === null || was === 'HEALTHY')) {
+      changes.newlyAtRisk.push(change);
+    } else if (now !== 'HEALTHY' && was !== null && SEVERITY_RANK[now] > SEVERITY_RANK[was]) {
+      changes.escalated.push(change);
+    } else if (now === 'HEALTHY' && was !== null && was !== 'HEALTHY') {
+      changes.recovered.push(change);
+    }
+  }
+
+  for (const account of canceled) {
+    const snapshot = before.get(account._id);
+    if (!snapshot) continue;
+
+    changes.churned.push({
+      accountId: account._id,
+      name: account.name || account.email,
+      mrr: snapshot.mrr,
+      currency: snapshot.currency,
+      from: snapshotSeverity(snapshot),
+      to: null,
+    });
+  }
+
+  return changes;
+}
@@ -0,0 +1,120 @@
+import { subDays } from 'date-fns';
+import { type AccountSnapshot, type EvaluationRun, api, convex } from '../../lib/convex.js';
+import type { RuleResult } from '../rules/types.js';
+
+/**
+ * Account snapshot history.
+ *
+ * Accounts are overwritten in place on every sync, so a snapshot is taken
+ * after each evaluation, and after a sync when the account changed or has
+ * not been snapshotted for a day. Rules read them to spot trends such
+ * as contraction.
+ */
+
+/**
+ * How much history is loaded for rule evaluation
+ */
+export const SNAPSHOT_LOOKBACK_DAYS = 30;
+
+/**
+ * Recent snapshots for a founder, keyed by account ID, oldest first
+ */
+export async function loadSnapshotHistory(
+  founderId: string,
+  days = SNAPSHOT_LOOKBACK_DAYS,
+): Promise<Record<string, AccountSnapshot[]>> {
+  const snapshots = (await convex.query(api.snapshots.getSnapshotsByFounder, {
+    founderId,
+    since: subDays(new Date(), days).toISOString(),
+  })) as AccountSnapshot[];
+
+  const history: Record<string, AccountSnapshot[]> = {};
+  for (const snapshot of snapshots) {
+    history[snapshot.account_id] ??= [];
+    history[snapshot.account_id].push(snapshot);
+  }
+  return history;
+}
+
+/**
+ * Snapshot a founder's changed accounts after a sync.
+ * Non-blocking: a failed write must not fail the sync.
+ */
+export async function snapshotAfterSync(founderId: string): Promise<void> {
+  try {
+    await convex.mutation(api.snapshots.snapshotFounderAccounts, { founderId });
+  } catch (err) {
+    console.warn('Could not snapshot accounts after sync:', err);
+  }
+}
+
+/**
+ * Snapshot evaluated accounts with the rule each one matched.
+ * Non-blocking, like snapshotAfterSync.
+ */
+export async function recordEvaluationSnapshots(
+  evaluated: Array<{ account: { _id: string }; result: RuleResult }>,
+  runId?: string,
+): Promise<void> {
+  const evaluations = evaluated.map(({ account, result }) => ({
+    accountId: account._id,
+    ruleId: result.ruleId,
+    riskLevel: result.riskLevel,
+    severity: result.severity,
+  }));
+
+  try {
+    for (let i = 0; i < evaluations.length; i += 100) {
+      await convex.mutation(api.snapshots.recordEvaluations, {
+        runId,
+        evaluations: evaluations.slice(i, i + 100),
+      });
+    }
+  } catch (err) {
+    console.warn('Could not record evaluation snapshots:', err);
+  }
+}
+
+/**
+ * The latest digest run with the per-account results it recorded,
+ * or null before the founder's first run
+ */
+export async function loadPreviousRun(
+  founderId: string,
+): Promise<{ run: EvaluationRun; snapshots: AccountSnapshot[] } | null> {
+  const run = (await convex.query(api.logs.getLatestEvaluationRun, {
+    founderId,
+  })) as EvaluationRun | null;
+
+  if (!run) return null;
+
+  const snapshots = (await convex.query(api.snapshots.getSnapshotsByRun, {
+    runId: run._id,
+  })) as AccountSnapshot[];
+
+  return { run, snapshots };
+}
+
+/**
+ * Record a digest run and snapshot every evaluated account under it.
+ * Non-blocking: without a run row the snapshots are still written.
+ */
+export async function recordEvaluationRun(
+  founderId: string,
+  evaluated: Array<{ account: { _id: string }; result: RuleResult }>,
+  summary: { riskCount: number; mrrAtRisk: number; currency: string },
+): Promise<void> {
+  let runId: string | undefined;
+
+  try {
+    runId = await convex.mutation(api.logs.insertEvaluationRun, {
+      founderId,
+      accountCount: evaluated.length,
+      ...summary,
+    });
+  } catch (err) {
+    console.warn('Could not record evaluation run:', err);
+  }
+
+  await recordEvaluationSnapshots(evaluated, runId);
+}
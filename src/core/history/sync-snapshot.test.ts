@@ -0,0 +1,47 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { type SnapshotState, needsSyncSnapshot } from './sync-snapshot.js';
+
+const state: SnapshotState = {
+  mrr: 99,
+  currency: 'usd',
+  billing_status: 'ACTIVE',
+  cancel_at_period_end: false,
+  last_active_at: '2026-03-01T00:00:00Z',
+  activated: true,
+  core_used: true,
+  usage_freq: 'WEEKLY',
+  card_expires_at: null,
+  current_period_end: null,
+};
+
+const now = new Date('2026-03-10T12:00:00Z');
+const latest = { ...state, created_at: '2026-03-10T06:00:00Z' };
+
+describe('Sync snapshots', () => {
+  it('should snapshot accounts that have none yet', () => {
+    assert.strictEqual(needsSyncSnapshot(state, null, now), true);
+  });
+
+  it('should skip an unchanged account snapshotted within the day', () => {
+    assert.strictEqual(needsSyncSnapshot(state, latest, now), false);
+    assert.strictEqual(
+      needsSyncSnapshot({ ...state, card_expires_at: undefined }, latest, now),
+      false,
+    );
+  });
+
+  it('should snapshot when a tracked field changed', () => {
+    assert.strictEqual(needsSyncSnapshot({ ...state, mrr: 49 }, latest, now), true);
+    assert.strictEqual(
+      needsSyncSnapshot({ ...state, billing_status: 'PAYMENT_FAILED' }, latest, now),
+      true,
+    );
+  });
+
+  it('should snapshot an unchanged account once a day', () => {
+    const dayOld = { ...latest, created_at: '2026-03-09T12:00:00Z' };
+
+    assert.strictEqual(needsSyncSnapshot(state, dayOld, now), true);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Decide whether a sync should snapshot an account.
+ *
+ * Shared with the Convex snapshot mutation, so it must stay free of runtime
+ * imports.
+ */
+
+/**
+ * An unchanged account is snapshotted at most this often
+ */
+export const SYNC_SNAPSHOT_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export interface SnapshotState {
+  mrr: number;
+  currency?: string | null;
+  billing_status: string;
+  cancel_at_period_end: boolean;
+  last_active_at?: string | null;
+  activated: boolean;
+  core_used: boolean;
+  usage_freq: string;
+  card_expires_at?: string | null;
+  current_period_end?: string | null;
+}
+
+const TRACKED_FIELDS = [
+  'mrr',
+  'currency',
+  'billing_status',
+  'cancel_at_period_end',
+  'last_active_at',
+  'activated',
+  'core_used',
+  'usage_freq',
+  'card_expires_at',
+  'current_period_end',
+] as const satisfies ReadonlyArray<keyof SnapshotState>;
+
+/**
+ * True when the account differs from its latest snapshot, or that snapshot
+ * is a day old. Missing and null fields count as equal.
+ */
+export function needsSyncSnapshot(
+  account: SnapshotState,
+  latest: (SnapshotState & { created_at: string }) | null,
+  now = new Date(),
+): boolean {
+  if (!latest) return true;
+  if (now.getTime() - new Date(latest.created_at).getTime() >= SYNC_SNAPSHOT_INTERVAL_MS) {
+    return true;
+  }
+
+  return TRACKED_FIELDS.some((field) => (account[field] ?? null) !== (latest[field] ?? null));
+}
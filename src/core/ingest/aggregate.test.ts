@@ -0,0 +1,98 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { type SubscriptionSummary, aggregateSubscriptions } from './aggregate.js';
+
+function sub(overrides: Partial<SubscriptionSummary> = {}): SubscriptionSummary {
+  return {
+    mrr: 50,
+    currency: 'usd',
+    billing_status: 'ACTIVE',
+    cancel_at_period_end: false,
+    ...overrides,
+  };
+}
+
+describe('aggregateSubscriptions', () => {
+  it('should sum MRR across a base plan and an add-on', () => {
+    const result = aggregateSubscriptions([sub({ mrr: 79 }), sub({ mrr: 20.5 })]);
+
+    assert.strictEqual(result.mrr, 99.5);
+    assert.strictEqual(result.currency, 'usd');
+    assert.strictEqual(result.billing_status, 'ACTIVE');
+  });
+
+  it('should let the worst live status win', () => {
+    const result = aggregateSubscriptions([
+      sub(),
+      sub({ billing_status: 'CANCELING', cancel_at_period_end: true }),
+      sub({ billing_status: 'PAYMENT_FAILED' }),
+    ]);
+
+    assert.strictEqual(result.billing_status, 'PAYMENT_FAILED');
+    assert.strictEqual(result.cancel_at_period_end, true);
+  });
+
+  it('should ignore canceled subscriptions while any are live', () => {
+    const result = aggregateSubscriptions([
+      sub({ mrr: 100, billing_status: 'CANCELED' }),
+      sub({ mrr: 30 }),
+    ]);
+
+    assert.strictEqual(result.billing_status, 'ACTIVE');
+    assert.strictEqual(result.mrr, 30);
+  });
+
+  it('should be CANCELED only when every subscription is', () => {
+    const result = aggregateSubscriptions([
+      sub({ mrr: 40, billing_status: 'CANCELED' }),
+      sub({ mrr: 10, billing_status: 'CANCELED' }),
+    ]);
+
+    assert.strictEqual(result.billing_status, 'CANCELED');
+    assert.strictEqual(result.mrr, 50);
+    assert.strictEqual(result.cancel_at_period_end, false);
+  });
+
+  it('should convert mixed currencies into the largest subscription currency', () => {
+    const result = aggregateSubscriptions(
+      [sub({ mrr: 100, currency: 'eur' }), sub({ mrr: 11, currency: 'usd' })],
+      (amount, from, to) =>
+        from === to ? amount : from === 'usd' && to === 'eur' ? amount / 1.1 : null,
+    );
+
+    assert.strictEqual(result.currency, 'eur');
+    assert.strictEqual(result.mrr, 110);
+  });
+
+  it('should pick the largest subscription by converted value', () => {
+    const rates: Record<string, number> = { usd: 1, jpy: 0.0067 };
+    const convert = (amount: number, from: string, to: string) =>
+      (amount * rates[from]) / rates[to];
+
+    const small = aggregateSubscriptions([sub({ mrr: 100, currency: 'jpy' }), sub()], convert);
+    const large = aggregateSubscriptions([sub(), sub({ mrr: 10000, currency: 'jpy' })], convert);
+
+    assert.strictEqual(small.currency, 'usd');
+    assert.strictEqual(small.mrr, 50.67);
+    assert.strictEqual(large.currency, 'jpy');
+    assert.strictEqual(large.mrr, 17463);
+  });
+
+  it("should round to the currency's minor unit", () => {
+    const result = aggregateSubscriptions([
+      sub({ mrr: 10.125, currency: 'kwd' }),
+      sub({ mrr: 2.2, currency: 'kwd' }),
+    ]);
+
+    assert.strictEqual(result.mrr, 12.325);
+  });
+
+  it('should leave out amounts it cannot convert', () => {
+    const result = aggregateSubscriptions([
+      sub({ mrr: 100, currency: 'usd' }),
+      sub({ mrr: 5, currency: 'jpy' }),
+    ]);
+
+    assert.strictEqual(result.mrr, 100);
+  });
+});
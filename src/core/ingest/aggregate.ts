@@ -0,0 +1,103 @@
+import { roundToMinorUnit } from '../currency/units.js';
+import type { BillingStatus } from './providers/types.js';
+
+/**
+ * Roll a customer's subscriptions up into one account.
+ *
+ * Used by the Convex upsert (stored accounts) and the audit (in-memory
+ * accounts), so it may only import other pure modules.
+ */
+
+export interface SubscriptionSummary {
+  mrr: number;
+  currency: string;
+  billing_status: BillingStatus;
+  cancel_at_period_end: boolean;
+  card_expires_at?: string | null;
+  current_period_end?: string | null;
+}
+
+export interface AccountAggregate {
+  mrr: number;
+  currency: string;
+  billing_status: BillingStatus;
+  cancel_at_period_end: boolean;
+  card_expires_at: string | null;
+  current_period_end: string | null;
+}
+
+/**
+ * Converts an amount between currencies, or null when no rate is known
+ */
+export type ConvertFn = (amount: number, from: string, to: string) => number | null;
+
+/**
+ * Higher wins when a customer's subscriptions disagree
+ */
+const STATUS_SEVERITY: Record<BillingStatus, number> = {
+  CANCELED: 0,
+  ACTIVE: 1,
+  CANCELING: 2,
+  PAYMENT_FAILED: 3,
+};
+
+const sameCurrencyOnly: ConvertFn = (amount, from, to) =>
+  from.toLowerCase() === to.toLowerCase() ? amount : null;
+
+/**
+ * - mrr: sum of live subscriptions, in the currency of the largest one once
+ *   converted (amounts without an FX rate are left out, and can't be largest)
+ * - billing_status: worst live status; CANCELED only when every subscription is
+ * - cancel_at_period_end: any live subscription is set to cancel
+ * - card_expires_at, current_period_end: earliest across live subscriptions
+ *
+ * A fully canceled customer keeps the MRR it had, for win-back context.
+ */
+export function aggregateSubscriptions(
+  subscriptions: SubscriptionSummary[],
+  convert: ConvertFn = sameCurrencyOnly,
+): AccountAggregate {
+  const live = subscriptions.filter((s) => s.billing_status !== 'CANCELED');
+  const counted = live.length > 0 ? live : subscriptions;
+
+  if (counted.length === 0) {
+    return {
+      mrr: 0,
+      currency: 'usd',
+      billing_status: 'CANCELED',
+      cancel_at_period_end: false,
+      card_expires_at: null,
+      current_period_end: null,
+    };
+  }
+
+  const largest = counted.reduce((a, b) => {
+    const converted = convert(b.mrr, b.currency, a.currency);
+    return converted !== null && converted > a.mrr ? b : a;
+  });
+  const currency = largest.currency.toLowerCase();
+
+  let mrr = 0;
+  for (const subscription of counted) {
+    mrr += convert(subscription.mrr, subscription.currency, currency) ?? 0;
+  }
+
+  const billingStatus = live.reduce<BillingStatus>(
+    (worst, s) =>
+      STATUS_SEVERITY[s.billing_status] > STATUS_SEVERITY[worst] ? s.billing_status : worst,
+    'CANCELED',
+  );
+
+  return {
+    mrr: roundToMinorUnit(mrr, currency),
+    currency,
+    billing_status: billingStatus,
+    cancel_at_period_end: live.some((s) => s.cancel_at_period_end),
+    card_expires_at: earliest(live.map((s) => s.card_expires_at)),
+    current_period_end: earliest(live.map((s) => s.current_period_end)),
+  };
+}
+
+function earliest(dates: Array<string | null | undefined>): string | null {
+  return dates.filter((d): d is string => !!d).sort()[0] ?? null;
+}
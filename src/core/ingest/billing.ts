@@ -1,7 +1,16 @@
 import { Hono } from 'hono';
 import Stripe from 'stripe';
 import { config } from '../../config.js';
-import { api, convex } from '../../lib/convex.js';
+import { type Account, type Subscription, api, convex } from '../../lib/convex.js';
+import { snapshotAfterSync } from '../history/snapshots.js';
+import type { BillingProviderId, NormalizedSubscription } from './providers/index.js';
+import { getBillingProvider } from './providers/index.js';
+import {
+  SUBSCRIPTION_EXPAND,
+  getEventSubscriptionId,
+  listStripeSubscriptions,
+  normalizeStripeSubscription,
+} from './providers/stripe.js';
 
 export const stripeOAuthRoutes = new Hono();
 
@@ -110,26 +119,46 @@ stripeOAuthRoutes.get('/callback', async (c) => {
   }
 });
 
-function normalizeBillingStatus(
+/**
+ * Write a normalized subscription from any provider; it is rolled up into
+ * the customer's account
+ */
+export async function upsertNormalizedSubscription(
+  founderId: string,
+  provider: BillingProviderId,
+  subscription: NormalizedSubscription,
+): Promise<void> {
+  await convex.mutation(api.accounts.upsertAccount, {
+    founderId,
+    email: subscription.email,
+    name: subscription.name ?? undefined,
+    mrr: subscription.mrr,
+    currency: subscription.currency,
+    billing_status: subscription.billingStatus,
+    cancel_at_period_end: subscription.cancelAtPeriodEnd,
+    card_expires_at: subscription.signals?.cardExpiresAt ?? undefined,
+    current_period_end: subscription.currentPeriodEnd ?? undefined,
+    billing_provider: provider,
+    external_customer_id: subscription.customerId,
+    external_subscription_id: subscription.subscriptionId,
+  });
+}
+
+/**
+ * Write a Stripe subscription to the founder's accounts.
+ * Expects `subscription.customer` to be expanded.
+ * Returns false when the customer has been deleted in Stripe.
+ */
+export async function upsertSubscription(
+  founderId: string,
   subscription: Stripe.Subscription,
-): 'ACTIVE' | 'PAYMENT_FAILED' | 'CANCELING' | 'CANCELED' {
-  if (subscription.cancel_at_period_end) {
-    return 'CANCELING';
-  }
+): Promise<boolean> {
+  const normalized = normalizeStripeSubscription(subscription);
 
-  switch (subscription.status) {
-    case 'active':
-    case 'trialing':
-      return 'ACTIVE';
-    case 'past_due':
-    case 'unpaid':
-      return 'PAYMENT_FAILED';
-    case 'canceled':
-    case 'incomplete_expired':
-      return 'CANCELED';
-    default:
-      return 'PAYMENT_FAILED';
-  }
+  if (!normalized) return false;
+
+  await upsertNormalizedSubscription(founderId, 'stripe', normalized);
+  return true;
 }
 
 export async function refreshStripeToken(founderId: string): Promise<string | null> {
@@ -197,7 +226,168 @@ export async function getValidAccessToken(founderId: string): Promise<string | n
   return refreshStripeToken(founderId);
 }
 
-export async function syncBillingData(founderId: string, accessToken?: string): Promise<void> {
+/**
+ * Stripe keeps events for 30 days. Older cursors fall back to a full sync.
+ */
+const EVENT_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+const SYNC_EVENT_TYPES = [
+  'customer.subscription.created',
+  'customer.subscription.updated',
+  'customer.subscription.deleted',
+  'invoice.payment_failed',
+  'invoice.paid',
+];
+
+export interface SyncStats {
+  mode: 'FULL' | 'INCREMENTAL';
+  fetched: number;
+  upserted: number;
+  skipped: number;
+  canceled: number;
+}
+
+/**
+ * Full sync: page through every subscription, then mark accounts whose
+ * subscription no longer exists in Stripe as CANCELED.
+ */
+async function syncAllSubscriptions(
+  connectedStripe: Stripe,
+  founderId: string,
+  stats: SyncStats,
+): Promise<void> {
+  const seen = new Set<string>();
+
+  for await (const subscription of listStripeSubscriptions(connectedStripe)) {
+    stats.fetched++;
+
+    if (await upsertSubscription(founderId, subscription)) {
+      seen.add(subscription.id);
+      stats.upserted++;
+    } else {
+      stats.skipped++;
+    }
+  }
+
+  stats.canceled = await reconcileMissingSubscriptions(founderId, seen);
+}
+
+/**
+ * Mark subscriptions not seen in a full sync as CANCELED, along with legacy
+ * accounts that have no subscriptions left. Returns the number reconciled.
+ */
+async function reconcileMissingSubscriptions(founderId: string, seen: Set<string>) {
+  const subscriptions = (await convex.query(api.subscriptions.getSubscriptionsByFounder, {
+    founderId,
+  })) as Subscription[];
+
+  const missingSubscriptions = subscriptions
+    .filter(
+      (s) =>
+        s.external_subscription_id &&
+        !seen.has(s.external_subscription_id) &&
+        s.billing_status !== 'CANCELED',
+    )
+    .map((s) => s._id);
+
+  const withSubscriptions = new Set(subscriptions.map((s) => s.account_id as string));
+  const accounts = (await convex.query(api.accounts.getAccountsByFounder, {
+    founderId,
+  })) as Account[];
+
+  const orphanedAccounts = accounts
+    .filter((a) => !withSubscriptions.has(a._id) && a.billing_status !== 'CANCELED')
+    .map((a) => a._id);
+
+  for (let i = 0; i < missingSubscriptions.length; i += 100) {
+    await convex.mutation(api.subscriptions.markSubscriptionsCanceled, {
+      ids: missingSubscriptions.slice(i, i + 100),
+    });
+  }
+
+  for (let i = 0; i < orphanedAccounts.length; i += 100) {
+    await convex.mutation(api.accounts.markAccountsCanceled, {
+      ids: orphanedAccounts.slice(i, i + 100),
+    });
+  }
+
+  return missingSubscriptions.length + orphanedAccounts.length;
+}
+
+/**
+ * Incremental sync: replay subscription and invoice events since the cursor
+ * and re-fetch only the subscriptions they touch.
+ */
+async function syncChangedSubscriptions(
+  connectedStripe: Stripe,
+  founderId: string,
+  cursor: number,
+  stats: SyncStats,
+): Promise<void> {
+  const subscriptionIds = new Set<string>();
+
+  for await (const event of connectedStripe.events.list({
+    created: { gt: cursor },
+    types: SYNC_EVENT_TYPES,
+    limit: 100,
+  })) {
+    const subscriptionId = getEventSubscriptionId(event);
+    if (subscriptionId) {
+      subscriptionIds.add(subscriptionId);
+    }
+  }
+
+  for (const subscriptionId of subscriptionIds) {
+    const subscription = await connectedStripe.subscriptions.retrieve(subscriptionId, {
+      expand: SUBSCRIPTION_EXPAND,
+    });
+    stats.fetched++;
+
+    const upserted = await upsertSubscription(founderId, subscription);
+
+    if (upserted) {
+      stats.upserted++;
+    } else {
+      stats.skipped++;
+    }
+  }
+}
+
+async function recordSyncRun(
+  founderId: string,
+  startedAt: Date,
+  stats: SyncStats,
+  error?: unknown,
+): Promise<void> {
+  try {
+    await convex.mutation(api.logs.insertSyncRun, {
+      founderId,
+      mode: stats.mode,
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      fetchedCount: stats.fetched,
+      upsertedCount: stats.upserted,
+      skippedCount: stats.skipped,
+      canceledCount: stats.canceled,
+      error: error ? (error instanceof Error ? error.message : String(error)) : undefined,
+    });
+  } catch (logErr) {
+    // Non-blocking: a failed log write must not fail the sync
+    console.warn('Could not record sync run:', logErr);
+  }
+}
+
+/**
+ * Sync the founder's Stripe subscriptions into accounts.
+ *
+ * Uses the stored cursor to fetch only what changed since the last successful
+ * sync, unless `full` is set or the cursor is older than Stripe's event retention.
+ */
+export async function syncBillingData(
+  founderId: string,
+  accessToken?: string,
+  options: { full?: boolean } = {},
+): Promise<SyncStats> {
   let token = accessToken;
   if (!token) {
     token = (await getValidAccessToken(founderId)) ?? undefined;
@@ -208,48 +398,55 @@ export async function syncBillingData(founderId: string, accessToken?: string):
 
   const connectedStripe = new Stripe(token);
 
+  const founder = await convex.query(api.founders.getFounderById, { id: founderId });
+  const cursor =
+    (founder as { stripe_sync_cursor?: number | null } | null)?.stripe_sync_cursor ?? null;
+
+  const startedAt = new Date();
+  const startedAtSeconds = Math.floor(startedAt.getTime() / 1000);
+  const incremental =
+    !options.full && cursor !== null && startedAtSeconds - cursor < EVENT_RETENTION_SECONDS;
+
+  const stats: SyncStats = {
+    mode: incremental ? 'INCREMENTAL' : 'FULL',
+    fetched: 0,
+    upserted: 0,
+    skipped: 0,
+    canceled: 0,
+  };
+
   try {
-    const subscriptions = await connectedStripe.subscriptions.list({
-      status: 'all',
-      limit: 100,
-      expand: ['data.customer', 'data.latest_invoice'],
+    if (incremental && cursor !== null) {
+      await syncChangedSubscriptions(connectedStripe, founderId, cursor, stats);
+    } else {
+      await syncAllSubscriptions(connectedStripe, founderId, stats);
+    }
+
+    await convex.mutation(api.founders.updateFounder, {
+      id: founderId,
+      updates: {
+        stripe_sync_cursor: startedAtSeconds,
+        last_synced_at: startedAt.toISOString(),
+      },
     });
 
-    for (const subscription of subscriptions.data) {
-      const customer = subscription.customer as Stripe.Customer;
-
-      if (customer.deleted) continue;
-
-      const mrr = subscription.items.data.reduce((total, item) => {
-        const price = item.price;
-        if (!price.unit_amount) return total;
-
-        if (price.recurring?.interval === 'year') {
-          return total + price.unit_amount / 12 / 100;
-        }
-        return total + price.unit_amount / 100;
-      }, 0);
-
-      await convex.mutation(api.accounts.upsertAccount, {
-        founderId,
-        email: customer.email || 'unknown@example.com',
-        name: customer.name || customer.email || 'Unknown',
-        mrr,
-        billing_status: normalizeBillingStatus(subscription),
-        cancel_at_period_end: subscription.cancel_at_period_end,
-        stripe_customer_id: customer.id,
-        stripe_subscription_id: subscription.id,
-      });
-    }
+    await recordSyncRun(founderId, startedAt, stats);
+    await snapshotAfterSync(founderId);
+
+    console.log(
+      `Synced ${stats.upserted} subscriptions (${stats.mode.toLowerCase()}, ${stats.canceled} reconciled) for founder ${founderId}`,
+    );
 
-    console.log(`Synced ${subscriptions.data.length} subscriptions for founder ${founderId}`);
+    return stats;
   } catch (err) {
+    await recordSyncRun(founderId, startedAt, stats, err);
+
     if (err instanceof Error && err.message.includes('Invalid API Key')) {
       console.log('Token expired, attempting refresh...');
 
       const newToken = await refreshStripeToken(founderId);
       if (newToken) {
-        return syncBillingData(founderId, newToken);
+        return syncBillingData(founderId, newToken, options);
       }
 
       throw new Error('Stripe token expired and refresh failed. User must re-authenticate.');
@@ -259,3 +456,91 @@ export async function syncBillingData(founderId: string, accessToken?: string):
     throw err;
   }
 }
+
+/**
+ * Full sync for API-key providers other than Stripe (Paddle, Lemon Squeezy).
+ * These have no event cursor, so every run lists all subscriptions.
+ */
+export async function syncProviderData(
+  founderId: string,
+  providerId: Exclude<BillingProviderId, 'stripe'>,
+  apiKey: string,
+): Promise<SyncStats> {
+  const provider = getBillingProvider(providerId);
+  const startedAt = new Date();
+  const stats: SyncStats = { mode: 'FULL', fetched: 0, upserted: 0, skipped: 0, canceled: 0 };
+
+  try {
+    const seen = new Set<string>();
+
+    for await (const subscription of provider.listSubscriptions(apiKey)) {
+      stats.fetched++;
+      await upsertNormalizedSubscription(founderId, providerId, subscription);
+      seen.add(subscription.subscriptionId);
+      stats.upserted++;
+    }
+
+    stats.canceled = await reconcileMissingSubscriptions(founderId, seen);
+
+    await convex.mutation(api.founders.updateFounder, {
+      id: founderId,
+      updates: { last_synced_at: startedAt.toISOString() },
+    });
+
+    await recordSyncRun(founderId, startedAt, stats);
+    await snapshotAfterSync(founderId);
+
+    console.log(`Synced ${stats.upserted} ${providerId} subscriptions for founder ${founderId}`);
+    return stats;
+  } catch (err) {
+    await recordSyncRun(founderId, startedAt, stats, err);
+    console.error(`${providerId} sync failed:`, err);
+    throw err;
+  }
+}
+
+/**
+ * Re-fetch one subscription from an API-key provider and write it to the
+ * founder's accounts. Returns false when its customer no longer exists.
+ */
+export async function syncProviderSubscription(
+  founderId: string,
+  providerId: Exclude<BillingProviderId, 'stripe'>,
+  apiKey: string,
+  subscriptionId: string,
+): Promise<boolean> {
+  const subscription = await getBillingProvider(providerId).getSubscription(apiKey, subscriptionId);
+  if (!subscription) return false;
+
+  await upsertNormalizedSubscription(founderId, providerId, subscription);
+  return true;
+}
+
+/**
+ * Sync a founder using whichever billing provider they connected
+ */
+export async function syncFounderBilling(
+  founderId: string,
+  options: { full?: boolean } = {},
+): Promise<SyncStats> {
+  const founder = (await convex.query(api.founders.getFounderById, { id: founderId })) as {
+    billing_provider?: BillingProviderId | null;
+    billing_api_key?: string | null;
+  } | null;
+
+  if (!founder) {
+    throw new Error('Founder not found');
+  }
+
+  const providerId = founder.billing_provider ?? 'stripe';
+
+  if (providerId === 'stripe') {
+    return syncBillingData(founderId, undefined, options);
+  }
+
+  if (!founder.billing_api_key) {
+    throw new Error(`No ${providerId} API key stored for founder ${founderId}`);
+  }
+
+  return syncProviderData(founderId, providerId, founder.billing_api_key);
+}
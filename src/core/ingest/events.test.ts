@@ -0,0 +1,104 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import {
+  type ActivityUpdate,
+  generateApiKey,
+  hashApiKey,
+  ingestEvents,
+  parseEventPayload,
+} from './events.js';
+
+const founder = { _id: 'founder_1', core_event: 'report_exported' };
+
+describe('Event payload', () => {
+  it('should accept a single event or a batch', () => {
+    const single = parseEventPayload({ type: 'track', email: 'jane@acme.io', event: 'login' });
+    const batch = parseEventPayload({
+      events: [
+        { type: 'identify', stripe_customer_id: 'cus_1', traits: { activated: true } },
+        { type: 'track', email: 'jane@acme.io', event: 'login' },
+      ],
+    });
+
+    assert.ok(single.success && single.events.length === 1);
+    assert.ok(batch.success && batch.events.length === 2);
+  });
+
+  it('should reject malformed bodies and events with a readable error', () => {
+    assert.strictEqual(parseEventPayload(null).success, false);
+    assert.deepStrictEqual(parseEventPayload({ type: 'track', event: 'login' }), {
+      success: false,
+      error: 'email or stripe_customer_id is required',
+    });
+    assert.deepStrictEqual(
+      parseEventPayload({
+        events: [{ type: 'track', email: 'jane@acme.io', event: 'login', timestamp: 'yesterday' }],
+      }),
+      { success: false, error: 'events.0.timestamp: Invalid datetime' },
+    );
+    assert.strictEqual(parseEventPayload({ type: 'page', email: 'jane@acme.io' }).success, false);
+  });
+
+  it('should hold batches to between 1 and 100 events', () => {
+    const event = { type: 'track', email: 'jane@acme.io', event: 'login' };
+
+    assert.strictEqual(parseEventPayload({ events: [] }).success, false);
+    assert.strictEqual(parseEventPayload({ events: Array(100).fill(event) }).success, true);
+    assert.strictEqual(parseEventPayload({ events: Array(101).fill(event) }).success, false);
+  });
+});
+
+describe('Event ingestion', () => {
+  it('should apply track and identify events and count unknown accounts', async () => {
+    const updates: ActivityUpdate[] = [];
+    const known = new Set(['jane@acme.io', 'cus_1']);
+
+    const result = await ingestEvents(
+      founder,
+      [
+        {
+          type: 'track',
+          email: 'jane@acme.io',
+          event: 'report_exported',
+          timestamp: '2026-03-02T09:00:00Z',
+        },
+        { type: 'identify', stripe_customer_id: 'cus_1', traits: { usage_freq: 'DAILY' } },
+        { type: 'track', email: 'nobody@acme.io', event: 'login' },
+      ],
+      async (update) => {
+        updates.push(update);
+        return known.has(update.email ?? update.stripe_customer_id ?? '') ? 1 : 0;
+      },
+    );
+
+    assert.deepStrictEqual(result, { accepted: 2, unmatched: 1 });
+    assert.deepStrictEqual(updates[0], {
+      founderId: 'founder_1',
+      email: 'jane@acme.io',
+      stripe_customer_id: undefined,
+      active_at: '2026-03-02T09:00:00.000Z',
+      activated: true,
+      core_used: true,
+    });
+    assert.deepStrictEqual(updates[1], {
+      founderId: 'founder_1',
+      email: undefined,
+      stripe_customer_id: 'cus_1',
+      activated: undefined,
+      usage_freq: 'DAILY',
+    });
+    assert.strictEqual(updates[2].core_used, false);
+  });
+});
+
+describe('API keys', () => {
+  it('should hash keys stably without keeping the key', () => {
+    const key = generateApiKey();
+    const hash = hashApiKey(key);
+
+    assert.match(hash, /^[0-9a-f]{64}$/);
+    assert.strictEqual(hashApiKey(key), hash);
+    assert.notStrictEqual(hashApiKey(generateApiKey()), hash);
+    assert.ok(!hash.includes(key.slice(3)));
+  });
+});
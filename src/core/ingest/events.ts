@@ -0,0 +1,150 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { z } from 'zod';
+import { api, convex } from '../../lib/convex.js';
+
+/**
+ * Product usage event ingestion.
+ *
+ * Founders send identify/track events from their app so the rules engine
+ * works on real activity instead of the placeholder values set at sync time.
+ * Events are matched to accounts by Stripe customer ID, or by email.
+ */
+
+const customerRef = {
+  email: z.string().email().optional(),
+  stripe_customer_id: z.string().min(1).optional(),
+  timestamp: z.string().datetime({ offset: true }).optional(),
+};
+
+const IdentifyEventSchema = z.object({
+  type: z.literal('identify'),
+  ...customerRef,
+  traits: z
+    .object({
+      activated: z.boolean().optional(),
+      usage_freq: z.enum(['DAILY', 'WEEKLY']).optional(),
+    })
+    .optional(),
+});
+
+const TrackEventSchema = z.object({
+  type: z.literal('track'),
+  ...customerRef,
+  event: z.string().min(1).max(200),
+});
+
+export const UsageEventSchema = z
+  .discriminatedUnion('type', [IdentifyEventSchema, TrackEventSchema])
+  .refine((e) => e.email || e.stripe_customer_id, {
+    message: 'email or stripe_customer_id is required',
+  });
+
+export type UsageEvent = z.infer<typeof UsageEventSchema>;
+
+const EventBatchSchema = z.object({
+  events: z.array(UsageEventSchema).min(1).max(100),
+});
+
+/**
+ * Accepts either a single event or a batch: { events: [...] }
+ */
+export function parseEventPayload(
+  body: unknown,
+): { success: true; events: UsageEvent[] } | { success: false; error: string } {
+  const isBatch = typeof body === 'object' && body !== null && 'events' in body;
+  const result = isBatch
+    ? EventBatchSchema.safeParse(body)
+    : UsageEventSchema.transform((event) => ({ events: [event] })).safeParse(body);
+
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+    return { success: false, error: `${path}${issue.message}` };
+  }
+
+  return { success: true, events: result.data.events };
+}
+
+/**
+ * Generate a new per-founder ingestion key
+ */
+export function generateApiKey(): string {
+  return `cp_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Ingestion keys are stored and looked up by their SHA-256 hash only
+ */
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+export interface IngestResult {
+  accepted: number;
+  unmatched: number;
+}
+
+export interface ActivityUpdate {
+  founderId: string;
+  email?: string;
+  stripe_customer_id?: string;
+  active_at?: string;
+  activated?: boolean;
+  core_used?: boolean;
+  usage_freq?: 'DAILY' | 'WEEKLY';
+}
+
+/**
+ * Applies one event to the matching accounts; resolves to how many matched
+ */
+export type RecordActivity = (update: ActivityUpdate) => Promise<number>;
+
+const recordActivity: RecordActivity = async (update) =>
+  (await convex.mutation(api.accounts.recordActivity, update)) as number;
+
+/**
+ * Apply usage events to the founder's accounts.
+ *
+ * - track: updates last_active_at and marks the account activated.
+ *   The founder's configured core event also marks core_used.
+ * - identify: applies explicit traits (activated, usage_freq).
+ */
+export async function ingestEvents(
+  founder: { _id: string; core_event?: string | null },
+  events: UsageEvent[],
+  record: RecordActivity = recordActivity,
+): Promise<IngestResult> {
+  let accepted = 0;
+  let unmatched = 0;
+
+  for (const event of events) {
+    const occurredAt = new Date(event.timestamp ?? Date.now()).toISOString();
+
+    const update =
+      event.type === 'track'
+        ? {
+            active_at: occurredAt,
+            activated: true,
+            core_used: event.event === founder.core_event,
+          }
+        : {
+            activated: event.traits?.activated,
+            usage_freq: event.traits?.usage_freq,
+          };
+
+    const matched = await record({
+      founderId: founder._id,
+      email: event.email,
+      stripe_customer_id: event.stripe_customer_id,
+      ...update,
+    });
+
+    if (matched > 0) {
+      accepted++;
+    } else {
+      unmatched++;
+    }
+  }
+
+  return { accepted, unmatched };
+}
@@ -0,0 +1,44 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { mergeActivity } from './merge.js';
+
+describe('Merging duplicate accounts', () => {
+  it('should keep the latest activity and any reached milestone', () => {
+    const merged = mergeActivity([
+      { last_active_at: null, activated: false, core_used: false, usage_freq: 'WEEKLY' },
+      {
+        last_active_at: '2026-03-01T00:00:00.000Z',
+        activated: true,
+        core_used: false,
+        usage_freq: 'WEEKLY',
+      },
+      {
+        last_active_at: '2026-03-09T00:00:00.000Z',
+        activated: false,
+        core_used: true,
+        usage_freq: 'DAILY',
+      },
+    ]);
+
+    assert.deepStrictEqual(merged, {
+      last_active_at: '2026-03-09T00:00:00.000Z',
+      activated: true,
+      core_used: true,
+      usage_freq: 'DAILY',
+    });
+  });
+
+  it("should keep the first row's frequency when none have been active", () => {
+    const merged = mergeActivity([
+      { activated: false, core_used: false, usage_freq: 'DAILY' },
+      { last_active_at: null, activated: false, core_used: false, usage_freq: 'WEEKLY' },
+    ]);
+
+    assert.deepStrictEqual(merged, {
+      last_active_at: null,
+      activated: false,
+      core_used: false,
+      usage_freq: 'DAILY',
+    });
+  });
+});
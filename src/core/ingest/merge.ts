@@ -0,0 +1,40 @@
+/**
+ * Fold duplicate accounts' product activity into the one that is kept.
+ *
+ * Shared with the Convex account upsert, so it must stay free of runtime
+ * imports.
+ */
+
+export interface AccountActivity {
+  last_active_at?: string | null;
+  activated: boolean;
+  core_used: boolean;
+  usage_freq: 'DAILY' | 'WEEKLY';
+}
+
+/**
+ * Latest activity wins; milestones reached on any copy stay reached. Usage
+ * frequency follows the most recently active copy, or the first when none
+ * have been seen.
+ */
+export function mergeActivity(rows: AccountActivity[]): AccountActivity {
+  const [first, ...rest] = rows;
+  if (!first) throw new Error('mergeActivity needs at least one account');
+
+  let latest = first;
+  for (const row of rest) {
+    if (
+      row.last_active_at &&
+      (!latest.last_active_at || row.last_active_at > latest.last_active_at)
+    ) {
+      latest = row;
+    }
+  }
+
+  return {
+    last_active_at: latest.last_active_at ?? null,
+    activated: rows.some((r) => r.activated),
+    core_used: rows.some((r) => r.core_used),
+    usage_freq: latest.usage_freq,
+  };
+}
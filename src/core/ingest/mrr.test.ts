@@ -0,0 +1,111 @@
+import assert from 'node:assert';
+import { readFileSync } from 'node:fs';
+import { describe, it } from 'node:test';
+import type Stripe from 'stripe';
+import { MAX_EXPAND_DEPTH, loadTieredPrices, subscriptionMrr, tieredAmount } from './mrr.js';
+import { SUBSCRIPTION_EXPAND, SUBSCRIPTION_LIST_EXPAND } from './providers/stripe.js';
+
+function loadFixture(name: string): Stripe.Subscription {
+  const url = new URL(`./fixtures/stripe/${name}.json`, import.meta.url);
+  return JSON.parse(readFileSync(url, 'utf8')) as Stripe.Subscription;
+}
+
+describe('MRR normalization', () => {
+  const cases: Array<[fixture: string, expected: number]> = [
+    ['per-seat', 100],
+    ['quarterly', 100],
+    ['annual', 100],
+    ['weekly', 108.33],
+    ['daily', 30.42],
+    ['multi-item', 69],
+    ['percent-discount', 80],
+    ['legacy-discount', 90],
+    ['expired-discount', 100],
+    ['amount-off-annual', 90],
+    ['item-discount', 70],
+    ['tiered-graduated', 75],
+    ['tiered-volume', 65],
+    ['metered', 71.5],
+    ['transform-quantity', 60],
+    ['decimal-unit-amount', 125],
+  ];
+
+  for (const [fixture, expected] of cases) {
+    it(`should normalize ${fixture} to ${expected}/mo`, () => {
+      assert.strictEqual(subscriptionMrr(loadFixture(fixture)), expected);
+    });
+  }
+
+  describe('tieredAmount', () => {
+    const tiers = [
+      {
+        up_to: 10,
+        unit_amount: 500,
+        unit_amount_decimal: '500',
+        flat_amount: null,
+        flat_amount_decimal: null,
+      },
+      {
+        up_to: null,
+        unit_amount: 300,
+        unit_amount_decimal: '300',
+        flat_amount: null,
+        flat_amount_decimal: null,
+      },
+    ];
+
+    it('should charge graduated tiers unit by unit', () => {
+      assert.strictEqual(tieredAmount(tiers, 'graduated', 10), 5000);
+      assert.strictEqual(tieredAmount(tiers, 'graduated', 11), 5300);
+    });
+
+    it('should charge volume tiers at the tier the total falls into', () => {
+      assert.strictEqual(tieredAmount(tiers, 'volume', 10), 5000);
+      assert.strictEqual(tieredAmount(tiers, 'volume', 11), 3300);
+    });
+
+    it('should return 0 for zero quantity', () => {
+      assert.strictEqual(tieredAmount(tiers, 'graduated', 0), 0);
+    });
+  });
+
+  it('should not divide zero-decimal currencies by 100', () => {
+    const yen = loadFixture('per-seat');
+    yen.currency = 'jpy';
+    yen.items.data[0].price.currency = 'jpy';
+
+    // 10 seats at ¥1,000
+    assert.strictEqual(subscriptionMrr(yen), 10000);
+  });
+
+  it('should keep every expansion path within Stripe’s depth limit', () => {
+    for (const path of [...SUBSCRIPTION_EXPAND, ...SUBSCRIPTION_LIST_EXPAND]) {
+      assert.ok(path.split('.').length <= MAX_EXPAND_DEPTH, path);
+    }
+  });
+
+  it('should load tier tables for listed subscriptions once per price', async () => {
+    const tiered = loadFixture('tiered-graduated');
+    const expected = subscriptionMrr(tiered);
+    const full = tiered.items.data[0].price;
+
+    const retrieved: string[] = [];
+    const stripe = {
+      prices: {
+        retrieve: async (id: string) => {
+          retrieved.push(id);
+          return full;
+        },
+      },
+    } as unknown as Pick<Stripe, 'prices'>;
+
+    const cache = new Map<string, Promise<Stripe.Price>>();
+    for (let i = 0; i < 2; i++) {
+      const listed = loadFixture('tiered-graduated');
+      listed.items.data[0].price = { ...full, tiers: undefined };
+
+      assert.strictEqual(subscriptionMrr(await loadTieredPrices(stripe, listed, cache)), expected);
+    }
+    assert.deepStrictEqual(retrieved, [full.id]);
+  });
+});
@@ -0,0 +1,240 @@
+import type Stripe from 'stripe';
+import { fromMinorUnits } from '../currency/units.js';
+
+/**
+ * Stripe → MRR normalization.
+ *
+ * Shared by the sync and audit paths so both report the same number.
+ * Handles quantities, transform_quantity, tiered (graduated/volume) prices,
+ * metered prices (from the latest invoice), any interval / interval_count,
+ * and recurring subscription- or item-level discounts.
+ *
+ * Expects `latest_invoice`, `discounts` and `items.data.price.tiers` to be
+ * expanded when the subscription uses them; unexpanded data counts as zero.
+ * Tiers can only be expanded when retrieving one subscription; listed
+ * subscriptions get them from loadTieredPrices.
+ */
+
+const MONTHS_PER_INTERVAL: Record<Stripe.Price.Recurring.Interval, number> = {
+  day: 12 / 365,
+  week: 12 / 52,
+  month: 1,
+  year: 12,
+};
+
+/**
+ * Expansion paths needed for an accurate MRR, relative to a subscription
+ */
+export const MRR_EXPAND = ['latest_invoice', 'discounts'];
+
+/**
+ * Tier tables. Only valid on subscriptions.retrieve: in a list it becomes
+ * `data.items.data.price.tiers`, deeper than the 4 levels Stripe allows.
+ */
+export const MRR_TIERS_EXPAND = 'items.data.price.tiers';
+
+/**
+ * Stripe's deepest allowed expansion path, in levels
+ */
+export const MAX_EXPAND_DEPTH = 4;
+
+/**
+ * Fill in tier tables on a listed subscription's tiered prices, fetching
+ * each price once per `cache`
+ */
+export async function loadTieredPrices(
+  stripe: Pick<Stripe, 'prices'>,
+  subscription: Stripe.Subscription,
+  cache: Map<string, Promise<Stripe.Price>>,
+): Promise<Stripe.Subscription> {
+  for (const item of subscription.items.data) {
+    if (item.price.billing_scheme !== 'tiered' || item.price.tiers) continue;
+
+    let price = cache.get(item.price.id);
+    if (!price) {
+      price = stripe.prices.retrieve(item.price.id, { expand: ['tiers'] });
+      cache.set(item.price.id, price);
+    }
+    item.price = await price;
+  }
+
+  return subscription;
+}
+
+/**
+ * Monthly recurring revenue of a subscription, in major currency units
+ * (e.g. dollars or yen), rounded to the currency's minor unit.
+ */
+export function subscriptionMrr(subscription: Stripe.Subscription): number {
+  const items = subscription.items.data;
+  let totalMinor = 0;
+
+  for (const item of items) {
+    totalMinor += itemMonthlyAmount(item, subscription);
+  }
+
+  // Amount-off coupons apply once per invoice, so scale them by the
+  // subscription's billing interval
+  const interval = items[0]?.price.recurring;
+  const intervalMonths = interval
+    ? MONTHS_PER_INTERVAL[interval.interval] * interval.interval_count
+    : 1;
+
+  totalMinor = applyDiscounts(
+    totalMinor,
+    subscriptionDiscounts(subscription),
+    subscription.currency,
+    intervalMonths,
+  );
+
+  return fromMinorUnits(totalMinor, subscription.currency);
+}
+
+/**
+ * Monthly amount of one subscription item, in minor units, after
+ * item-level discounts
+ */
+function itemMonthlyAmount(
+  item: Stripe.SubscriptionItem,
+  subscription: Stripe.Subscription,
+): number {
+  const price = item.price;
+  const recurring = price.recurring;
+
+  if (!recurring) return 0;
+
+  const perInterval =
+    recurring.usage_type === 'metered'
+      ? meteredAmount(item, subscription)
+      : licensedAmount(price, item.quantity ?? 1);
+
+  const intervalMonths = MONTHS_PER_INTERVAL[recurring.interval] * recurring.interval_count;
+  const discounted = applyDiscounts(
+    perInterval,
+    expandedDiscounts(item.discounts),
+    price.currency,
+    1,
+  );
+
+  return discounted / intervalMonths;
+}
+
+function licensedAmount(price: Stripe.Price, rawQuantity: number): number {
+  const quantity = transformQuantity(price, rawQuantity);
+
+  if (price.billing_scheme === 'tiered') {
+    return tieredAmount(price.tiers ?? [], price.tiers_mode, quantity);
+  }
+
+  return decimalAmount(price.unit_amount_decimal, price.unit_amount) * quantity;
+}
+
+function transformQuantity(price: Stripe.Price, quantity: number): number {
+  const transform = price.transform_quantity;
+  if (!transform) return quantity;
+
+  const divided = quantity / transform.divide_by;
+  return transform.round === 'up' ? Math.ceil(divided) : Math.floor(divided);
+}
+
+/**
+ * Price a quantity against a tier table.
+ * - volume: every unit is charged at the tier the total quantity falls into
+ * - graduated: each tier charges only the units that fall inside it
+ */
+export function tieredAmount(
+  tiers: Stripe.Price.Tier[],
+  mode: Stripe.Price.TiersMode | null,
+  quantity: number,
+): number {
+  if (tiers.length === 0 || quantity <= 0) return 0;
+
+  if (mode === 'volume') {
+    const tier =
+      tiers.find((t) => t.up_to === null || quantity <= t.up_to) ?? tiers[tiers.length - 1];
+    return (
+      decimalAmount(tier.unit_amount_decimal, tier.unit_amount) * quantity +
+      decimalAmount(tier.flat_amount_decimal, tier.flat_amount)
+    );
+  }
+
+  let total = 0;
+  let previousUpTo = 0;
+
+  for (const tier of tiers) {
+    const upTo = tier.up_to ?? Number.POSITIVE_INFINITY;
+    const units = Math.min(quantity, upTo) - previousUpTo;
+    if (units <= 0) break;
+
+    total +=
+      decimalAmount(tier.unit_amount_decimal, tier.unit_amount) * units +
+      decimalAmount(tier.flat_amount_decimal, tier.flat_amount);
+    previousUpTo = upTo;
+  }
+
+  return total;
+}
+
+/**
+ * Metered items have no quantity; use what the latest invoice billed for them
+ */
+function meteredAmount(item: Stripe.SubscriptionItem, subscription: Stripe.Subscription): number {
+  const invoice = subscription.latest_invoice;
+  if (!invoice || typeof invoice === 'string') return 0;
+
+  return invoice.lines.data
+    .filter((line) => {
+      const lineItem = line.subscription_item;
+      return (typeof lineItem === 'string' ? lineItem : lineItem?.id) === item.id;
+    })
+    .reduce((sum, line) => sum + line.amount, 0);
+}
+
+function decimalAmount(decimal: string | null | undefined, integer: number | null | undefined) {
+  if (decimal) return Number.parseFloat(decimal);
+  return integer ?? 0;
+}
+
+function subscriptionDiscounts(subscription: Stripe.Subscription): Stripe.Discount[] {
+  const discounts = expandedDiscounts(subscription.discounts ?? []);
+
+  // Older API versions only populate the single `discount` field
+  if (subscription.discount && !discounts.some((d) => d.id === subscription.discount?.id)) {
+    discounts.push(subscription.discount);
+  }
+
+  return discounts;
+}
+
+function expandedDiscounts(discounts: Array<string | Stripe.Discount> | undefined) {
+  return (discounts ?? []).filter((d): d is Stripe.Discount => typeof d !== 'string');
+}
+
+/**
+ * Apply recurring discounts. One-off (`once`) coupons and expired discounts
+ * don't affect recurring revenue.
+ */
+function applyDiscounts(
+  amount: number,
+  discounts: Stripe.Discount[],
+  currency: string,
+  intervalMonths: number,
+): number {
+  const nowSeconds = Date.now() / 1000;
+  let result = amount;
+
+  for (const discount of discounts) {
+    const coupon = discount.coupon;
+
+    if (coupon.duration === 'once') continue;
+    if (discount.end !== null && discount.end < nowSeconds) continue;
+
+    if (coupon.percent_off) {
+      result *= 1 - coupon.percent_off / 100;
+    } else if (coupon.amount_off && coupon.currency === currency) {
+      result -= coupon.amount_off / intervalMonths;
+    }
+  }
+
+  return Math.max(0, result);
+}
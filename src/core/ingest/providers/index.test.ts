@@ -0,0 +1,17 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { isBillingProviderId } from './index.js';
+
+describe('Billing provider IDs', () => {
+  it('should accept the supported providers', () => {
+    for (const id of ['stripe', 'paddle', 'lemonsqueezy']) {
+      assert.strictEqual(isBillingProviderId(id), true, id);
+    }
+  });
+
+  it('should reject unknown values and inherited object keys', () => {
+    for (const id of ['chargebee', 'toString', 'constructor', '__proto__', 1, null]) {
+      assert.strictEqual(isBillingProviderId(id), false, String(id));
+    }
+  });
+});
@@ -0,0 +1,25 @@
+import { lemonSqueezyProvider } from './lemonsqueezy.js';
+import { paddleProvider } from './paddle.js';
+import { stripeProvider } from './stripe.js';
+import type { BillingProvider, BillingProviderId } from './types.js';
+
+export type {
+  BillingProvider,
+  BillingProviderId,
+  BillingStatus,
+  NormalizedSubscription,
+} from './types.js';
+
+const PROVIDERS: Record<BillingProviderId, BillingProvider> = {
+  stripe: stripeProvider as BillingProvider,
+  paddle: paddleProvider as BillingProvider,
+  lemonsqueezy: lemonSqueezyProvider as BillingProvider,
+};
+
+export function isBillingProviderId(value: unknown): value is BillingProviderId {
+  return typeof value === 'string' && Object.hasOwn(PROVIDERS, value);
+}
+
+export function getBillingProvider(id: BillingProviderId): BillingProvider {
+  return PROVIDERS[id];
+}
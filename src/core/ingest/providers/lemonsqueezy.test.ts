@@ -0,0 +1,118 @@
+import assert from 'node:assert';
+import { createHmac } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { describe, it } from 'node:test';
+import { createLemonSqueezyProvider } from './lemonsqueezy.js';
+import type { NormalizedSubscription } from './types.js';
+
+const ROUTES: Record<string, string> = {
+  'https://api.lemonsqueezy.com/v1/subscriptions?page[size]=100': 'subscriptions',
+  'https://api.lemonsqueezy.com/v1/subscriptions/1': 'subscription-1',
+  'https://api.lemonsqueezy.com/v1/stores/1': 'store-1',
+  'https://api.lemonsqueezy.com/v1/prices/11': 'price-11',
+  'https://api.lemonsqueezy.com/v1/prices/12': 'price-12',
+  'https://api.lemonsqueezy.com/v1/prices/13': 'price-13',
+};
+
+/**
+ * Serves recorded API responses from fixtures/lemonsqueezy
+ */
+const fixtureFetch = (async (input: string | URL | Request) => {
+  const fixture = ROUTES[String(input)];
+  if (!fixture) {
+    return new Response('{}', { status: 404 });
+  }
+
+  const url = new URL(`./fixtures/lemonsqueezy/${fixture}.json`, import.meta.url);
+  return new Response(readFileSync(url, 'utf8'), { status: 200 });
+}) as typeof fetch;
+
+const provider = createLemonSqueezyProvider({ fetch: fixtureFetch });
+
+async function listAll(): Promise<NormalizedSubscription[]> {
+  const subscriptions: NormalizedSubscription[] = [];
+  for await (const subscription of provider.listSubscriptions('ls_test')) {
+    subscriptions.push(subscription);
+  }
+  return subscriptions;
+}
+
+describe('Lemon Squeezy provider', () => {
+  it('should normalize a standard monthly subscription with quantity', async () => {
+    const [standard] = await listAll();
+
+    assert.deepStrictEqual(standard, {
+      subscriptionId: '1',
+      customerId: '101',
+      email: 'ana@hooli.test',
+      name: 'Ana',
+      mrr: 45,
+      currency: 'gbp',
+      billingStatus: 'ACTIVE',
+      cancelAtPeriodEnd: false,
+      createdAt: '2025-02-01T12:00:00.000Z',
+    });
+  });
+
+  it('should treat cancelled (grace period) subscriptions as CANCELING', async () => {
+    const cancelled = (await listAll())[1];
+
+    assert.strictEqual(cancelled.billingStatus, 'CANCELING');
+    assert.strictEqual(cancelled.cancelAtPeriodEnd, true);
+    assert.strictEqual(cancelled.mrr, 20);
+    assert.strictEqual(cancelled.name, 'bo@pied.test');
+  });
+
+  it('should price graduated tiers and flag past-due payments', async () => {
+    const graduated = (await listAll())[2];
+
+    assert.strictEqual(graduated.mrr, 70);
+    assert.strictEqual(graduated.billingStatus, 'PAYMENT_FAILED');
+  });
+
+  it('should fetch a single subscription with its price and currency', async () => {
+    const [standard] = await listAll();
+
+    assert.deepStrictEqual(await provider.getSubscription('ls_test', '1'), standard);
+  });
+
+  it('should find the subscription a webhook refers to', () => {
+    const event = (data: object) => JSON.stringify({ meta: {}, data });
+
+    assert.strictEqual(
+      provider.webhookSubscriptionId(event({ type: 'subscriptions', id: '1', attributes: {} })),
+      '1',
+    );
+    assert.strictEqual(
+      provider.webhookSubscriptionId(
+        event({ type: 'subscription-invoices', id: '7', attributes: { subscription_id: 3 } }),
+      ),
+      '3',
+    );
+    assert.strictEqual(
+      provider.webhookSubscriptionId(event({ type: 'orders', id: '9', attributes: {} })),
+      null,
+    );
+  });
+
+  describe('verifyWebhook', () => {
+    const secret = 'ls_webhook_secret';
+    const payload = '{"meta":{"event_name":"subscription_updated"}}';
+    const signature = createHmac('sha256', secret).update(payload).digest('hex');
+
+    it('should accept a valid signature', () => {
+      assert.strictEqual(
+        provider.verifyWebhook(payload, { 'x-signature': signature }, secret),
+        true,
+      );
+    });
+
+    it('should reject a missing or wrong signature', () => {
+      assert.strictEqual(provider.verifyWebhook(payload, {}, secret), false);
+      assert.strictEqual(
+        provider.verifyWebhook(payload, { 'x-signature': signature }, 'other_secret'),
+        false,
+      );
+    });
+  });
+});
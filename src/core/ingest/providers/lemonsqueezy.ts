@@ -0,0 +1,280 @@
+import type Stripe from 'stripe';
+import { fromMinorUnits } from '../../currency/units.js';
+import { tieredAmount } from '../mrr.js';
+import { verifyHmacSha256 } from './signature.js';
+import type { BillingProvider, BillingStatus, FetchFn, NormalizedSubscription } from './types.js';
+
+/**
+ * Lemon Squeezy adapter (api.lemonsqueezy.com, JSON:API).
+ *
+ * Subscriptions reference a price and a store rather than embedding them,
+ * so prices and store currencies are fetched once and cached per sync.
+ */
+
+type LemonInterval = 'day' | 'week' | 'month' | 'year';
+
+export interface LemonSubscriptionAttributes {
+  store_id: number;
+  customer_id: number;
+  user_name: string | null;
+  user_email: string;
+  status: 'on_trial' | 'active' | 'paused' | 'past_due' | 'unpaid' | 'cancelled' | 'expired';
+  cancelled: boolean;
+  created_at: string;
+  first_subscription_item: { price_id: number; quantity: number } | null;
+}
+
+export interface LemonPriceAttributes {
+  scheme: 'standard' | 'package' | 'graduated' | 'volume';
+  unit_price: number;
+  unit_price_decimal: string | null;
+  renewal_interval_unit: LemonInterval | null;
+  renewal_interval_quantity: number | null;
+  package_size: number;
+  tiers: Array<{
+    last_unit: number | 'inf';
+    unit_price: number;
+    unit_price_decimal: string | null;
+    fixed_fee: number;
+  }> | null;
+}
+
+interface LemonResource<T> {
+  id: string;
+  attributes: T;
+}
+
+/**
+ * Webhook body: the resource the event is about. Subscription invoices
+ * reference their subscription.
+ */
+interface LemonWebhookEvent {
+  data: { type: string; id: string; attributes: { subscription_id?: number | null } };
+}
+
+interface LemonListResponse<T> {
+  data: Array<LemonResource<T>>;
+  links?: { next?: string | null };
+}
+
+/**
+ * A subscription together with the price and store currency it refers to
+ */
+export interface LemonSubscriptionRecord {
+  subscription: LemonResource<LemonSubscriptionAttributes>;
+  price: LemonPriceAttributes | null;
+  currency: string;
+}
+
+/**
+ * Prices and store currencies already fetched, by ID
+ */
+interface Lookups {
+  prices: Map<number, LemonPriceAttributes | null>;
+  currencies: Map<number, string>;
+}
+
+const MONTHS_PER_INTERVAL: Record<LemonInterval, number> = {
+  day: 12 / 365,
+  week: 12 / 52,
+  month: 1,
+  year: 12,
+};
+
+function normalizeStatus(record: LemonSubscriptionRecord): BillingStatus {
+  switch (record.subscription.attributes.status) {
+    case 'active':
+    case 'on_trial':
+      return 'ACTIVE';
+    case 'past_due':
+    case 'unpaid':
+      return 'PAYMENT_FAILED';
+    // "cancelled" subscriptions stay live until the end of the period
+    case 'cancelled':
+    case 'paused':
+      return 'CANCELING';
+    case 'expired':
+      return 'CANCELED';
+    default:
+      return 'PAYMENT_FAILED';
+  }
+}
+
+function computeMrr(record: LemonSubscriptionRecord): number {
+  const { price } = record;
+  const item = record.subscription.attributes.first_subscription_item;
+
+  if (!price || !item || !price.renewal_interval_unit) return 0;
+
+  const quantity = item.quantity;
+  let perInterval: number;
+
+  switch (price.scheme) {
+    case 'package':
+      perInterval = Math.ceil(quantity / price.package_size) * price.unit_price;
+      break;
+    case 'graduated':
+    case 'volume':
+      perInterval = tieredAmount(
+        (price.tiers ?? []).map(
+          (tier): Stripe.Price.Tier => ({
+            up_to: tier.last_unit === 'inf' ? null : tier.last_unit,
+            unit_amount: tier.unit_price,
+            unit_amount_decimal: tier.unit_price_decimal,
+            flat_amount: tier.fixed_fee,
+            flat_amount_decimal: null,
+          }),
+        ),
+        price.scheme,
+        quantity,
+      );
+      break;
+    default:
+      perInterval =
+        (price.unit_price_decimal ? Number(price.unit_price_decimal) : price.unit_price) * quantity;
+  }
+
+  const months =
+    MONTHS_PER_INTERVAL[price.renewal_interval_unit] * (price.renewal_interval_quantity ?? 1);
+
+  return fromMinorUnits(perInterval / months, record.currency);
+}
+
+export function normalizeLemonSubscription(
+  record: LemonSubscriptionRecord,
+): NormalizedSubscription {
+  const attributes = record.subscription.attributes;
+
+  return {
+    subscriptionId: record.subscription.id,
+    customerId: String(attributes.customer_id),
+    email: attributes.user_email || 'unknown@example.com',
+    name: attributes.user_name || attributes.user_email || 'Unknown',
+    mrr: computeMrr(record),
+    currency: record.currency.toLowerCase(),
+    billingStatus: normalizeStatus(record),
+    cancelAtPeriodEnd: attributes.status === 'cancelled',
+    createdAt: new Date(attributes.created_at).toISOString(),
+  };
+}
+
+export function createLemonSqueezyProvider(
+  options: { baseUrl?: string; fetch?: FetchFn } = {},
+): BillingProvider<LemonSubscriptionRecord> {
+  const baseUrl = options.baseUrl ?? 'https://api.lemonsqueezy.com/v1';
+  const fetchFn = options.fetch ?? fetch;
+
+  async function get<T>(url: string, apiKey: string): Promise<T> {
+    const response = await fetchFn(url, {
+      headers: {
+        Accept: 'application/vnd.api+json',
+        Authorization: `Bearer ${apiKey}`,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Lemon Squeezy API error ${response.status} for ${url}`);
+    }
+
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Attach the subscription's price and store currency, fetching each once
+   */
+  async function loadRecord(
+    subscription: LemonResource<LemonSubscriptionAttributes>,
+    apiKey: string,
+    { prices, currencies }: Lookups,
+  ): Promise<LemonSubscriptionRecord> {
+    const { store_id, first_subscription_item } = subscription.attributes;
+
+    if (!currencies.has(store_id)) {
+      const store = await get<{ data: LemonResource<{ currency: string }> }>(
+        `${baseUrl}/stores/${store_id}`,
+        apiKey,
+      );
+      currencies.set(store_id, store.data.attributes.currency);
+    }
+
+    const priceId = first_subscription_item?.price_id;
+    if (priceId !== undefined && !prices.has(priceId)) {
+      const price = await get<{ data: LemonResource<LemonPriceAttributes> }>(
+        `${baseUrl}/prices/${priceId}`,
+        apiKey,
+      );
+      prices.set(priceId, price.data.attributes);
+    }
+
+    return {
+      subscription,
+      price: priceId !== undefined ? (prices.get(priceId) ?? null) : null,
+      currency: currencies.get(store_id) ?? 'USD',
+    };
+  }
+
+  return {
+    id: 'lemonsqueezy',
+
+    async validateApiKey(apiKey) {
+      try {
+        await get(`${baseUrl}/users/me`, apiKey);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    async *listSubscriptions(apiKey) {
+      const lookups: Lookups = { prices: new Map(), currencies: new Map() };
+      let url: string | null = `${baseUrl}/subscriptions?page[size]=100`;
+
+      while (url) {
+        const page: LemonListResponse<LemonSubscriptionAttributes> = await get(url, apiKey);
+
+        for (const subscription of page.data) {
+          yield normalizeLemonSubscription(await loadRecord(subscription, apiKey, lookups));
+        }
+
+        url = page.links?.next ?? null;
+      }
+    },
+
+    async getSubscription(apiKey, subscriptionId) {
+      const { data: subscription } = await get<{
+        data: LemonResource<LemonSubscriptionAttributes>;
+      }>(`${baseUrl}/subscriptions/${encodeURIComponent(subscriptionId)}`, apiKey);
+      const lookups: Lookups = { prices: new Map(), currencies: new Map() };
+
+      return normalizeLemonSubscription(await loadRecord(subscription, apiKey, lookups));
+    },
+
+    normalizeStatus,
+
+    computeMrr,
+
+    /**
+     * X-Signature: hex HMAC-SHA256 of the raw body
+     */
+    verifyWebhook(payload, headers, secret) {
+      const signature = headers['x-signature'];
+      if (!signature) return false;
+
+      return verifyHmacSha256(payload, signature, secret);
+    },
+
+    webhookSubscriptionId(payload) {
+      try {
+        const { data } = JSON.parse(payload) as LemonWebhookEvent;
+        if (data.type === 'subscriptions') return data.id;
+
+        const id = data.attributes.subscription_id;
+        return id ? String(id) : null;
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+export const lemonSqueezyProvider = createLemonSqueezyProvider();
@@ -0,0 +1,147 @@
+import assert from 'node:assert';
+import { createHmac } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { describe, it } from 'node:test';
+import { createPaddleProvider } from './paddle.js';
+import type { NormalizedSubscription } from './types.js';
+
+const ROUTES: Record<string, string> = {
+  'https://api.paddle.com/subscriptions?per_page=200': 'subscriptions-page-1',
+  'https://api.paddle.com/subscriptions?after=sub_01annual&per_page=200': 'subscriptions-page-2',
+  'https://api.paddle.com/customers?id=ctm_01acme,ctm_01globex&per_page=200': 'customers-page-1',
+  'https://api.paddle.com/customers?id=ctm_01initech&per_page=200': 'customers-page-2',
+  'https://api.paddle.com/subscriptions/sub_01seats': 'subscription-seats',
+  'https://api.paddle.com/customers/ctm_01acme': 'customer-acme',
+};
+
+/**
+ * Serves recorded API responses from fixtures/paddle
+ */
+const fixtureFetch = (async (input: string | URL | Request) => {
+  const fixture = ROUTES[String(input)];
+  if (!fixture) {
+    return new Response('{}', { status: 404 });
+  }
+
+  const url = new URL(`./fixtures/paddle/${fixture}.json`, import.meta.url);
+  return new Response(readFileSync(url, 'utf8'), { status: 200 });
+}) as typeof fetch;
+
+const provider = createPaddleProvider({ fetch: fixtureFetch });
+
+async function listAll(): Promise<NormalizedSubscription[]> {
+  const subscriptions: NormalizedSubscription[] = [];
+  for await (const subscription of provider.listSubscriptions('pdl_test')) {
+    subscriptions.push(subscription);
+  }
+  return subscriptions;
+}
+
+describe('Paddle provider', () => {
+  it('should page through every subscription', async () => {
+    const subscriptions = await listAll();
+
+    assert.deepStrictEqual(
+      subscriptions.map((s) => s.subscriptionId),
+      ['sub_01seats', 'sub_01annual', 'sub_01leaving'],
+    );
+  });
+
+  it('should normalize a per-seat monthly subscription', async () => {
+    const [seats] = await listAll();
+
+    assert.deepStrictEqual(seats, {
+      subscriptionId: 'sub_01seats',
+      customerId: 'ctm_01acme',
+      email: 'ops@acme.test',
+      name: 'Acme Ops',
+      mrr: 100,
+      currency: 'usd',
+      billingStatus: 'ACTIVE',
+      cancelAtPeriodEnd: false,
+      createdAt: '2025-01-15T10:00:00.000Z',
+    });
+  });
+
+  it('should normalize annual past-due subscriptions in their own currency', async () => {
+    const annual = (await listAll())[1];
+
+    assert.strictEqual(annual.mrr, 100);
+    assert.strictEqual(annual.currency, 'eur');
+    assert.strictEqual(annual.billingStatus, 'PAYMENT_FAILED');
+    assert.strictEqual(annual.name, 'billing@globex.test');
+  });
+
+  it('should treat a scheduled cancel as CANCELING and skip inactive items', async () => {
+    const leaving = (await listAll())[2];
+
+    assert.strictEqual(leaving.billingStatus, 'CANCELING');
+    assert.strictEqual(leaving.cancelAtPeriodEnd, true);
+    assert.strictEqual(leaving.mrr, 30);
+  });
+
+  it('should fetch a single subscription with its customer', async () => {
+    const [seats] = await listAll();
+
+    assert.deepStrictEqual(await provider.getSubscription('pdl_test', 'sub_01seats'), seats);
+  });
+
+  it('should find the subscription a webhook refers to', () => {
+    const event = (event_type: string, data: object) => JSON.stringify({ event_type, data });
+
+    assert.strictEqual(
+      provider.webhookSubscriptionId(event('subscription.updated', { id: 'sub_01seats' })),
+      'sub_01seats',
+    );
+    assert.strictEqual(
+      provider.webhookSubscriptionId(
+        event('transaction.payment_failed', { id: 'txn_01', subscription_id: 'sub_01annual' }),
+      ),
+      'sub_01annual',
+    );
+    assert.strictEqual(
+      provider.webhookSubscriptionId(event('customer.updated', { id: 'ctm_01acme' })),
+      null,
+    );
+    assert.strictEqual(provider.webhookSubscriptionId('not json'), null);
+  });
+
+  it('should reject an invalid API key', async () => {
+    const rejecting = createPaddleProvider({
+      fetch: (async () => new Response('{}', { status: 403 })) as typeof fetch,
+    });
+
+    assert.strictEqual(await rejecting.validateApiKey('pdl_bad'), false);
+  });
+
+  describe('verifyWebhook', () => {
+    const secret = 'pdl_ntfset_secret';
+    const payload = '{"event_type":"subscription.updated"}';
+
+    function sign(ts: number, body: string) {
+      const h1 = createHmac('sha256', secret).update(`${ts}:${body}`).digest('hex');
+      return `ts=${ts};h1=${h1}`;
+    }
+
+    it('should accept a valid signature', () => {
+      const ts = Math.floor(Date.now() / 1000);
+      const headers = { 'paddle-signature': sign(ts, payload) };
+
+      assert.strictEqual(provider.verifyWebhook(payload, headers, secret), true);
+    });
+
+    it('should reject a tampered payload', () => {
+      const ts = Math.floor(Date.now() / 1000);
+      const headers = { 'paddle-signature': sign(ts, payload) };
+
+      assert.strictEqual(provider.verifyWebhook(`${payload} `, headers, secret), false);
+    });
+
+    it('should reject a stale timestamp', () => {
+      const ts = Math.floor(Date.now() / 1000) - 3600;
+      const headers = { 'paddle-signature': sign(ts, payload) };
+
+      assert.strictEqual(provider.verifyWebhook(payload, headers, secret), false);
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import { fromMinorUnits } from '../../currency/units.js';
+import { verifyHmacSha256 } from './signature.js';
+import type { BillingProvider, BillingStatus, FetchFn, NormalizedSubscription } from './types.js';
+
+/**
+ * Paddle Billing adapter (api.paddle.com).
+ *
+ * Subscriptions don't embed the customer, so each page of subscriptions is
+ * followed by one batched customer lookup.
+ */
+
+type PaddleInterval = 'day' | 'week' | 'month' | 'year';
+
+interface PaddleBillingCycle {
+  interval: PaddleInterval;
+  frequency: number;
+}
+
+export interface PaddleSubscription {
+  id: string;
+  status: 'active' | 'canceled' | 'past_due' | 'paused' | 'trialing';
+  customer_id: string;
+  currency_code: string;
+  created_at: string;
+  billing_cycle: PaddleBillingCycle;
+  scheduled_change: { action: 'cancel' | 'pause' | 'resume'; effective_at: string } | null;
+  items: Array<{
+    status: 'active' | 'inactive' | 'trialing';
+    quantity: number;
+    price: {
+      id: string;
+      billing_cycle: PaddleBillingCycle | null;
+      unit_price: { amount: string; currency_code: string };
+    };
+  }>;
+}
+
+export interface PaddleCustomer {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+/**
+ * Webhook notification body. Subscription events carry the subscription;
+ * transaction events reference it.
+ */
+interface PaddleWebhookEvent {
+  event_type: string;
+  data: { id?: string; subscription_id?: string | null };
+}
+
+interface PaddleListResponse<T> {
+  data: T[];
+  meta: { pagination?: { next: string | null; has_more: boolean } };
+}
+
+const MONTHS_PER_INTERVAL: Record<PaddleInterval, number> = {
+  day: 12 / 365,
+  week: 12 / 52,
+  month: 1,
+  year: 12,
+};
+
+/**
+ * Maximum age of a webhook signature timestamp, in seconds
+ */
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+function normalizeStatus(subscription: PaddleSubscription): BillingStatus {
+  if (subscription.scheduled_change?.action === 'cancel') {
+    return 'CANCELING';
+  }
+
+  switch (subscription.status) {
+    case 'active':
+    case 'trialing':
+      return 'ACTIVE';
+    case 'past_due':
+      return 'PAYMENT_FAILED';
+    case 'paused':
+      return 'CANCELING';
+    case 'canceled':
+      return 'CANCELED';
+    default:
+      return 'PAYMENT_FAILED';
+  }
+}
+
+function computeMrr(subscription: PaddleSubscription): number {
+  const totalMinor = subscription.items
+    .filter((item) => item.status !== 'inactive')
+    .reduce((sum, item) => {
+      const cycle = item.price.billing_cycle ?? subscription.billing_cycle;
+      const months = MONTHS_PER_INTERVAL[cycle.interval] * cycle.frequency;
+      return sum + (Number(item.price.unit_price.amount) * item.quantity) / months;
+    }, 0);
+
+  return fromMinorUnits(totalMinor, subscription.currency_code);
+}
+
+export function normalizePaddleSubscription(
+  subscription: PaddleSubscription,
+  customer: PaddleCustomer | undefined,
+): NormalizedSubscription {
+  return {
+    subscriptionId: subscription.id,
+    customerId: subscription.customer_id,
+    email: customer?.email || 'unknown@example.com',
+    name: customer?.name || customer?.email || 'Unknown',
+    mrr: computeMrr(subscription),
+    currency: subscription.currency_code.toLowerCase(),
+    billingStatus: normalizeStatus(subscription),
+    cancelAtPeriodEnd: subscription.scheduled_change?.action === 'cancel',
+    createdAt: new Date(subscription.created_at).toISOString(),
+  };
+}
+
+export function createPaddleProvider(
+  options: { baseUrl?: string; fetch?: FetchFn } = {},
+): BillingProvider<PaddleSubscription> {
+  const baseUrl = options.baseUrl ?? 'https://api.paddle.com';
+  const fetchFn = options.fetch ?? fetch;
+
+  async function get<T>(url: string, apiKey: string): Promise<T> {
+    const response = await fetchFn(url, {
+      headers: { Authorization: `Bearer ${apiKey}` },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Paddle API error ${response.status} for ${url}`);
+    }
+
+    return (await response.json()) as T;
+  }
+
+  return {
+    id: 'paddle',
+
+    async validateApiKey(apiKey) {
+      try {
+        await get(`${baseUrl}/subscriptions?per_page=1`, apiKey);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    async *listSubscriptions(apiKey) {
+      let url: string | null = `${baseUrl}/subscriptions?per_page=200`;
+
+      while (url) {
+        const page: PaddleListResponse<PaddleSubscription> = await get(url, apiKey);
+
+        const customerIds = [...new Set(page.data.map((s) => s.customer_id))];
+        const customers =
+          customerIds.length > 0
+            ? await get<PaddleListResponse<PaddleCustomer>>(
+                `${baseUrl}/customers?id=${customerIds.join(',')}&per_page=200`,
+                apiKey,
+              )
+            : { data: [] };
+        const customersById = new Map(customers.data.map((c) => [c.id, c]));
+
+        for (const subscription of page.data) {
+          yield normalizePaddleSubscription(
+            subscription,
+            customersById.get(subscription.customer_id),
+          );
+        }
+
+        url = page.meta.pagination?.has_more ? page.meta.pagination.next : null;
+      }
+    },
+
+    async getSubscription(apiKey, subscriptionId) {
+      const { data: subscription } = await get<{ data: PaddleSubscription }>(
+        `${baseUrl}/subscriptions/${encodeURIComponent(subscriptionId)}`,
+        apiKey,
+      );
+      const { data: customer } = await get<{ data: PaddleCustomer }>(
+        `${baseUrl}/customers/${encodeURIComponent(subscription.customer_id)}`,
+        apiKey,
+      );
+
+      return normalizePaddleSubscription(subscription, customer);
+    },
+
+    normalizeStatus,
+
+    computeMrr,
+
+    /**
+     * Paddle-Signature: ts=<unix>;h1=<hex hmac of "<ts>:<body>">
+     */
+    verifyWebhook(payload, headers, secret) {
+      const header = headers['paddle-signature'];
+      if (!header) return false;
+
+      const parts = Object.fromEntries(
+        header.split(';').map((part) => part.split('=') as [string, string]),
+      );
+      const timestamp = Number(parts.ts);
+
+      if (!parts.h1 || !Number.isFinite(timestamp)) return false;
+      if (Math.abs(Date.now() / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) return false;
+
+      return verifyHmacSha256(`${parts.ts}:${payload}`, parts.h1, secret);
+    },
+
+    webhookSubscriptionId(payload) {
+      try {
+        const event = JSON.parse(payload) as PaddleWebhookEvent;
+        const id = event.event_type.startsWith('subscription.')
+          ? event.data.id
+          : event.data.subscription_id;
+        return id || null;
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+export const paddleProvider = createPaddleProvider();
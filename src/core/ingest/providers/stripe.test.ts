@@ -0,0 +1,45 @@
+import assert from 'node:assert';
+import { readFileSync } from 'node:fs';
+import { describe, it } from 'node:test';
+import type Stripe from 'stripe';
+import { normalizeStripeSubscription } from './stripe.js';
+
+function subscriptionWithInvoice(invoice: Partial<Stripe.Invoice> | null): Stripe.Subscription {
+  const url = new URL('../fixtures/stripe/per-seat.json', import.meta.url);
+  const subscription = JSON.parse(readFileSync(url, 'utf8')) as Stripe.Subscription;
+
+  return {
+    ...subscription,
+    created: 1_767_225_600,
+    current_period_end: 1_769_904_000,
+    customer: { id: 'cus_1', email: 'jane@acme.io', name: 'Jane' } as Stripe.Customer,
+    latest_invoice: invoice && {
+      lines: { data: [] },
+      status_transitions: { finalized_at: 1_769_000_000 },
+      created: 1_769_000_000,
+      ...invoice,
+    },
+  } as Stripe.Subscription;
+}
+
+describe('Stripe subscription status', () => {
+  it('should flag an active subscription whose latest invoice failed', () => {
+    const failed = normalizeStripeSubscription(
+      subscriptionWithInvoice({ attempted: true, paid: false, status: 'open' }),
+    );
+
+    assert.strictEqual(failed?.billingStatus, 'PAYMENT_FAILED');
+  });
+
+  it('should keep an active subscription active once the invoice is paid', () => {
+    const paid = normalizeStripeSubscription(
+      subscriptionWithInvoice({ attempted: true, paid: true, status: 'paid' }),
+    );
+
+    assert.strictEqual(paid?.billingStatus, 'ACTIVE');
+    assert.strictEqual(
+      normalizeStripeSubscription(subscriptionWithInvoice(null))?.billingStatus,
+      'ACTIVE',
+    );
+  });
+});
@@ -0,0 +1,277 @@
+import Stripe from 'stripe';
+import { MRR_EXPAND, MRR_TIERS_EXPAND, loadTieredPrices, subscriptionMrr } from '../mrr.js';
+import type {
+  BillingProvider,
+  BillingSignals,
+  BillingStatus,
+  NormalizedSubscription,
+} from './types.js';
+
+/**
+ * Expansion paths for subscriptions read during sync: the customer, what
+ * MRR needs, and the payment methods card expiry is read from
+ */
+const BASE_EXPAND = [
+  'customer',
+  ...MRR_EXPAND,
+  'default_payment_method',
+  'customer.invoice_settings.default_payment_method',
+];
+
+/**
+ * For subscriptions.retrieve, tier tables included
+ */
+export const SUBSCRIPTION_EXPAND = [...BASE_EXPAND, MRR_TIERS_EXPAND];
+
+/**
+ * For subscriptions.list; tier tables are loaded per price instead
+ */
+export const SUBSCRIPTION_LIST_EXPAND = BASE_EXPAND.map((field) => `data.${field}`);
+
+/**
+ * Page through every subscription with what normalization needs expanded,
+ * including tier tables for tiered prices
+ */
+export async function* listStripeSubscriptions(
+  stripe: Stripe,
+): AsyncGenerator<Stripe.Subscription> {
+  const prices = new Map<string, Promise<Stripe.Price>>();
+
+  for await (const subscription of stripe.subscriptions.list({
+    status: 'all',
+    limit: 100,
+    expand: SUBSCRIPTION_LIST_EXPAND,
+  })) {
+    yield await loadTieredPrices(stripe, subscription, prices);
+  }
+}
+
+/**
+ * How far back to look for plan downgrades
+ */
+const DOWNGRADE_LOOKBACK_DAYS = 30;
+
+/**
+ * Normalize Stripe subscription status to billing_status enum.
+ * Stripe keeps a subscription active while it retries a failed payment, so
+ * an unpaid latest invoice counts as a failed payment.
+ */
+function normalizeStatus(subscription: Stripe.Subscription): BillingStatus {
+  if (subscription.cancel_at_period_end) {
+    return 'CANCELING';
+  }
+
+  switch (subscription.status) {
+    case 'active':
+    case 'trialing':
+      return lastPaymentFailedAt(subscription) ? 'PAYMENT_FAILED' : 'ACTIVE';
+    case 'past_due':
+    case 'unpaid':
+      return 'PAYMENT_FAILED';
+    case 'canceled':
+    case 'incomplete_expired':
+      return 'CANCELED';
+    default:
+      return 'PAYMENT_FAILED';
+  }
+}
+
+/**
+ * Map an expanded Stripe subscription to the provider-neutral shape.
+ * Returns null when the customer has been deleted.
+ */
+export function normalizeStripeSubscription(
+  subscription: Stripe.Subscription,
+): NormalizedSubscription | null {
+  const customer = subscription.customer as Stripe.Customer | Stripe.DeletedCustomer;
+
+  if (customer.deleted) return null;
+
+  return {
+    subscriptionId: subscription.id,
+    customerId: customer.id,
+    email: customer.email || 'unknown@example.com',
+    name: customer.name || customer.email || 'Unknown',
+    mrr: subscriptionMrr(subscription),
+    currency: subscription.currency,
+    billingStatus: normalizeStatus(subscription),
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    createdAt: new Date(subscription.created * 1000).toISOString(),
+    currentPeriodEnd: new Date(subscription.current_period_end * 1000).toISOString(),
+    signals: {
+      lastPaymentFailedAt: lastPaymentFailedAt(subscription),
+      cardExpiresAt: cardExpiresAt(subscription, customer),
+    },
+  };
+}
+
+/**
+ * When the latest invoice was attempted but is still unpaid.
+ * Needs `latest_invoice` expanded.
+ */
+function lastPaymentFailedAt(subscription: Stripe.Subscription): string | null {
+  const invoice = subscription.latest_invoice;
+  if (!invoice || typeof invoice === 'string') return null;
+  if (!invoice.attempted || invoice.paid || invoice.status !== 'open') return null;
+
+  const failedAt = invoice.status_transitions.finalized_at ?? invoice.created;
+  return new Date(failedAt * 1000).toISOString();
+}
+
+/**
+ * End of the expiry month of the card that pays this subscription: its own
+ * default payment method, else the customer's invoice default.
+ * Unexpanded or non-card methods give null.
+ */
+function cardExpiresAt(
+  subscription: Stripe.Subscription,
+  customer: Stripe.Customer,
+): string | null {
+  const method =
+    subscription.default_payment_method ?? customer.invoice_settings?.default_payment_method;
+  if (!method || typeof method === 'string' || !method.card) return null;
+
+  const { exp_month, exp_year } = method.card;
+  return new Date(Date.UTC(exp_year, exp_month, 0, 23, 59, 59)).toISOString();
+}
+
+/**
+ * Customer-level billing signals that live outside the subscription:
+ * open invoices and recent plan downgrades.
+ *
+ * Each lookup is best-effort; restricted keys without invoice or event
+ * access just produce no signals.
+ */
+export async function fetchStripeBillingSignals(
+  stripe: Stripe,
+): Promise<Map<string, Partial<BillingSignals>>> {
+  const signals = new Map<string, Partial<BillingSignals>>();
+  const forCustomer = (customer: string | Stripe.Customer | Stripe.DeletedCustomer | null) => {
+    const id = typeof customer === 'string' ? customer : customer?.id;
+    if (!id) return null;
+    if (!signals.has(id)) signals.set(id, {});
+    return signals.get(id) as Partial<BillingSignals>;
+  };
+
+  try {
+    for await (const invoice of stripe.invoices.list({ status: 'open', limit: 100 })) {
+      const entry = forCustomer(invoice.customer);
+      if (!entry) continue;
+
+      const openedAt = new Date(invoice.created * 1000).toISOString();
+      if (!entry.oldestUnpaidInvoiceAt || openedAt < entry.oldestUnpaidInvoiceAt) {
+        entry.oldestUnpaidInvoiceAt = openedAt;
+      }
+    }
+  } catch (err) {
+    console.warn('Could not read open invoices:', err);
+  }
+
+  try {
+    const since = Math.floor(Date.now() / 1000) - DOWNGRADE_LOOKBACK_DAYS * 24 * 60 * 60;
+
+    // Newest first, so the first downgrade seen per customer is the latest
+    for await (const event of stripe.events.list({
+      type: 'customer.subscription.updated',
+      created: { gte: since },
+      limit: 100,
+    })) {
+      if (!isDowngrade(event)) continue;
+
+      const subscription = event.data.object as Stripe.Subscription;
+      const entry = forCustomer(subscription.customer);
+      if (entry && !entry.downgradedAt) {
+        entry.downgradedAt = new Date(event.created * 1000).toISOString();
+      }
+    }
+  } catch (err) {
+    console.warn('Could not read subscription events:', err);
+  }
+
+  return signals;
+}
+
+/**
+ * A subscription update that changed items (plan or quantity) and lowered MRR
+ */
+export function isDowngrade(event: Stripe.Event): boolean {
+  if (event.type !== 'customer.subscription.updated') return false;
+
+  const previous = event.data.previous_attributes as Partial<Stripe.Subscription> | undefined;
+  if (!previous?.items) return false;
+
+  const current = event.data.object;
+  return subscriptionMrr({ ...current, ...previous }) > subscriptionMrr(current);
+}
+
+/**
+ * Extract the subscription an event refers to, if any
+ */
+export function getEventSubscriptionId(event: Stripe.Event): string | null {
+  switch (event.type) {
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted':
+      return event.data.object.id;
+    case 'invoice.payment_failed':
+    case 'invoice.paid': {
+      const subscription = event.data.object.subscription;
+      if (!subscription) return null;
+      return typeof subscription === 'string' ? subscription : subscription.id;
+    }
+    default:
+      return null;
+  }
+}
+
+export const stripeProvider: BillingProvider<Stripe.Subscription> = {
+  id: 'stripe',
+
+  async validateApiKey(apiKey) {
+    if (!apiKey.match(/^(rk_live_|rk_test_|sk_live_|sk_test_)/)) return false;
+
+    try {
+      await new Stripe(apiKey).customers.list({ limit: 1 });
+      return true;
+    } catch {
+      return false;
+    }
+  },
+
+  async *listSubscriptions(apiKey) {
+    const stripe = new Stripe(apiKey);
+
+    for await (const subscription of listStripeSubscriptions(stripe)) {
+      const normalized = normalizeStripeSubscription(subscription);
+      if (normalized) yield normalized;
+    }
+  },
+
+  async getSubscription(apiKey, subscriptionId) {
+    const subscription = await new Stripe(apiKey).subscriptions.retrieve(subscriptionId, {
+      expand: SUBSCRIPTION_EXPAND,
+    });
+    return normalizeStripeSubscription(subscription);
+  },
+
+  normalizeStatus,
+
+  computeMrr: subscriptionMrr,
+
+  verifyWebhook(payload, headers, secret) {
+    try {
+      Stripe.webhooks.constructEvent(payload, headers['stripe-signature'] ?? '', secret);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+
+  webhookSubscriptionId(payload) {
+    try {
+      return getEventSubscriptionId(JSON.parse(payload) as Stripe.Event);
+    } catch {
+      return null;
+    }
+  },
+};
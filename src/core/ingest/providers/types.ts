@@ -0,0 +1,71 @@
+/**
+ * Billing providers a founder can connect
+ */
+export type BillingProviderId = 'stripe' | 'paddle' | 'lemonsqueezy';
+
+export type BillingStatus = 'ACTIVE' | 'PAYMENT_FAILED' | 'CANCELING' | 'CANCELED';
+
+/**
+ * Provider-neutral subscription, ready to be written to accounts
+ */
+export interface NormalizedSubscription {
+  subscriptionId: string;
+  customerId: string;
+  email: string;
+  name: string | null;
+  /** Monthly recurring revenue in major units of `currency` */
+  mrr: number;
+  currency: string;
+  billingStatus: BillingStatus;
+  cancelAtPeriodEnd: boolean;
+  createdAt: string;
+  /** When the next charge is due, if the provider exposes it */
+  currentPeriodEnd?: string | null;
+  /** Billing risk signals the provider exposes on the subscription itself */
+  signals?: Partial<BillingSignals>;
+}
+
+/**
+ * Billing risk signals for a customer, as ISO timestamps
+ */
+export interface BillingSignals {
+  /** Latest invoice was attempted and is still unpaid */
+  lastPaymentFailedAt: string | null;
+  oldestUnpaidInvoiceAt: string | null;
+  /** End of the default card's expiry month */
+  cardExpiresAt: string | null;
+  downgradedAt: string | null;
+}
+
+/**
+ * Billing provider adapter.
+ * TRaw is the provider's own subscription record.
+ */
+export interface BillingProvider<TRaw = unknown> {
+  id: BillingProviderId;
+
+  /** Check that an API key can read subscriptions */
+  validateApiKey(apiKey: string): Promise<boolean>;
+
+  /** Page through every subscription on the account */
+  listSubscriptions(apiKey: string): AsyncGenerator<NormalizedSubscription>;
+
+  /** Fetch one subscription; null when its customer has been deleted */
+  getSubscription(apiKey: string, subscriptionId: string): Promise<NormalizedSubscription | null>;
+
+  normalizeStatus(raw: TRaw): BillingStatus;
+
+  computeMrr(raw: TRaw): number;
+
+  /** Verify a webhook payload against the provider's signature header */
+  verifyWebhook(
+    payload: string,
+    headers: Record<string, string | undefined>,
+    secret: string,
+  ): boolean;
+
+  /** The subscription a verified webhook payload refers to, if any */
+  webhookSubscriptionId(payload: string): string | null;
+}
+
+export type FetchFn = typeof fetch;
@@ -0,0 +1,127 @@
+import { Hono } from 'hono';
+import Stripe from 'stripe';
+import { config } from '../../config.js';
+import { api, convex } from '../../lib/convex.js';
+import { getValidAccessToken, upsertSubscription } from './billing.js';
+import { SUBSCRIPTION_EXPAND, getEventSubscriptionId } from './providers/stripe.js';
+
+/**
+ * Real-time Stripe webhook receiver.
+ *
+ * Two ways in:
+ * - POST /            Connect (OAuth) founders. Verified with the platform
+ *                     STRIPE_WEBHOOK_SECRET; the founder comes from event.account.
+ * - POST /:founderId  API-key founders who registered their own endpoint.
+ *                     Verified with the founder's stripe_webhook_secret.
+ */
+export const stripeWebhookRoutes = new Hono();
+
+const HANDLED_EVENTS = new Set([
+  'customer.subscription.updated',
+  'customer.subscription.deleted',
+  'invoice.payment_failed',
+  'invoice.paid',
+]);
+
+function constructEvent(body: string, signature: string, secret: string): Stripe.Event | null {
+  try {
+    return Stripe.webhooks.constructEvent(body, signature, secret);
+  } catch (err) {
+    console.warn('Stripe webhook signature verification failed:', err);
+    return null;
+  }
+}
+
+stripeWebhookRoutes.post('/', async (c) => {
+  if (!config.STRIPE_WEBHOOK_SECRET) {
+    return c.json({ error: 'Stripe webhooks not configured' }, 400);
+  }
+
+  const body = await c.req.text();
+  const signature = c.req.header('stripe-signature') || '';
+
+  const event = constructEvent(body, signature, config.STRIPE_WEBHOOK_SECRET);
+  if (!event) {
+    return c.json({ error: 'Invalid signature' }, 401);
+  }
+
+  if (!event.account) {
+    return c.json({ received: true });
+  }
+
+  const founder = await convex.query(api.founders.getFounderByStripeAccount, {
+    stripeAccountId: event.account,
+  });
+
+  if (!founder) {
+    console.warn('Stripe webhook for unknown account:', event.account);
+    return c.json({ received: true });
+  }
+
+  try {
+    await handleStripeEvent(founder._id, event);
+    return c.json({ received: true });
+  } catch (error) {
+    console.error('Stripe webhook error:', error);
+    return c.json({ error: 'Webhook processing failed' }, 500);
+  }
+});
+
+stripeWebhookRoutes.post('/:founderId', async (c) => {
+  const founderId = c.req.param('founderId');
+  const founder = await convex.query(api.founders.findFounderById, { id: founderId });
+
+  const secret = (founder as { stripe_webhook_secret?: string | null } | null)
+    ?.stripe_webhook_secret;
+
+  if (!founder || !secret) {
+    return c.json({ error: 'Webhook not configured' }, 404);
+  }
+
+  const body = await c.req.text();
+  const signature = c.req.header('stripe-signature') || '';
+
+  const event = constructEvent(body, signature, secret);
+  if (!event) {
+    return c.json({ error: 'Invalid signature' }, 401);
+  }
+
+  try {
+    await handleStripeEvent(founderId, event);
+    return c.json({ received: true });
+  } catch (error) {
+    console.error('Stripe webhook error:', error);
+    return c.json({ error: 'Webhook processing failed' }, 500);
+  }
+});
+
+/**
+ * Apply a verified Stripe event to the founder's accounts.
+ *
+ * The subscription is always re-fetched so the account reflects Stripe's
+ * current state, not the (possibly out-of-order) event payload.
+ */
+export async function handleStripeEvent(founderId: string, event: Stripe.Event): Promise<void> {
+  if (!HANDLED_EVENTS.has(event.type)) {
+    return;
+  }
+
+  const subscriptionId = getEventSubscriptionId(event);
+  if (!subscriptionId) {
+    return;
+  }
+
+  const token = await getValidAccessToken(founderId);
+  if (!token) {
+    throw new Error(`No valid Stripe token for founder ${founderId}`);
+  }
+
+  const connectedStripe = new Stripe(token);
+  const subscription = await connectedStripe.subscriptions.retrieve(subscriptionId, {
+    expand: SUBSCRIPTION_EXPAND,
+  });
+
+  await upsertSubscription(founderId, subscription);
+
+  console.log(`Applied ${event.type} for subscription ${subscriptionId}`);
+}
@@ -0,0 +1,199 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import type { AccountSnapshot, DecisionLog } from '../../lib/convex.js';
+import { buildOutcomeReport, classifyOutcome, parseOutcomeWindow } from './outcomes.js';
+
+const DECIDED_AT = '2026-03-02T09:00:00Z';
+const AFTER_WINDOW = new Date('2026-04-06T00:00:00Z');
+
+function decision(overrides: Partial<DecisionLog> = {}): DecisionLog {
+  return {
+    _id: 'log_1',
+    account_id: 'acc_1',
+    founder_id: 'founder_1',
+    rule_id: 'H1',
+    risk_level: 'HIGH',
+    action: 'SEND_MESSAGE',
+    explanation: null,
+    message: null,
+    fallback_used: false,
+    trace: null,
+    rule_version: null,
+    rule_hash: null,
+    inputs: null,
+    generator: null,
+    mrr: 99,
+    currency: 'usd',
+    outcome: null,
+    outcome_at: null,
+    created_at: DECIDED_AT,
+    ...overrides,
+  };
+}
+
+function snapshot(createdAt: string, overrides: Partial<AccountSnapshot> = {}): AccountSnapshot {
+  return {
+    _id: `snap_${createdAt}`,
+    founder_id: 'founder_1',
+    account_id: 'acc_1',
+    source: 'SYNC',
+    mrr: 99,
+    currency: 'usd',
+    billing_status: 'ACTIVE',
+    cancel_at_period_end: false,
+    last_active_at: '2026-02-10T00:00:00Z',
+    activated: true,
+    core_used: true,
+    usage_freq: 'WEEKLY',
+    card_expires_at: null,
+    current_period_end: null,
+    rule_id: null,
+    risk_level: null,
+    severity: null,
+    run_id: null,
+    created_at: createdAt,
+    ...overrides,
+  };
+}
+
+function evaluation(createdAt: string, severity: AccountSnapshot['severity']): AccountSnapshot {
+  return snapshot(createdAt, {
+    source: 'EVALUATION',
+    risk_level: severity === 'CRITICAL' ? 'HIGH' : severity,
+    severity,
+  });
+}
+
+describe('Outcome classification', () => {
+  it('should stay open until the window ends', () => {
+    const snapshots = [evaluation('2026-03-09T09:00:00Z', 'HEALTHY')];
+
+    assert.strictEqual(
+      classifyOutcome(decision(), snapshots, 30, new Date('2026-03-20T00:00:00Z')),
+      null,
+    );
+  });
+
+  it('should settle as churned as soon as the account cancels', () => {
+    const snapshots = [snapshot('2026-03-10T00:00:00Z', { billing_status: 'CANCELED' })];
+
+    assert.strictEqual(
+      classifyOutcome(decision(), snapshots, 30, new Date('2026-03-11T00:00:00Z')),
+      'CHURNED',
+    );
+  });
+
+  it('should use the last evaluation in the window', () => {
+    const recovered = [
+      evaluation('2026-03-09T09:00:00Z', 'HIGH'),
+      evaluation('2026-03-23T09:00:00Z', 'HEALTHY'),
+    ];
+    const stillAtRisk = [
+      evaluation('2026-03-09T09:00:00Z', 'HEALTHY'),
+      evaluation('2026-03-23T09:00:00Z', 'MEDIUM'),
+    ];
+
+    assert.strictEqual(classifyOutcome(decision(), recovered, 30, AFTER_WINDOW), 'RECOVERED');
+    assert.strictEqual(classifyOutcome(decision(), stillAtRisk, 30, AFTER_WINDOW), 'AT_RISK');
+  });
+
+  it('should ignore snapshots outside the window', () => {
+    const snapshots = [
+      evaluation('2026-03-01T09:00:00Z', 'HEALTHY'),
+      evaluation('2026-03-09T09:00:00Z', 'HIGH'),
+      evaluation('2026-04-05T09:00:00Z', 'HEALTHY'),
+    ];
+
+    assert.strictEqual(classifyOutcome(decision(), snapshots, 30, AFTER_WINDOW), 'AT_RISK');
+  });
+
+  it('should fall back to activity when no digest ran in the window', () => {
+    const active = [snapshot('2026-03-20T00:00:00Z', { last_active_at: '2026-03-18T00:00:00Z' })];
+    const quiet = [snapshot('2026-03-20T00:00:00Z')];
+
+    assert.strictEqual(classifyOutcome(decision(), active, 30, AFTER_WINDOW), 'RECOVERED');
+    assert.strictEqual(classifyOutcome(decision(), quiet, 30, AFTER_WINDOW), 'AT_RISK');
+    assert.strictEqual(classifyOutcome(decision(), [], 30, AFTER_WINDOW), 'AT_RISK');
+  });
+});
+
+describe('Outcome report', () => {
+  const options = {
+    since: '2026-01-01T00:00:00Z',
+    windowDays: 30,
+    currency: 'usd',
+    rates: { usd: 1, eur: 1.1 },
+  };
+
+  it('should tally decisions per rule and per action', () => {
+    const report = buildOutcomeReport(
+      [
+        decision({ _id: 'a', account_id: 'a', outcome: 'RECOVERED' }),
+        decision({ _id: 'b', account_id: 'b', outcome: 'CHURNED' }),
+        decision({ _id: 'c', account_id: 'c' }),
+        decision({
+          _id: 'd',
+          account_id: 'd',
+          rule_id: 'M1',
+          action: 'DO_NOTHING',
+          outcome: 'AT_RISK',
+        }),
+      ],
+      options,
+    );
+
+    const h1 = report.byRule.find((t) => t.key === 'H1');
+    assert.deepStrictEqual(h1, {
+      key: 'H1',
+      decisions: 3,
+      recovered: 1,
+      atRisk: 0,
+      churned: 1,
+      pending: 1,
+      recoveryRate: 0.5,
+    });
+    assert.deepStrictEqual(
+      report.byAction.map((t) => [t.key, t.decisions, t.recoveryRate]),
+      [
+        ['SEND_MESSAGE', 3, 0.5],
+        ['DO_NOTHING', 1, 0],
+      ],
+    );
+  });
+
+  it('should count retained MRR once per account, by its latest settled decision', () => {
+    const report = buildOutcomeReport(
+      [
+        decision({ _id: '1', account_id: 'a', outcome: 'AT_RISK' }),
+        decision({
+          _id: '2',
+          account_id: 'a',
+          outcome: 'RECOVERED',
+          created_at: '2026-03-09T09:00:00Z',
+        }),
+        decision({ _id: '3', account_id: 'a', created_at: '2026-03-16T09:00:00Z' }),
+        decision({ _id: '4', account_id: 'b', outcome: 'RECOVERED', mrr: 100, currency: 'eur' }),
+        decision({ _id: '5', account_id: 'c', outcome: 'CHURNED', mrr: 49 }),
+      ],
+      options,
+    );
+
+    assert.strictEqual(report.recoveredAccounts, 2);
+    assert.strictEqual(report.mrrRetained, 209);
+    assert.strictEqual(report.churnedAccounts, 1);
+    assert.strictEqual(report.mrrChurned, 49);
+  });
+});
+
+describe('Outcome window', () => {
+  it('should read whole days from 7 to 180', () => {
+    assert.strictEqual(parseOutcomeWindow({ days: 45 }), 45);
+    assert.strictEqual(parseOutcomeWindow({ days: 6 }), null);
+    assert.strictEqual(parseOutcomeWindow({ days: 30.5 }), null);
+  });
+
+  it('should reject a null or missing body', () => {
+    assert.strictEqual(parseOutcomeWindow(null), null);
+    assert.strictEqual(parseOutcomeWindow({}), null);
+  });
+});
@@ -0,0 +1,162 @@
+import { addDays } from 'date-fns';
+import { z } from 'zod';
+import type { AccountSnapshot, DecisionLog } from '../../lib/convex.js';
+import { type FxRates, sumInCurrency } from '../currency/fx.js';
+
+/**
+ * Intervention outcomes.
+ *
+ * Every at-risk decision is followed for a window after it was made, using
+ * the snapshots later syncs and digest runs take. A cancellation in the
+ * window settles it as churned straight away. Otherwise it is classified when
+ * the window ends: recovered if the account was last evaluated healthy (or,
+ * without an evaluation, came back active), still at risk if not.
+ */
+
+export type Outcome = NonNullable<DecisionLog['outcome']>;
+
+export const DEFAULT_OUTCOME_WINDOW_DAYS = 30;
+
+export const OutcomeWindowSchema = z.number().int().min(7).max(180);
+
+/**
+ * Window length from a request body, or null when missing or out of range
+ */
+export function parseOutcomeWindow(body: unknown): number | null {
+  const parsed = OutcomeWindowSchema.safeParse((body as { days?: unknown } | null)?.days);
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Outcome of one decision, or null while its window is still open
+ */
+export function classifyOutcome(
+  decision: Pick<DecisionLog, 'created_at'>,
+  snapshots: AccountSnapshot[],
+  windowDays: number,
+  now = new Date(),
+): Outcome | null {
+  const start = decision.created_at;
+  const end = addDays(new Date(start), windowDays).toISOString();
+  const inWindow = snapshots
+    .filter((s) => s.created_at > start && s.created_at <= end)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  if (inWindow.some((s) => s.billing_status === 'CANCELED')) return 'CHURNED';
+  if (now.toISOString() < end) return null;
+
+  const evaluations = inWindow.filter((s) => s.source === 'EVALUATION' && s.risk_level);
+  const lastEvaluation = evaluations[evaluations.length - 1];
+  if (lastEvaluation) {
+    const severity = lastEvaluation.severity ?? lastEvaluation.risk_level;
+    return severity === 'HEALTHY' ? 'RECOVERED' : 'AT_RISK';
+  }
+
+  // No digest ran in the window; fall back to activity from syncs
+  const last = inWindow[inWindow.length - 1];
+  const cameBack = last?.billing_status === 'ACTIVE' && (last.last_active_at ?? '') > start;
+  return cameBack ? 'RECOVERED' : 'AT_RISK';
+}
+
+export interface OutcomeTally {
+  /** Rule ID or suggested action */
+  key: string;
+  decisions: number;
+  recovered: number;
+  atRisk: number;
+  churned: number;
+  /** Window not over yet */
+  pending: number;
+  /** Recovered share of settled decisions; null before any settle */
+  recoveryRate: number | null;
+}
+
+export interface OutcomeReport {
+  since: string;
+  windowDays: number;
+  currency: string;
+  /** MRR of accounts whose latest settled decision is a recovery */
+  mrrRetained: number;
+  mrrChurned: number;
+  recoveredAccounts: number;
+  churnedAccounts: number;
+  byRule: OutcomeTally[];
+  byAction: OutcomeTally[];
+}
+
+/**
+ * Outcome counts per rule and per action, plus the headline MRR figures.
+ *
+ * Tallies count decisions, so an account flagged three weeks running counts
+ * three times. The MRR figures count each account once, by its latest settled
+ * decision, in the founder's currency.
+ */
+export function buildOutcomeReport(
+  decisions: DecisionLog[],
+  options: { since: string; windowDays: number; currency: string; rates: FxRates },
+): OutcomeReport {
+  const latest = new Map<string, DecisionLog>();
+  for (const decision of decisions) {
+    if (!decision.outcome) continue;
+    const current = latest.get(decision.account_id);
+    if (!current || decision.created_at > current.created_at) {
+      latest.set(decision.account_id, decision);
+    }
+  }
+
+  const settled = [...latest.values()];
+  const mrrOf = (outcome: Outcome) =>
+    sumInCurrency(
+      settled
+        .filter((d) => d.outcome === outcome)
+        .map((d) => ({ amount: d.mrr ?? 0, currency: d.currency ?? options.currency })),
+      options.currency,
+      options.rates,
+    ).total;
+
+  return {
+    since: options.since,
+    windowDays: options.windowDays,
+    currency: options.currency,
+    mrrRetained: mrrOf('RECOVERED'),
+    mrrChurned: mrrOf('CHURNED'),
+    recoveredAccounts: settled.filter((d) => d.outcome === 'RECOVERED').length,
+    churnedAccounts: settled.filter((d) => d.outcome === 'CHURNED').length,
+    byRule: tally(decisions, (d) => d.rule_id),
+    byAction: tally(decisions, (d) => d.action),
+  };
+}
+
+function tally(decisions: DecisionLog[], keyOf: (d: DecisionLog) => string): OutcomeTally[] {
+  const tallies = new Map<string, OutcomeTally>();
+
+  for (const decision of decisions) {
+    const key = keyOf(decision);
+    let entry = tallies.get(key);
+    if (!entry) {
+      entry = {
+        key,
+        decisions: 0,
+        recovered: 0,
+        atRisk: 0,
+        churned: 0,
+        pending: 0,
+        recoveryRate: null,
+      };
+      tallies.set(key, entry);
+    }
+
+    entry.decisions++;
+    if (decision.outcome === 'RECOVERED') entry.recovered++;
+    else if (decision.outcome === 'AT_RISK') entry.atRisk++;
+    else if (decision.outcome === 'CHURNED') entry.churned++;
+    else entry.pending++;
+  }
+
+  return [...tallies.values()]
+    .map((entry) => {
+      const settled = entry.decisions - entry.pending;
+      return { ...entry, recoveryRate: settled === 0 ? null : entry.recovered / settled };
+    })
+    .sort((a, b) => b.decisions - a.decisions || a.key.localeCompare(b.key));
+}
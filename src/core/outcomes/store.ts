@@ -0,0 +1,110 @@
+import { subDays } from 'date-fns';
+import { type AccountSnapshot, type DecisionLog, api, convex } from '../../lib/convex.js';
+import { DEFAULT_BASE_CURRENCY, loadFxRates } from '../currency/fx.js';
+import {
+  DEFAULT_OUTCOME_WINDOW_DAYS,
+  type Outcome,
+  type OutcomeReport,
+  buildOutcomeReport,
+  classifyOutcome,
+} from './outcomes.js';
+
+/**
+ * How far back the outcome report looks by default
+ */
+export const OUTCOME_REPORT_DAYS = 90;
+
+/**
+ * Decisions older than this are no longer followed up
+ */
+const FOLLOW_UP_LOOKBACK_DAYS = 180;
+
+type FounderSettings = { base_currency?: string | null; outcome_window_days?: number | null };
+
+async function loadFounder(founderId: string): Promise<FounderSettings | null> {
+  return (await convex.query(api.founders.getFounderById, {
+    id: founderId,
+  })) as FounderSettings | null;
+}
+
+export async function loadDecisions(founderId: string, since: Date): Promise<DecisionLog[]> {
+  return (await convex.query(api.logs.getDecisionLogsByFounder, {
+    founderId,
+    since: since.toISOString(),
+  })) as DecisionLog[];
+}
+
+/**
+ * Classify every decision whose follow-up window has closed.
+ * Non-blocking, like snapshot writes: an unclassified decision is retried next run.
+ */
+export async function followUpDecisions(founderId: string, now = new Date()): Promise<number> {
+  try {
+    const founder = await loadFounder(founderId);
+    const windowDays = founder?.outcome_window_days ?? DEFAULT_OUTCOME_WINDOW_DAYS;
+
+    const decisions = await loadDecisions(founderId, subDays(now, FOLLOW_UP_LOOKBACK_DAYS));
+    const open = decisions.filter((d) => !d.outcome);
+    if (open.length === 0) return 0;
+
+    const earliest = open.reduce(
+      (min, d) => (d.created_at < min ? d.created_at : min),
+      now.toISOString(),
+    );
+    const snapshots = (await convex.query(api.snapshots.getSnapshotsByFounder, {
+      founderId,
+      since: earliest,
+    })) as AccountSnapshot[];
+
+    const byAccount = new Map<string, AccountSnapshot[]>();
+    for (const snapshot of snapshots) {
+      const list = byAccount.get(snapshot.account_id) ?? [];
+      list.push(snapshot);
+      byAccount.set(snapshot.account_id, list);
+    }
+
+    const outcomes: Array<{ id: string; outcome: Outcome }> = [];
+    for (const decision of open) {
+      const outcome = classifyOutcome(
+        decision,
+        byAccount.get(decision.account_id) ?? [],
+        windowDays,
+        now,
+      );
+      if (outcome) outcomes.push({ id: decision._id, outcome });
+    }
+
+    for (let i = 0; i < outcomes.length; i += 100) {
+      await convex.mutation(api.logs.recordDecisionOutcomes, {
+        outcomes: outcomes.slice(i, i + 100),
+      });
+    }
+    return outcomes.length;
+  } catch (err) {
+    console.warn('Could not follow up decisions:', err);
+    return 0;
+  }
+}
+
+/**
+ * Outcome report over the founder's decisions of the last `days` days.
+ * Decisions whose window has closed are classified first, so the report
+ * doesn't wait for the next digest to catch up.
+ */
+export async function outcomeReportForFounder(
+  founderId: string,
+  options: { days?: number; now?: Date } = {},
+): Promise<OutcomeReport> {
+  const now = options.now ?? new Date();
+  const since = subDays(now, options.days ?? OUTCOME_REPORT_DAYS);
+
+  await followUpDecisions(founderId, now);
+  const founder = await loadFounder(founderId);
+
+  return buildOutcomeReport(await loadDecisions(founderId, since), {
+    since: since.toISOString(),
+    windowDays: founder?.outcome_window_days ?? DEFAULT_OUTCOME_WINDOW_DAYS,
+    currency: founder?.base_currency || DEFAULT_BASE_CURRENCY,
+    rates: await loadFxRates(),
+  });
+}
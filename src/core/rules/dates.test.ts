@@ -0,0 +1,47 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { type Clock, daysSince, daysUntil, isValidTimeZone } from './dates.js';
+
+const clock = (now: string, timeZone = 'UTC'): Clock => ({ now: new Date(now), timeZone });
+
+describe('Rule dates', () => {
+  it('should count calendar days, not 24-hour periods', () => {
+    const now = clock('2026-03-10T00:30:00Z');
+
+    assert.strictEqual(daysSince('2026-03-09T23:30:00Z', now), 1);
+    assert.strictEqual(daysSince('2026-03-10T00:10:00Z', now), 0);
+  });
+
+  it("should follow the founder's calendar rather than UTC", () => {
+    // 23:30 UTC on the 9th is already the 10th in Berlin
+    const berlin = clock('2026-03-10T08:00:00Z', 'Europe/Berlin');
+    assert.strictEqual(daysSince('2026-03-09T23:30:00Z', berlin), 0);
+
+    // 02:00 UTC on the 10th is still the 9th in New York
+    const newYork = clock('2026-03-10T14:00:00Z', 'America/New_York');
+    assert.strictEqual(daysSince('2026-03-10T02:00:00Z', newYork), 1);
+  });
+
+  it('should count whole days across a daylight saving change', () => {
+    const now = clock('2026-03-30T10:00:00Z', 'Europe/Berlin');
+
+    assert.strictEqual(daysSince('2026-03-28T10:00:00Z', now), 2);
+  });
+
+  it('should count days until a future date and go negative once it passes', () => {
+    const now = clock('2026-03-10T12:00:00Z');
+
+    assert.strictEqual(daysUntil('2026-03-31T23:59:59Z', now), 21);
+    assert.strictEqual(daysUntil('2026-03-01T00:00:00Z', now), -9);
+  });
+
+  it('should return null without a date', () => {
+    assert.strictEqual(daysSince(null, clock('2026-03-10T12:00:00Z')), null);
+    assert.strictEqual(daysUntil(undefined, clock('2026-03-10T12:00:00Z')), null);
+  });
+
+  it('should validate IANA time zones', () => {
+    assert.strictEqual(isValidTimeZone('Europe/Berlin'), true);
+    assert.strictEqual(isValidTimeZone('Mars/Olympus_Mons'), false);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * The instant rules are evaluated at, and the calendar days are counted in.
+ * Injected so evaluations can be replayed as of any past date.
+ */
+export interface Clock {
+  now: Date;
+  /** IANA zone whose midnight starts each day, e.g. Europe/Berlin */
+  timeZone: string;
+}
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+export function systemClock(timeZone = DEFAULT_TIME_ZONE): Clock {
+  return { now: new Date(), timeZone };
+}
+
+/**
+ * Whether the runtime knows this IANA time zone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Days since the epoch of the calendar date `date` falls on in `timeZone`
+ */
+function localDayNumber(date: Date, timeZone: string): number {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  // en-CA formats as YYYY-MM-DD
+  const [year, month, day] = formatter.format(date).split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / 86_400_000;
+}
+
+/**
+ * Calendar days from `from` to `to` in the clock's time zone
+ */
+function calendarDaysBetween(from: Date, to: Date, timeZone: string): number {
+  return localDayNumber(to, timeZone) - localDayNumber(from, timeZone);
+}
+
+/**
+ * Calendar days from `date` until the clock's now, or null when there is no date
+ */
+export function daysSince(
+  date: string | null | undefined,
+  clock: Clock = systemClock(),
+): number | null {
+  if (!date) return null;
+  return calendarDaysBetween(new Date(date), clock.now, clock.timeZone);
+}
+
+/**
+ * Calendar days from the clock's now until `date` (negative once it has passed)
+ */
+export function daysUntil(
+  date: string | null | undefined,
+  clock: Clock = systemClock(),
+): number | null {
+  if (!date) return null;
+  return calendarDaysBetween(clock.now, new Date(date), clock.timeZone);
+}
@@ -0,0 +1,315 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { type Clock, daysSince } from './dates.js';
+import { type CustomRule, CustomRuleSchema, compileRule, mergeRules } from './dsl.js';
+import { evaluateAccount } from './engine.js';
+import {
+  H1_SilentDropoff,
+  H2_NeverActivated,
+  H3_PaymentFailure,
+  H4_PreCancel,
+  M1_LowEngagement,
+  RULES_IN_ORDER,
+} from './rules.js';
+import { DEFAULT_RULE_SETTINGS, type RuleSettings, resolveRuleSettings } from './settings.js';
+import type { Account, ChurnRule, EvaluationContext } from './types.js';
+
+const NOW = new Date('2026-03-16T12:00:00Z');
+const CLOCK: Clock = { now: NOW, timeZone: 'UTC' };
+const DAY = 24 * 60 * 60 * 1000;
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * DAY).toISOString();
+
+function createAccount(overrides: Partial<Account> = {}): Account {
+  return {
+    _id: 'acc_1',
+    founder_id: 'founder_1',
+    email: 'customer@example.com',
+    name: 'Test Customer',
+    mrr: 99,
+    currency: 'usd',
+    last_active_at: daysAgo(2),
+    activated: true,
+    core_used: true,
+    usage_freq: 'WEEKLY',
+    billing_status: 'ACTIVE',
+    cancel_at_period_end: false,
+    stripe_customer_id: 'cus_test',
+    stripe_subscription_id: null,
+    created_at: daysAgo(30),
+    updated_at: NOW.toISOString(),
+    ...overrides,
+  };
+}
+
+/**
+ * The built-in H4–M1 rules, written in the DSL
+ */
+const DSL_EQUIVALENTS: Array<[ChurnRule, CustomRule]> = [
+  [
+    H4_PreCancel,
+    {
+      id: 'H4',
+      name: 'Pre-Cancel',
+      riskLevel: 'HIGH',
+      action: 'SEND_MESSAGE',
+      reason: 'User has requested to cancel at period end.',
+      when: { field: 'cancel_at_period_end', op: 'eq', value: true },
+    },
+  ],
+  [
+    H3_PaymentFailure,
+    {
+      id: 'H3',
+      name: 'Payment Failure',
+      riskLevel: 'HIGH',
+      action: 'SEND_MESSAGE',
+      reason: 'Payment failed on last invoice.',
+      when: { field: 'billing_status', op: 'eq', value: 'PAYMENT_FAILED' },
+    },
+  ],
+  [
+    H2_NeverActivated,
+    {
+      id: 'H2',
+      name: 'Never Activated',
+      riskLevel: 'HIGH',
+      action: 'SEND_MESSAGE',
+      reason: 'Never reached first value after signup.',
+      when: {
+        all: [
+          { field: 'activated', op: 'eq', value: false },
+          { field: 'accountAgeDays', op: 'gt', value: { setting: 'activationDays' } },
+        ],
+      },
+    },
+  ],
+  [
+    H1_SilentDropoff,
+    {
+      id: 'H1',
+      name: 'Silent Drop-off',
+      riskLevel: 'HIGH',
+      action: 'SEND_MESSAGE',
+      reason: 'Stopped using product after activation.',
+      when: {
+        all: [
+          { field: 'activated', op: 'eq', value: true },
+          {
+            any: [
+              {
+                all: [
+                  { field: 'usage_freq', op: 'eq', value: 'DAILY' },
+                  { field: 'daysSinceActive', op: 'gt', value: { setting: 'inactiveDays.DAILY' } },
+                ],
+              },
+              {
+                all: [
+                  { field: 'usage_freq', op: 'eq', value: 'WEEKLY' },
+                  { field: 'daysSinceActive', op: 'gt', value: { setting: 'inactiveDays.WEEKLY' } },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    },
+  ],
+  [
+    M1_LowEngagement,
+    {
+      id: 'M1',
+      name: 'Low Engagement',
+      riskLevel: 'MEDIUM',
+      action: 'SEND_MESSAGE',
+      reason: 'Low engagement, has not used core feature.',
+      when: {
+        all: [
+          { field: 'daysSinceActive', op: 'gt', value: { setting: 'lowEngagementDays' } },
+          { field: 'core_used', op: 'eq', value: false },
+        ],
+      },
+    },
+  ],
+];
+
+function accountGrid(): Account[] {
+  const accounts: Account[] = [];
+
+  for (const activated of [true, false]) {
+    for (const core_used of [true, false]) {
+      for (const usage_freq of ['DAILY', 'WEEKLY'] as const) {
+        for (const billing_status of ['ACTIVE', 'PAYMENT_FAILED'] as const) {
+          for (const cancel_at_period_end of [true, false]) {
+            for (const lastActive of [null, 2, 5, 8, 15, 40]) {
+              for (const age of [3, 10, 60]) {
+                accounts.push(
+                  createAccount({
+                    activated,
+                    core_used,
+                    usage_freq,
+                    billing_status,
+                    cancel_at_period_end,
+                    last_active_at: lastActive === null ? null : daysAgo(lastActive),
+                    created_at: daysAgo(age),
+                  }),
+                );
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return accounts;
+}
+
+function contextFor(account: Account, settings: RuleSettings): EvaluationContext {
+  return {
+    accountAgeDays: daysSince(account.created_at, CLOCK) ?? 0,
+    daysSinceActive: daysSince(account.last_active_at, CLOCK),
+    history: [],
+    settings,
+    clock: CLOCK,
+  };
+}
+
+describe('Custom rule DSL', () => {
+  describe('built-in rules expressed in the DSL', () => {
+    const settingsCases: Array<[string, RuleSettings]> = [
+      ['default settings', DEFAULT_RULE_SETTINGS],
+      [
+        'custom settings',
+        resolveRuleSettings({
+          activationDays: 30,
+          inactiveDays: { DAILY: 3, WEEKLY: 35 },
+          lowEngagementDays: 10,
+        }),
+      ],
+    ];
+
+    for (const [builtIn, definition] of DSL_EQUIVALENTS) {
+      for (const [label, settings] of settingsCases) {
+        it(`should match ${builtIn.id} on every account (${label})`, () => {
+          const compiled = compileRule(CustomRuleSchema.parse(definition));
+
+          for (const account of accountGrid()) {
+            const context = contextFor(account, settings);
+            assert.strictEqual(
+              compiled.evaluate(account, context),
+              builtIn.evaluate(account, context),
+              JSON.stringify(account),
+            );
+          }
+        });
+      }
+    }
+  });
+
+  describe('validation', () => {
+    const base = {
+      id: 'VIP_QUIET',
+      name: 'Quiet VIP',
+      riskLevel: 'HIGH',
+      action: 'SEND_MESSAGE',
+      reason: 'High-value customer quiet for {{daysSinceActive}} days.',
+    };
+
+    it('should reject unknown fields', () => {
+      const result = CustomRuleSchema.safeParse({
+        ...base,
+        when: { field: 'password', op: 'eq', value: 'x' },
+      });
+
+      assert.strictEqual(result.success, false);
+    });
+
+    it('should reject unknown operators and empty combinators', () => {
+      assert.strictEqual(
+        CustomRuleSchema.safeParse({ ...base, when: { field: 'mrr', op: 'like', value: 1 } })
+          .success,
+        false,
+      );
+      assert.strictEqual(CustomRuleSchema.safeParse({ ...base, when: { all: [] } }).success, false);
+    });
+  });
+
+  describe('evaluation', () => {
+    const quietVip: CustomRule = {
+      id: 'VIP_QUIET',
+      name: 'Quiet VIP',
+      riskLevel: 'HIGH',
+      action: 'SEND_MESSAGE',
+      reason: '{{name}} pays {{mrr}}/mo and has been quiet for {{daysSinceActive}} days.',
+      when: {
+        all: [
+          { field: 'mrr', op: 'gte', value: 500 },
+          { field: 'daysSinceActive', op: 'gte', value: 5 },
+        ],
+      },
+      insertBefore: 'H1',
+    };
+
+    it('should fire a custom rule and render its reason', () => {
+      const account = createAccount({ mrr: 800, last_active_at: daysAgo(6) });
+      const result = evaluateAccount(account, { now: NOW, customRules: [quietVip] });
+
+      assert.strictEqual(result.ruleId, 'VIP_QUIET');
+      assert.strictEqual(result.reason, 'Test Customer pays 800/mo and has been quiet for 6 days.');
+    });
+
+    it('should trace a custom rule with its condition and field values', () => {
+      const account = createAccount({ mrr: 800, last_active_at: daysAgo(6) });
+      const result = evaluateAccount(account, { now: NOW, customRules: [quietVip], trace: true });
+      const entry = result.trace?.find((t) => t.ruleId === 'VIP_QUIET');
+
+      assert.strictEqual(entry?.matched, true);
+      assert.strictEqual(entry?.condition, 'mrr gte 500 and daysSinceActive gte 5');
+      assert.deepStrictEqual(entry?.values, { mrr: 800, daysSinceActive: 6 });
+    });
+
+    it('should respect insertBefore when merging', () => {
+      const ids = mergeRules(RULES_IN_ORDER, [quietVip]).map((rule) => rule.id);
+
+      assert.strictEqual(ids.indexOf('VIP_QUIET'), ids.indexOf('H1') - 1);
+    });
+
+    it('should default to just before the healthy fallback', () => {
+      const ids = mergeRules(RULES_IN_ORDER, [{ ...quietVip, insertBefore: undefined }]).map(
+        (rule) => rule.id,
+      );
+
+      assert.deepStrictEqual(ids.slice(-2), ['VIP_QUIET', 'G1']);
+    });
+
+    it('should treat comparisons against missing values as false', () => {
+      const account = createAccount({ mrr: 800, last_active_at: null });
+
+      assert.strictEqual(
+        evaluateAccount(account, { now: NOW, customRules: [quietVip] }).ruleId,
+        'G1',
+      );
+    });
+
+    it('should support daysSince helpers and not', () => {
+      const recentFailure: CustomRule = {
+        id: 'FAILED_NOT_CANCELING',
+        name: 'Failed payment, not canceling',
+        riskLevel: 'MEDIUM',
+        action: 'SEND_MESSAGE',
+        reason: 'Payment failed {{daysSince.last_payment_failed_at}} days ago.',
+        when: {
+          all: [
+            { field: 'daysSince.last_payment_failed_at', op: 'lte', value: 10 },
+            { not: { field: 'cancel_at_period_end', op: 'eq', value: true } },
+          ],
+        },
+      };
+      const account = createAccount({ last_payment_failed_at: daysAgo(3) });
+      const result = evaluateAccount(account, { now: NOW, customRules: [recentFailure] });
+
+      assert.strictEqual(result.ruleId, 'FAILED_NOT_CANCELING');
+      assert.strictEqual(result.reason, 'Payment failed 3 days ago.');
+    });
+  });
+});
@@ -0,0 +1,257 @@
+import { z } from 'zod';
+import { daysSince, daysUntil } from './dates.js';
+import type { Account, ChurnRule, EvaluationContext } from './types.js';
+
+/**
+ * Declarative custom rules.
+ *
+ * Founders define extra rules as JSON, stored per founder and merged into
+ * the priority-ordered rule list. A condition is either a comparison or a
+ * combinator:
+ *
+ *   { "field": "mrr", "op": "gte", "value": 500 }
+ *   { "all": [...] } · { "any": [...] } · { "not": {...} }
+ *
+ * Fields are account fields, `accountAgeDays`, `daysSinceActive`, or
+ * `daysSince.<date field>` / `daysUntil.<date field>`. A value may be a
+ * literal or `{ "setting": "<path>" }`, read from the founder's rule settings.
+ */
+
+const DATE_FIELDS = [
+  'created_at',
+  'last_active_at',
+  'last_payment_failed_at',
+  'oldest_unpaid_invoice_at',
+  'card_expires_at',
+  'current_period_end',
+  'downgraded_at',
+] as const;
+
+const ACCOUNT_FIELDS = [
+  ...DATE_FIELDS,
+  'email',
+  'name',
+  'mrr',
+  'currency',
+  'activated',
+  'core_used',
+  'usage_freq',
+  'billing_status',
+  'cancel_at_period_end',
+] as const;
+
+export const DSL_FIELDS: string[] = [
+  ...ACCOUNT_FIELDS,
+  'accountAgeDays',
+  'daysSinceActive',
+  ...DATE_FIELDS.flatMap((f) => [`daysSince.${f}`, `daysUntil.${f}`]),
+];
+
+const FieldSchema = z.string().refine((f) => DSL_FIELDS.includes(f), { message: 'Unknown field' });
+
+const LiteralSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+const ValueSchema = z.union([
+  LiteralSchema,
+  z.array(LiteralSchema),
+  z.object({ setting: z.string().min(1) }).strict(),
+]);
+
+type Literal = z.infer<typeof LiteralSchema>;
+type Value = z.infer<typeof ValueSchema>;
+
+export type Condition =
+  | { all: Condition[] }
+  | { any: Condition[] }
+  | { not: Condition }
+  | {
+      field: string;
+      op: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'exists';
+      value?: Value;
+    };
+
+export const ConditionSchema: z.ZodType<Condition> = z.lazy(() =>
+  z.union([
+    z.object({ all: z.array(ConditionSchema).min(1) }).strict(),
+    z.object({ any: z.array(ConditionSchema).min(1) }).strict(),
+    z.object({ not: ConditionSchema }).strict(),
+    z
+      .object({
+        field: FieldSchema,
+        op: z.enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'exists']),
+        value: ValueSchema.optional(),
+      })
+      .strict(),
+  ]),
+);
+
+export const CustomRuleSchema = z.object({
+  id: z
+    .string()
+    .regex(/^[A-Z][A-Z0-9_]{0,19}$/, 'id must be uppercase letters, digits or _ (max 20)'),
+  name: z.string().min(1).max(80),
+  riskLevel: z.enum(['HIGH', 'MEDIUM']),
+  action: z.enum(['SEND_MESSAGE', 'DO_NOTHING']),
+  /** Reason shown to the founder; `{{field}}` placeholders use the same fields as conditions */
+  reason: z.string().min(1).max(300),
+  when: ConditionSchema,
+  /** Evaluate just before this rule; defaults to just before the healthy fallback */
+  insertBefore: z.string().optional(),
+});
+
+export type CustomRule = z.infer<typeof CustomRuleSchema>;
+
+/**
+ * Read a DSL field from the account or evaluation context
+ */
+export function resolveField(
+  field: string,
+  account: Account,
+  context: EvaluationContext,
+): Literal | undefined {
+  if (field === 'accountAgeDays') return context.accountAgeDays;
+  if (field === 'daysSinceActive') return context.daysSinceActive;
+
+  const [helper, dateField] = field.split('.');
+  const date = readAccount(account, dateField) as string | null;
+  if (helper === 'daysSince') return daysSince(date, context.clock);
+  if (helper === 'daysUntil') return daysUntil(date, context.clock);
+
+  return readAccount(account, field);
+}
+
+function readAccount(account: Account, field: string): Literal | undefined {
+  return (account as unknown as Record<string, Literal | undefined>)[field];
+}
+
+function resolveValue(value: Value | undefined, context: EvaluationContext): Value | undefined {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) return value;
+
+  let current: unknown = context.settings;
+  for (const key of value.setting.split('.')) {
+    current = (current as Record<string, unknown> | undefined)?.[key];
+  }
+  return current as Literal;
+}
+
+/**
+ * Evaluate a condition. Ordering comparisons against a missing value are false.
+ */
+export function evaluateCondition(
+  condition: Condition,
+  account: Account,
+  context: EvaluationContext,
+): boolean {
+  if ('all' in condition) return condition.all.every((c) => evaluateCondition(c, account, context));
+  if ('any' in condition) return condition.any.some((c) => evaluateCondition(c, account, context));
+  if ('not' in condition) return !evaluateCondition(condition.not, account, context);
+
+  const actual = resolveField(condition.field, account, context) ?? null;
+  const expected = resolveValue(condition.value, context) ?? null;
+
+  switch (condition.op) {
+    case 'exists':
+      return actual !== null;
+    case 'eq':
+      return actual === expected;
+    case 'neq':
+      return actual !== expected;
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual);
+    default: {
+      if (actual === null || expected === null || Array.isArray(expected)) return false;
+      if (typeof actual !== typeof expected) return false;
+
+      switch (condition.op) {
+        case 'gt':
+          return actual > expected;
+        case 'gte':
+          return actual >= expected;
+        case 'lt':
+          return actual < expected;
+        case 'lte':
+          return actual <= expected;
+      }
+    }
+  }
+}
+
+/**
+ * Fill `{{field}}` placeholders in a reason template
+ */
+function renderReason(template: string, account: Account, context: EvaluationContext): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, field: string) => {
+    if (!DSL_FIELDS.includes(field)) return match;
+    const value = resolveField(field, account, context);
+    return value === null || value === undefined ? '' : String(value);
+  });
+}
+
+export function compileRule(rule: CustomRule): ChurnRule {
+  return {
+    id: rule.id,
+    name: rule.name,
+    riskLevel: rule.riskLevel,
+    suggestedAction: rule.action,
+    evaluate: (account, context) => evaluateCondition(rule.when, account, context),
+    getReason: (account, context) => renderReason(rule.reason, account, context),
+    explain: (account, context) => ({
+      condition: describeCondition(rule.when),
+      values: Object.fromEntries(
+        conditionFields(rule.when).map((field) => [
+          field,
+          resolveField(field, account, context) ?? null,
+        ]),
+      ),
+    }),
+  };
+}
+
+/**
+ * Render a condition as a readable expression, e.g. `mrr gte 500 and not (...)`
+ */
+export function describeCondition(condition: Condition): string {
+  if ('all' in condition) return condition.all.map(describeNested).join(' and ');
+  if ('any' in condition) return condition.any.map(describeNested).join(' or ');
+  if ('not' in condition) return `not ${describeNested(condition.not)}`;
+
+  if (condition.op === 'exists') return `${condition.field} exists`;
+  return `${condition.field} ${condition.op} ${JSON.stringify(condition.value ?? null)}`;
+}
+
+function describeNested(condition: Condition): string {
+  const text = describeCondition(condition);
+  return 'field' in condition ? text : `(${text})`;
+}
+
+/**
+ * Every field a condition reads, in order of first use
+ */
+function conditionFields(condition: Condition): string[] {
+  if ('all' in condition) return [...new Set(condition.all.flatMap(conditionFields))];
+  if ('any' in condition) return [...new Set(condition.any.flatMap(conditionFields))];
+  if ('not' in condition) return conditionFields(condition.not);
+  return [condition.field];
+}
+
+/**
+ * Merge custom rules into a built-in pack, keeping the healthy fallback last.
+ * Rules whose insertBefore is unknown go just before the fallback.
+ */
+export function mergeRules(base: ChurnRule[], custom: CustomRule[]): ChurnRule[] {
+  if (custom.length === 0) return base;
+
+  const rules = [...base];
+
+  for (const definition of custom) {
+    const compiled = compileRule(definition);
+    const target = definition.insertBefore
+      ? rules.findIndex((r) => r.id === definition.insertBefore)
+      : -1;
+    const fallbackIndex = rules.length - 1;
+
+    rules.splice(target >= 0 ? target : fallbackIndex, 0, compiled);
+  }
+
+  return rules;
+}
@@ -1,20 +1,25 @@
 import assert from 'node:assert';
 import { describe, it } from 'node:test';
 import { evaluateAccount } from './engine.js';
+import { resolveRuleSettings } from './settings.js';
 import type { Account } from './types.js';
 
-function createAccount(overrides: Partial<Account> = {}): Account {
-  const now = new Date();
-  const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-  const twoDaysAgo = new Date(now.getTime() - 2 * 24 * 60 * 60 * 1000);
+const NOW = new Date('2026-03-16T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** ISO timestamp the given number of days before NOW */
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * DAY_MS).toISOString();
+const inDays = (days: number) => daysAgo(-days);
 
+function createAccount(overrides: Partial<Account> = {}): Account {
   return {
     _id: 'test-account-1',
     founder_id: 'test-founder-1',
     email: 'customer@example.com',
     name: 'Test Customer',
     mrr: 99,
-    last_active_at: twoDaysAgo.toISOString(),
+    currency: 'usd',
+    last_active_at: daysAgo(2),
     activated: true,
     core_used: true,
     usage_freq: 'WEEKLY',
@@ -22,8 +27,8 @@ function createAccount(overrides: Partial<Account> = {}): Account {
     cancel_at_period_end: false,
     stripe_customer_id: 'cus_test',
     stripe_subscription_id: 'sub_test',
-    created_at: thirtyDaysAgo.toISOString(),
-    updated_at: now.toISOString(),
+    created_at: daysAgo(30),
+    updated_at: NOW.toISOString(),
     ...overrides,
   };
 }
@@ -32,7 +37,7 @@ describe('Rules Engine', () => {
   describe('H4 — Pre-Cancel', () => {
     it('should trigger when cancel_at_period_end is true', () => {
       const account = createAccount({ cancel_at_period_end: true });
-      const result = evaluateAccount(account);
+      const result = evaluateAccount(account, { now: NOW });
 
       assert.strictEqual(result.ruleId, 'H4');
       assert.strictEqual(result.riskLevel, 'HIGH');
@@ -43,7 +48,7 @@ describe('Rules Engine', () => {
   describe('H3 — Payment Failure', () => {
     it('should trigger when billing_status is PAYMENT_FAILED', () => {
       const account = createAccount({ billing_status: 'PAYMENT_FAILED' });
-      const result = evaluateAccount(account);
+      const result = evaluateAccount(account, { now: NOW });
 
       assert.strictEqual(result.ruleId, 'H3');
       assert.strictEqual(result.riskLevel, 'HIGH');
@@ -52,24 +57,22 @@ describe('Rules Engine', () => {
 
   describe('H2 — Never Activated', () => {
     it('should trigger when not activated and account age > 7 days', () => {
-      const tenDaysAgo = new Date(Date.now() - 10 * 24 * 60 * 60 * 1000);
       const account = createAccount({
         activated: false,
-        created_at: tenDaysAgo.toISOString(),
+        created_at: daysAgo(10),
       });
-      const result = evaluateAccount(account);
+      const result = evaluateAccount(account, { now: NOW });
 
       assert.strictEqual(result.ruleId, 'H2');
       assert.strictEqual(result.riskLevel, 'HIGH');
     });
 
     it('should NOT trigger when account age <= 7 days', () => {
-      const threeDaysAgo = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000);
       const account = createAccount({
         activated: false,
-        created_at: threeDaysAgo.toISOString(),
+        created_at: daysAgo(3),
       });
-      const result = evaluateAccount(account);
+      const result = evaluateAccount(account, { now: NOW });
 
       assert.notStrictEqual(result.ruleId, 'H2');
     });
@@ -77,39 +80,36 @@ describe('Rules Engine', () => {
 
   describe('H1 — Silent Drop-off', () => {
     it('should trigger for DAILY users inactive > 7 days', () => {
-      const eightDaysAgo = new Date(Date.now() - 8 * 24 * 60 * 60 * 1000);
       const account = createAccount({
         usage_freq: 'DAILY',
         activated: true,
-        last_active_at: eightDaysAgo.toISOString(),
+        last_active_at: daysAgo(8),
       });
-      const result = evaluateAccount(account);
+      const result = evaluateAccount(account, { now: NOW });
 
       assert.strictEqual(result.ruleId, 'H1');
       assert.strictEqual(result.riskLevel, 'HIGH');
     });
 
     it('should trigger for WEEKLY users inactive > 14 days', () => {
-      const fifteenDaysAgo = new Date(Date.now() - 15 * 24 * 60 * 60 * 1000);
       const account = createAccount({
         usage_freq: 'WEEKLY',
         activated: true,
-        last_active_at: fifteenDaysAgo.toISOString(),
+        last_active_at: daysAgo(15),
       });
-      const result = evaluateAccount(account);
+      const result = evaluateAccount(account, { now: NOW });
 
       assert.strictEqual(result.ruleId, 'H1');
       assert.strictEqual(result.riskLevel, 'HIGH');
     });
 
     it('should NOT trigger for WEEKLY users inactive <= 14 days', () => {
-      const tenDaysAgo = new Date(Date.now() - 10 * 24 * 60 * 60 * 1000);
       const account = createAccount({
         usage_freq: 'WEEKLY',
         activated: true,
-        last_active_at: tenDaysAgo.toISOString(),
+        last_active_at: daysAgo(10),
       });
-      const result = evaluateAccount(account);
+      const result = evaluateAccount(account, { now: NOW });
 
       assert.notStrictEqual(result.ruleId, 'H1');
     });
@@ -117,22 +117,297 @@ describe('Rules Engine', () => {
 
   describe('M1 — Low Engagement', () => {
     it('should trigger when inactive > 4 days and core_used is false', () => {
-      const fiveDaysAgo = new Date(Date.now() - 5 * 24 * 60 * 60 * 1000);
       const account = createAccount({
         core_used: false,
-        last_active_at: fiveDaysAgo.toISOString(),
+        last_active_at: daysAgo(5),
       });
-      const result = evaluateAccount(account);
+      const result = evaluateAccount(account, { now: NOW });
 
       assert.strictEqual(result.ruleId, 'M1');
       assert.strictEqual(result.riskLevel, 'MEDIUM');
     });
   });
 
+  describe('M2 — Card Expiring', () => {
+    it('should trigger when the card expires before the next charge', () => {
+      const account = createAccount({
+        card_expires_at: inDays(10),
+        current_period_end: inDays(20),
+      });
+      const result = evaluateAccount(account, { now: NOW });
+
+      assert.strictEqual(result.ruleId, 'M2');
+      assert.strictEqual(result.riskLevel, 'MEDIUM');
+    });
+
+    it('should NOT trigger when the card outlives the next charge', () => {
+      const account = createAccount({
+        card_expires_at: inDays(20),
+        current_period_end: inDays(10),
+      });
+
+      assert.strictEqual(evaluateAccount(account, { now: NOW }).ruleId, 'G1');
+    });
+
+    it('should rank below payment failure', () => {
+      const account = createAccount({
+        billing_status: 'PAYMENT_FAILED',
+        card_expires_at: inDays(-5),
+        current_period_end: inDays(20),
+      });
+
+      assert.strictEqual(evaluateAccount(account, { now: NOW }).ruleId, 'H3');
+    });
+  });
+
+  describe('M3 — Contraction / Downgrade', () => {
+    const snapshot = (mrr: number, age: number) => ({
+      mrr,
+      currency: 'usd',
+      billing_status: 'ACTIVE' as const,
+      created_at: daysAgo(age),
+    });
+
+    it('should trigger when MRR fell more than the threshold from its recent peak', () => {
+      const account = createAccount({ mrr: 49 });
+      const result = evaluateAccount(account, {
+        now: NOW,
+        history: { [account._id]: [snapshot(299, 7), snapshot(299, 1)] },
+      });
+
+      assert.strictEqual(result.ruleId, 'M3');
+      assert.strictEqual(result.reason, 'MRR dropped from $299 to $49 in the last 30 days.');
+    });
+
+    it('should NOT trigger for a drop within the threshold', () => {
+      const account = createAccount({ mrr: 80 });
+      const result = evaluateAccount(account, {
+        now: NOW,
+        history: { [account._id]: [snapshot(100, 7)] },
+      });
+
+      assert.strictEqual(result.ruleId, 'G1');
+    });
+
+    it('should respect a configured threshold', () => {
+      const account = createAccount({ mrr: 80 });
+      const result = evaluateAccount(account, {
+        now: NOW,
+        history: { [account._id]: [snapshot(100, 7)] },
+        settings: resolveRuleSettings({ contractionThreshold: 0.1 }),
+      });
+
+      assert.strictEqual(result.ruleId, 'M3');
+    });
+
+    it('should ignore snapshots older than 30 days', () => {
+      const account = createAccount({ mrr: 49 });
+      const result = evaluateAccount(account, {
+        now: NOW,
+        history: { [account._id]: [snapshot(299, 45)] },
+      });
+
+      assert.strictEqual(result.ruleId, 'G1');
+    });
+  });
+
+  describe('Founder settings', () => {
+    it('should use a founder inactivity threshold for H1', () => {
+      const account = createAccount({ last_active_at: daysAgo(20) });
+
+      assert.strictEqual(evaluateAccount(account, { now: NOW }).ruleId, 'H1');
+      assert.strictEqual(
+        evaluateAccount(account, {
+          now: NOW,
+          settings: resolveRuleSettings({ inactiveDays: { WEEKLY: 35 } }),
+        }).ruleId,
+        'G1',
+      );
+    });
+
+    it('should skip disabled rules and fall through to the next match', () => {
+      const account = createAccount({
+        cancel_at_period_end: true,
+        billing_status: 'PAYMENT_FAILED',
+      });
+      const result = evaluateAccount(account, {
+        now: NOW,
+        settings: resolveRuleSettings({ disabledRules: ['H4'] }),
+      });
+
+      assert.strictEqual(result.ruleId, 'H3');
+    });
+  });
+
+  describe("'all' mode", () => {
+    it('should report every matching rule with the first match as primary', () => {
+      const account = createAccount({
+        billing_status: 'PAYMENT_FAILED',
+        last_active_at: daysAgo(30),
+        core_used: false,
+      });
+      const result = evaluateAccount(account, { now: NOW, mode: 'all' });
+
+      assert.strictEqual(result.ruleId, 'H3');
+      assert.deepStrictEqual(
+        result.signals?.map((s) => s.ruleId),
+        ['H3', 'H1', 'M1'],
+      );
+      assert.strictEqual(result.severity, 'CRITICAL');
+    });
+
+    it('should combine a single HIGH with MEDIUMs into HIGH', () => {
+      const account = createAccount({
+        billing_status: 'PAYMENT_FAILED',
+        last_active_at: daysAgo(5),
+        core_used: false,
+      });
+      const result = evaluateAccount(account, { now: NOW, mode: 'all' });
+
+      assert.deepStrictEqual(
+        result.signals?.map((s) => s.ruleId),
+        ['H3', 'M1'],
+      );
+      assert.strictEqual(result.severity, 'HIGH');
+    });
+
+    it('should return no signals for a healthy account', () => {
+      const result = evaluateAccount(createAccount(), { now: NOW, mode: 'all' });
+
+      assert.strictEqual(result.ruleId, 'G1');
+      assert.deepStrictEqual(result.signals, []);
+      assert.strictEqual(result.severity, 'HEALTHY');
+    });
+
+    it('should leave first-match results unchanged by default', () => {
+      const result = evaluateAccount(createAccount({ billing_status: 'PAYMENT_FAILED' }), {
+        now: NOW,
+      });
+
+      assert.strictEqual(result.signals, undefined);
+      assert.strictEqual(result.severity, undefined);
+    });
+  });
+
+  describe('as-of evaluation', () => {
+    const now = new Date('2026-03-20T12:00:00Z');
+
+    it('should count days from the given instant instead of the wall clock', () => {
+      const account = createAccount({ last_active_at: '2026-03-05T12:00:00Z' });
+
+      assert.strictEqual(evaluateAccount(account, { now }).ruleId, 'H1');
+      assert.strictEqual(
+        evaluateAccount(account, { now: new Date('2026-03-19T12:00:00Z') }).ruleId,
+        'G1',
+      );
+    });
+
+    it("should put the inactivity boundary at the founder's local midnight", () => {
+      // 16:00 UTC on the 19th is already the 20th in Tokyo: 14 days in UTC, 15 there
+      const account = createAccount({ last_active_at: '2026-03-05T10:00:00Z' });
+      const asOf = new Date('2026-03-19T16:00:00Z');
+
+      assert.strictEqual(evaluateAccount(account, { now: asOf }).ruleId, 'G1');
+      assert.strictEqual(
+        evaluateAccount(account, { now: asOf, timeZone: 'Asia/Tokyo' }).ruleId,
+        'H1',
+      );
+    });
+
+    it('should ignore snapshots taken after the evaluation instant', () => {
+      const account = createAccount({ mrr: 49 });
+      const history = {
+        'test-account-1': [
+          {
+            mrr: 100,
+            currency: 'usd',
+            billing_status: 'ACTIVE' as const,
+            created_at: '2026-03-25T00:00:00Z',
+          },
+        ],
+      };
+
+      assert.strictEqual(evaluateAccount(account, { now, history }).ruleId, 'G1');
+      assert.strictEqual(
+        evaluateAccount(account, { now: new Date('2026-03-26T00:00:00Z'), history }).ruleId,
+        'M3',
+      );
+    });
+  });
+
+  describe('trace', () => {
+    it('should trace every rule in the pack, in order, with the values it read', () => {
+      const account = createAccount({ last_active_at: daysAgo(20) });
+      const result = evaluateAccount(account, { now: NOW, trace: true });
+
+      assert.strictEqual(result.ruleId, 'H1');
+      assert.deepStrictEqual(
+        result.trace?.map((t) => t.ruleId),
+        ['H4', 'H3', 'H2', 'H1', 'M2', 'M3', 'M1', 'G1'],
+      );
+
+      const h1 = result.trace?.find((t) => t.ruleId === 'H1');
+      assert.strictEqual(h1?.matched, true);
+      assert.strictEqual(h1?.values.daysSinceActive, 20);
+      assert.strictEqual(h1?.values.inactiveDays, 14);
+
+      const h3 = result.trace?.find((t) => t.ruleId === 'H3');
+      assert.strictEqual(h3?.matched, false);
+      assert.strictEqual(h3?.values.billing_status, 'ACTIVE');
+    });
+
+    it('should keep evaluating after the first match without changing the result', () => {
+      const account = createAccount({
+        cancel_at_period_end: true,
+        billing_status: 'PAYMENT_FAILED',
+      });
+      const result = evaluateAccount(account, { now: NOW, trace: true });
+
+      assert.strictEqual(result.ruleId, 'H4');
+      assert.strictEqual(result.signals, undefined);
+      assert.deepStrictEqual(
+        result.trace?.filter((t) => t.matched).map((t) => t.ruleId),
+        ['H4', 'H3', 'G1'],
+      );
+    });
+
+    it('should mark disabled rules as not evaluated', () => {
+      const account = createAccount({ cancel_at_period_end: true });
+      const result = evaluateAccount(account, {
+        now: NOW,
+        settings: resolveRuleSettings({ disabledRules: ['H4'] }),
+        trace: true,
+      });
+      const h4 = result.trace?.find((t) => t.ruleId === 'H4');
+
+      assert.strictEqual(result.ruleId, 'G1');
+      assert.strictEqual(h4?.disabled, true);
+      assert.strictEqual(h4?.matched, false);
+    });
+
+    it('should record the inputs the rules read', () => {
+      const now = new Date('2026-03-20T12:00:00Z');
+      const account = createAccount({ last_active_at: '2026-03-10T12:00:00Z' });
+      const { inputs } = evaluateAccount(account, { now, trace: true });
+
+      assert.strictEqual(inputs?.mrr, account.mrr);
+      assert.strictEqual(inputs?.billing_status, 'ACTIVE');
+      assert.strictEqual(inputs?.daysSinceActive, 10);
+      assert.strictEqual(inputs?.asOf, now.toISOString());
+    });
+
+    it('should not trace unless asked', () => {
+      const result = evaluateAccount(createAccount(), { now: NOW });
+
+      assert.strictEqual(result.trace, undefined);
+      assert.strictEqual(result.inputs, undefined);
+    });
+  });
+
   describe('Healthy (Default)', () => {
     it('should return HEALTHY for active users with core usage', () => {
       const account = createAccount(); // Defaults are healthy
-      const result = evaluateAccount(account);
+      const result = evaluateAccount(account, { now: NOW });
 
       assert.strictEqual(result.ruleId, 'G1');
       assert.strictEqual(result.riskLevel, 'HEALTHY');
@@ -146,21 +421,92 @@ describe('Rules Engine', () => {
         cancel_at_period_end: true,
         billing_status: 'PAYMENT_FAILED',
       });
-      const result = evaluateAccount(account);
+      const result = evaluateAccount(account, { now: NOW });
 
       assert.strictEqual(result.ruleId, 'H4', 'H4 should take priority over H3');
     });
 
     it('should return H3 (Payment Failure) over H1 (Silent Drop-off)', () => {
-      const tenDaysAgo = new Date(Date.now() - 10 * 24 * 60 * 60 * 1000);
       const account = createAccount({
         billing_status: 'PAYMENT_FAILED',
         usage_freq: 'DAILY',
-        last_active_at: tenDaysAgo.toISOString(),
+        last_active_at: daysAgo(10),
       });
-      const result = evaluateAccount(account);
+      const result = evaluateAccount(account, { now: NOW });
 
       assert.strictEqual(result.ruleId, 'H3', 'H3 should take priority over H1');
     });
   });
+
+  describe('BILLING_ONLY rule pack', () => {
+    const billingOnly = { now: NOW, rulePack: 'BILLING_ONLY' as const };
+
+    it('should never use activity rules', () => {
+      const account = createAccount({
+        activated: false,
+        core_used: false,
+        last_active_at: null,
+        created_at: daysAgo(90),
+      });
+      const result = evaluateAccount(account, billingOnly);
+
+      assert.strictEqual(result.ruleId, 'G1');
+      assert.strictEqual(result.riskLevel, 'HEALTHY');
+    });
+
+    it('should flag scheduled cancellations first', () => {
+      const account = createAccount({
+        cancel_at_period_end: true,
+        oldest_unpaid_invoice_at: daysAgo(30),
+      });
+
+      assert.strictEqual(evaluateAccount(account, billingOnly).ruleId, 'H4');
+    });
+
+    it('should flag invoices unpaid for more than 14 days', () => {
+      const account = createAccount({
+        billing_status: 'PAYMENT_FAILED',
+        oldest_unpaid_invoice_at: daysAgo(20),
+      });
+      const result = evaluateAccount(account, billingOnly);
+
+      assert.strictEqual(result.ruleId, 'H5');
+      assert.strictEqual(result.reason, 'Invoice has been unpaid for 20 days.');
+    });
+
+    it('should flag a recent failed payment', () => {
+      const account = createAccount({ last_payment_failed_at: daysAgo(3) });
+      const result = evaluateAccount(account, billingOnly);
+
+      assert.strictEqual(result.ruleId, 'H6');
+      assert.strictEqual(result.riskLevel, 'HIGH');
+    });
+
+    it('should NOT flag a payment failure older than 14 days', () => {
+      const account = createAccount({ last_payment_failed_at: daysAgo(20) });
+
+      assert.strictEqual(evaluateAccount(account, billingOnly).ruleId, 'G1');
+    });
+
+    it('should flag a card expiring within 30 days', () => {
+      const inTwoWeeks = inDays(14);
+      const account = createAccount({ card_expires_at: inTwoWeeks });
+      const result = evaluateAccount(account, billingOnly);
+
+      assert.strictEqual(result.ruleId, 'M2');
+      assert.strictEqual(result.riskLevel, 'MEDIUM');
+    });
+
+    it('should flag a recent downgrade', () => {
+      const account = createAccount({ downgraded_at: daysAgo(10) });
+
+      assert.strictEqual(evaluateAccount(account, billingOnly).ruleId, 'M3');
+    });
+
+    it('should leave the default pack unchanged', () => {
+      const account = createAccount({ activated: false, created_at: daysAgo(90) });
+
+      assert.strictEqual(evaluateAccount(account, { now: NOW }).ruleId, 'H2');
+    });
+  });
 });
@@ -1,47 +1,184 @@
-import { differenceInDays } from 'date-fns';
-import { RULES_IN_ORDER } from './rules.js';
-import type { Account } from './types.js';
+import { type Clock, DEFAULT_TIME_ZONE, daysSince } from './dates.js';
+import { type CustomRule, mergeRules } from './dsl.js';
+import { RULE_PACKS } from './rules.js';
+import { DEFAULT_RULE_SETTINGS, type RuleSettings } from './settings.js';
+import type {
+  Account,
+  AccountSnapshot,
+  ChurnRule,
+  EvaluationContext,
+  RulePackId,
+  RuleSignal,
+  RuleTrace,
+  Severity,
+  TraceValues,
+} from './types.js';
 import type { RuleResult } from './types.js';
 
-function daysSince(date: string | null): number | null {
-  if (!date) return null;
-  return differenceInDays(new Date(), new Date(date));
+export interface EvaluateOptions {
+  /**
+   * BILLING_ONLY for accounts with no usage data (e.g. the free audit),
+   * so activity rules never fire on placeholder values
+   */
+  rulePack?: RulePackId;
+  /** Previous snapshots keyed by account ID, oldest first */
+  history?: Record<string, AccountSnapshot[]>;
+  /** The founder's rule settings; built-in defaults when omitted */
+  settings?: RuleSettings;
+  /** Founder-defined rules merged into the pack */
+  customRules?: CustomRule[];
+  /**
+   * first: stop at the first matching rule (default)
+   * all: also report every other rule that fires, with a combined severity
+   */
+  mode?: 'first' | 'all';
+  /** Record every rule's condition, inputs and outcome on the result */
+  trace?: boolean;
+  /** Evaluate as of this instant instead of the current time */
+  now?: Date;
+  /** IANA zone of the founder; day counts follow its calendar (default UTC) */
+  timeZone?: string;
 }
 
-export function evaluateAccount(account: Account): RuleResult {
-  const accountAgeDays = daysSince(account.created_at) ?? 0;
-  const daysSinceActive = daysSince(account.last_active_at);
-
-  for (const rule of RULES_IN_ORDER) {
-    const matches = rule.evaluate(account, accountAgeDays, daysSinceActive);
-
-    if (matches) {
-      return {
-        ruleId: rule.id,
-        ruleName: rule.name,
-        riskLevel: rule.riskLevel,
-        reason: rule.getReason(account),
-        suggestedAction: rule.suggestedAction,
-      };
+const HEALTHY_RESULT: RuleResult = {
+  ruleId: 'G1',
+  ruleName: 'Healthy',
+  riskLevel: 'HEALTHY',
+  reason: 'Healthy usage patterns.',
+  suggestedAction: 'DO_NOTHING',
+};
+
+/**
+ * CRITICAL when more than one HIGH rule fires, otherwise the highest level
+ */
+export function combineSeverity(signals: RuleSignal[]): Severity {
+  const highCount = signals.filter((s) => s.riskLevel === 'HIGH').length;
+
+  if (highCount > 1) return 'CRITICAL';
+  if (highCount === 1) return 'HIGH';
+  if (signals.some((s) => s.riskLevel === 'MEDIUM')) return 'MEDIUM';
+  return 'HEALTHY';
+}
+
+export function evaluateAccount(account: Account, options: EvaluateOptions = {}): RuleResult {
+  const clock: Clock = {
+    now: options.now ?? new Date(),
+    timeZone: options.timeZone ?? DEFAULT_TIME_ZONE,
+  };
+  const asOf = clock.now.toISOString();
+
+  const context: EvaluationContext = {
+    accountAgeDays: daysSince(account.created_at, clock) ?? 0,
+    daysSinceActive: daysSince(account.last_active_at, clock),
+    // Snapshots taken after the evaluation instant were not known then
+    history: (options.history?.[account._id] ?? []).filter((s) => s.created_at <= asOf),
+    settings: options.settings ?? DEFAULT_RULE_SETTINGS,
+    clock,
+  };
+
+  const rules = mergeRules(RULE_PACKS[options.rulePack ?? 'DEFAULT'], options.customRules ?? []);
+
+  const signals: RuleSignal[] = [];
+  const trace: RuleTrace[] = [];
+  let primary: RuleResult | null = null;
+
+  for (const rule of rules) {
+    const disabled = context.settings.disabledRules.includes(rule.id);
+    const matched = !disabled && rule.evaluate(account, context);
+
+    if (options.trace) trace.push(traceRule(rule, account, context, matched, disabled));
+    if (!matched) continue;
+
+    // Past the first match in 'first' mode, keep going only to finish the trace
+    if (primary && options.mode !== 'all') continue;
+
+    const result: RuleResult = {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      riskLevel: rule.riskLevel,
+      reason: rule.getReason(account, context),
+      suggestedAction: rule.suggestedAction,
+    };
+
+    primary ??= result;
+
+    if (options.mode !== 'all') {
+      if (!options.trace) return result;
+      continue;
     }
+
+    if (rule.riskLevel !== 'HEALTHY') {
+      signals.push({
+        ruleId: result.ruleId,
+        ruleName: result.ruleName,
+        riskLevel: result.riskLevel,
+        reason: result.reason,
+      });
+    }
+  }
+
+  const result: RuleResult = { ...(primary ?? HEALTHY_RESULT) };
+
+  if (options.mode === 'all') {
+    result.signals = signals;
+    result.severity = combineSeverity(signals);
+  }
+
+  if (options.trace) {
+    result.trace = trace;
+    result.inputs = evaluationInputs(account, context);
   }
 
+  return result;
+}
+
+/**
+ * What the rules saw for this account, as of the evaluation instant
+ */
+function evaluationInputs(account: Account, context: EvaluationContext): TraceValues {
+  return {
+    mrr: account.mrr,
+    currency: account.currency,
+    billing_status: account.billing_status,
+    cancel_at_period_end: account.cancel_at_period_end,
+    usage_freq: account.usage_freq,
+    activated: account.activated,
+    core_used: account.core_used,
+    daysSinceActive: context.daysSinceActive,
+    accountAgeDays: context.accountAgeDays,
+    asOf: context.clock.now.toISOString(),
+    timeZone: context.clock.timeZone,
+  };
+}
+
+function traceRule(
+  rule: ChurnRule,
+  account: Account,
+  context: EvaluationContext,
+  matched: boolean,
+  disabled: boolean,
+): RuleTrace {
+  const check = rule.explain?.(account, context) ?? { condition: rule.name, values: {} };
+
   return {
-    ruleId: 'G1',
-    ruleName: 'Healthy',
-    riskLevel: 'HEALTHY',
-    reason: 'Healthy usage patterns.',
-    suggestedAction: 'DO_NOTHING',
+    ruleId: rule.id,
+    ruleName: rule.name,
+    riskLevel: rule.riskLevel,
+    ...check,
+    matched,
+    disabled,
   };
 }
 
 export function evaluateAccounts(
   accounts: Account[],
-  options: { riskOnly?: boolean } = {},
+  options: EvaluateOptions & { riskOnly?: boolean } = {},
 ): Array<{ account: Account; result: RuleResult }> {
+  // One instant for the whole batch, so accounts are compared on the same day
+  const batchOptions = { ...options, now: options.now ?? new Date() };
   const results = accounts.map((account) => ({
     account,
-    result: evaluateAccount(account),
+    result: evaluateAccount(account, batchOptions),
   }));
 
   if (options.riskOnly) {
@@ -53,8 +190,9 @@ export function evaluateAccounts(
 
 export function groupByRisk(
   accounts: Account[],
+  options: EvaluateOptions = {},
 ): Record<'HIGH' | 'MEDIUM' | 'HEALTHY', Array<{ account: Account; result: RuleResult }>> {
-  const results = evaluateAccounts(accounts);
+  const results = evaluateAccounts(accounts, options);
 
   return {
     HIGH: results.filter((r) => r.result.riskLevel === 'HIGH'),
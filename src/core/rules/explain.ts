@@ -0,0 +1,56 @@
+import {
+  type Account,
+  type AccountSnapshot,
+  type DecisionLog,
+  type Founder,
+  api,
+  convex,
+} from '../../lib/convex.js';
+import { evaluateAccount } from './engine.js';
+import { loadCustomRules, loadRuleSettings } from './store.js';
+import type { RuleResult } from './types.js';
+
+export interface AccountExplanation {
+  account: Account;
+  /** A fresh evaluation, with every matching rule and the full trace */
+  evaluation: RuleResult;
+  /** Earlier decisions for this account, newest first */
+  decisions: DecisionLog[];
+}
+
+/**
+ * Evaluate one account with tracing on, answering "why is this account flagged?".
+ * `asOf` replays the evaluation at a past instant.
+ * Returns null when the account does not exist or belongs to another founder.
+ */
+export async function explainAccount(
+  founderId: string,
+  accountId: string,
+  options: { asOf?: Date } = {},
+): Promise<AccountExplanation | null> {
+  const account = (await convex.query(api.accounts.getAccountById, {
+    id: accountId,
+  })) as Account | null;
+
+  if (!account || account.founder_id !== founderId) return null;
+
+  const [founder, snapshots, settings, customRules, decisions] = await Promise.all([
+    convex.query(api.founders.getFounderById, { id: founderId }) as Promise<Founder | null>,
+    convex.query(api.snapshots.getSnapshotsByAccount, { accountId }) as Promise<AccountSnapshot[]>,
+    loadRuleSettings(founderId),
+    loadCustomRules(founderId),
+    convex.query(api.logs.getDecisionLogsByAccount, { accountId }) as Promise<DecisionLog[]>,
+  ]);
+
+  const evaluation = evaluateAccount(account, {
+    now: options.asOf,
+    timeZone: founder?.time_zone ?? undefined,
+    history: { [account._id]: snapshots },
+    settings,
+    customRules,
+    mode: 'all',
+    trace: true,
+  });
+
+  return { account, evaluation, decisions };
+}
@@ -1,4 +1,15 @@
-import type { Account, ChurnRule } from './types.js';
+import { formatMoney } from '../currency/format.js';
+import { daysSince, daysUntil } from './dates.js';
+import type { Account, ChurnRule, EvaluationContext, RulePackId } from './types.js';
+
+/**
+ * Fixed windows, declared on the rules that use them so the rule-pack hash
+ * changes with them
+ */
+const LONG_UNPAID_DAYS = 14;
+const RECENT_FAILURE_DAYS = 14;
+const CARD_EXPIRY_WINDOW_DAYS = 30;
+const CONTRACTION_WINDOW_DAYS = 30;
 
 export const H4_PreCancel: ChurnRule = {
   id: 'H4',
@@ -7,6 +18,10 @@ export const H4_PreCancel: ChurnRule = {
   suggestedAction: 'SEND_MESSAGE',
   evaluate: (account: Account) => account.cancel_at_period_end === true,
   getReason: () => 'User has requested to cancel at period end.',
+  explain: (account: Account) => ({
+    condition: 'cancel_at_period_end is true',
+    values: { cancel_at_period_end: account.cancel_at_period_end },
+  }),
 };
 
 export const H3_PaymentFailure: ChurnRule = {
@@ -16,6 +31,10 @@ export const H3_PaymentFailure: ChurnRule = {
   suggestedAction: 'SEND_MESSAGE',
   evaluate: (account: Account) => account.billing_status === 'PAYMENT_FAILED',
   getReason: () => 'Payment failed on last invoice.',
+  explain: (account: Account) => ({
+    condition: 'billing_status is PAYMENT_FAILED',
+    values: { billing_status: account.billing_status },
+  }),
 };
 
 export const H2_NeverActivated: ChurnRule = {
@@ -23,9 +42,17 @@ export const H2_NeverActivated: ChurnRule = {
   name: 'Never Activated',
   riskLevel: 'HIGH',
   suggestedAction: 'SEND_MESSAGE',
-  evaluate: (account: Account, accountAgeDays: number) =>
-    account.activated === false && accountAgeDays > 7,
+  evaluate: (account: Account, { accountAgeDays, settings }) =>
+    account.activated === false && accountAgeDays > settings.activationDays,
   getReason: () => 'Never reached first value after signup.',
+  explain: (account: Account, { accountAgeDays, settings }) => ({
+    condition: 'not activated and accountAgeDays > activationDays',
+    values: {
+      activated: account.activated,
+      accountAgeDays,
+      activationDays: settings.activationDays,
+    },
+  }),
 };
 
 export const H1_SilentDropoff: ChurnRule = {
@@ -33,16 +60,24 @@ export const H1_SilentDropoff: ChurnRule = {
   name: 'Silent Drop-off',
   riskLevel: 'HIGH',
   suggestedAction: 'SEND_MESSAGE',
-  evaluate: (account: Account, _accountAgeDays: number, daysSinceActive: number | null) => {
+  evaluate: (account: Account, { daysSinceActive, settings }) => {
     if (!account.activated || daysSinceActive === null) return false;
 
-    const threshold = account.usage_freq === 'DAILY' ? 7 : 14;
-    return daysSinceActive > threshold;
+    return daysSinceActive > settings.inactiveDays[account.usage_freq];
   },
   getReason: (account: Account) => {
     const freq = account.usage_freq === 'DAILY' ? 'daily' : 'weekly';
     return `Stopped using product after activation (expected ${freq} usage).`;
   },
+  explain: (account: Account, { daysSinceActive, settings }) => ({
+    condition: 'activated and daysSinceActive > inactiveDays[usage_freq]',
+    values: {
+      activated: account.activated,
+      usage_freq: account.usage_freq,
+      daysSinceActive,
+      inactiveDays: settings.inactiveDays[account.usage_freq],
+    },
+  }),
 };
 
 export const M1_LowEngagement: ChurnRule = {
@@ -50,11 +85,144 @@ export const M1_LowEngagement: ChurnRule = {
   name: 'Low Engagement',
   riskLevel: 'MEDIUM',
   suggestedAction: 'SEND_MESSAGE',
-  evaluate: (account: Account, _accountAgeDays: number, daysSinceActive: number | null) => {
+  evaluate: (account: Account, { daysSinceActive, settings }) => {
     if (daysSinceActive === null) return false;
-    return daysSinceActive > 4 && account.core_used === false;
+    return daysSinceActive > settings.lowEngagementDays && account.core_used === false;
   },
   getReason: () => 'Low engagement, has not used core feature.',
+  explain: (account: Account, { daysSinceActive, settings }) => ({
+    condition: 'core feature unused and daysSinceActive > lowEngagementDays',
+    values: {
+      core_used: account.core_used,
+      daysSinceActive,
+      lowEngagementDays: settings.lowEngagementDays,
+    },
+  }),
+};
+
+export const H5_LongUnpaid: ChurnRule = {
+  id: 'H5',
+  name: 'Long-Unpaid Invoice',
+  riskLevel: 'HIGH',
+  suggestedAction: 'SEND_MESSAGE',
+  params: { thresholdDays: LONG_UNPAID_DAYS },
+  evaluate: (account: Account, { clock }) =>
+    (daysSince(account.oldest_unpaid_invoice_at, clock) ?? 0) > LONG_UNPAID_DAYS,
+  getReason: (account: Account, { clock }) =>
+    `Invoice has been unpaid for ${daysSince(account.oldest_unpaid_invoice_at, clock)} days.`,
+  explain: (account: Account, { clock }) => ({
+    condition: `oldest unpaid invoice is more than ${LONG_UNPAID_DAYS} days old`,
+    values: {
+      daysSinceOldestUnpaidInvoice: daysSince(account.oldest_unpaid_invoice_at, clock),
+      thresholdDays: LONG_UNPAID_DAYS,
+    },
+  }),
+};
+
+export const H6_RecentPaymentFailure: ChurnRule = {
+  id: 'H6',
+  name: 'Recent Payment Failure',
+  riskLevel: 'HIGH',
+  suggestedAction: 'SEND_MESSAGE',
+  params: { thresholdDays: RECENT_FAILURE_DAYS },
+  evaluate: (account: Account, { clock }) => {
+    const days = daysSince(account.last_payment_failed_at, clock);
+    return days !== null && days <= RECENT_FAILURE_DAYS;
+  },
+  getReason: () => 'A payment attempt failed in the last two weeks.',
+  explain: (account: Account, { clock }) => ({
+    condition: `a payment failed within the last ${RECENT_FAILURE_DAYS} days`,
+    values: {
+      daysSinceLastPaymentFailure: daysSince(account.last_payment_failed_at, clock),
+      thresholdDays: RECENT_FAILURE_DAYS,
+    },
+  }),
+};
+
+/**
+ * Flags a card that won't survive until the next charge. Without a known
+ * renewal date, falls back to a 30-day window.
+ */
+export const M2_CardExpiring: ChurnRule = {
+  id: 'M2',
+  name: 'Card Expiring',
+  riskLevel: 'MEDIUM',
+  suggestedAction: 'SEND_MESSAGE',
+  params: { windowDays: CARD_EXPIRY_WINDOW_DAYS },
+  evaluate: (account: Account, { clock }) => {
+    if (!account.card_expires_at) return false;
+
+    if (account.current_period_end) {
+      return new Date(account.card_expires_at) < new Date(account.current_period_end);
+    }
+
+    return (daysUntil(account.card_expires_at, clock) ?? 0) <= CARD_EXPIRY_WINDOW_DAYS;
+  },
+  getReason: (account: Account, { clock }) =>
+    (daysUntil(account.card_expires_at, clock) ?? 0) < 0
+      ? 'Card on file has expired.'
+      : 'Card on file expires before the next charge.',
+  explain: (account: Account, { clock }) => ({
+    condition: account.current_period_end
+      ? 'card expires before current_period_end'
+      : `card expires within ${CARD_EXPIRY_WINDOW_DAYS} days`,
+    values: {
+      card_expires_at: account.card_expires_at ?? null,
+      current_period_end: account.current_period_end ?? null,
+      daysUntilCardExpires: daysUntil(account.card_expires_at, clock),
+    },
+  }),
+};
+
+/**
+ * Highest MRR in the contraction window's snapshots, in the account's currency
+ */
+function recentPeakMrr(account: Account, { history, clock }: EvaluationContext): number | null {
+  const recent = history.filter(
+    (s) =>
+      s.currency === account.currency &&
+      (daysSince(s.created_at, clock) ?? 0) <= CONTRACTION_WINDOW_DAYS,
+  );
+  if (recent.length === 0) return null;
+  return Math.max(...recent.map((s) => s.mrr));
+}
+
+/**
+ * Flags a downgrade reported by the billing provider, or MRR that fell by
+ * more than the contraction threshold against recent snapshots
+ */
+export const M3_Contraction: ChurnRule = {
+  id: 'M3',
+  name: 'Contraction / Downgrade',
+  riskLevel: 'MEDIUM',
+  suggestedAction: 'SEND_MESSAGE',
+  params: { windowDays: CONTRACTION_WINDOW_DAYS },
+  evaluate: (account: Account, context) => {
+    const days = daysSince(account.downgraded_at, context.clock);
+    if (days !== null && days <= CONTRACTION_WINDOW_DAYS) return true;
+
+    const peak = recentPeakMrr(account, context);
+    const { contractionThreshold } = context.settings;
+    return peak !== null && peak > 0 && (peak - account.mrr) / peak > contractionThreshold;
+  },
+  getReason: (account: Account, context) => {
+    const peak = recentPeakMrr(account, context);
+
+    if (peak !== null && peak > account.mrr) {
+      return `MRR dropped from ${formatMoney(peak, account.currency)} to ${formatMoney(account.mrr, account.currency)} in the last ${CONTRACTION_WINDOW_DAYS} days.`;
+    }
+
+    return `Downgraded their plan in the last ${CONTRACTION_WINDOW_DAYS} days.`;
+  },
+  explain: (account: Account, context) => ({
+    condition: `downgraded within ${CONTRACTION_WINDOW_DAYS} days, or MRR fell from the ${CONTRACTION_WINDOW_DAYS}-day peak by > contractionThreshold`,
+    values: {
+      daysSinceDowngrade: daysSince(account.downgraded_at, context.clock),
+      peakMrr: recentPeakMrr(account, context),
+      mrr: account.mrr,
+      contractionThreshold: context.settings.contractionThreshold,
+    },
+  }),
 };
 
 export const Healthy: ChurnRule = {
@@ -64,6 +232,7 @@ export const Healthy: ChurnRule = {
   suggestedAction: 'DO_NOTHING',
   evaluate: () => true,
   getReason: () => 'Healthy usage patterns.',
+  explain: () => ({ condition: 'no earlier rule matched', values: {} }),
 };
 
 export const RULES_IN_ORDER: ChurnRule[] = [
@@ -71,6 +240,51 @@ export const RULES_IN_ORDER: ChurnRule[] = [
   H3_PaymentFailure,
   H2_NeverActivated,
   H1_SilentDropoff,
+  M2_CardExpiring,
+  M3_Contraction,
   M1_LowEngagement,
   Healthy,
 ];
+
+export const BillingHealthy: ChurnRule = {
+  ...Healthy,
+  getReason: () => 'No billing issues found.',
+};
+
+/**
+ * Billing-only pack: never reads activity fields, which are placeholders
+ * when there is no usage data
+ */
+export const BILLING_RULES_IN_ORDER: ChurnRule[] = [
+  H4_PreCancel,
+  H5_LongUnpaid,
+  H3_PaymentFailure,
+  H6_RecentPaymentFailure,
+  M2_CardExpiring,
+  M3_Contraction,
+  BillingHealthy,
+];
+
+export const RULE_PACKS: Record<RulePackId, ChurnRule[]> = {
+  DEFAULT: RULES_IN_ORDER,
+  BILLING_ONLY: BILLING_RULES_IN_ORDER,
+};
+
+/**
+ * Bump when a built-in rule's code changes, including helpers like the day
+ * counting, so decision logs from before and after the change can be told
+ * apart. Changes to declared params and order already change the hash.
+ */
+export const RULE_PACK_VERSION = '2026-10-19';
+
+/**
+ * Every rule a founder can turn off (all but the healthy default)
+ */
+export const CONFIGURABLE_RULES: ChurnRule[] = [
+  ...new Map(
+    Object.values(RULE_PACKS)
+      .flat()
+      .filter((rule) => rule.id !== Healthy.id)
+      .map((rule) => [rule.id, rule]),
+  ).values(),
+];
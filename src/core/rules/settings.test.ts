@@ -0,0 +1,37 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import {
+  DEFAULT_RULE_SETTINGS,
+  RuleSettingsUpdateSchema,
+  resolveRuleSettings,
+} from './settings.js';
+
+describe('Rule settings', () => {
+  it('should default to the built-in thresholds', () => {
+    assert.deepStrictEqual(resolveRuleSettings(), DEFAULT_RULE_SETTINGS);
+  });
+
+  it('should merge partial overrides over the defaults', () => {
+    const settings = resolveRuleSettings({ inactiveDays: { WEEKLY: 45 }, activationDays: 14 });
+
+    assert.strictEqual(settings.activationDays, 14);
+    assert.deepStrictEqual(settings.inactiveDays, { DAILY: 7, WEEKLY: 45 });
+    assert.strictEqual(settings.lowEngagementDays, 4);
+  });
+
+  it('should reject unknown rule IDs and unknown keys', () => {
+    assert.strictEqual(
+      RuleSettingsUpdateSchema.safeParse({ disabledRules: ['X9'] }).success,
+      false,
+    );
+    assert.strictEqual(RuleSettingsUpdateSchema.safeParse({ h1Days: 30 }).success, false);
+  });
+
+  it('should reject out-of-range thresholds', () => {
+    assert.strictEqual(RuleSettingsUpdateSchema.safeParse({ activationDays: 0 }).success, false);
+    assert.strictEqual(
+      RuleSettingsUpdateSchema.safeParse({ contractionThreshold: 1.5 }).success,
+      false,
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { CONFIGURABLE_RULES } from './rules.js';
+
+/**
+ * Per-founder rule configuration.
+ *
+ * Every field is optional in storage and in the settings API; missing
+ * values fall back to the built-in defaults below.
+ */
+
+const days = z.number().int().min(1).max(365);
+
+export const RuleSettingsSchema = z.object({
+  /** H2: days after signup before a non-activated account is flagged */
+  activationDays: days,
+  /** H1: days of inactivity before an activated account is flagged, per usage frequency */
+  inactiveDays: z.object({ DAILY: days, WEEKLY: days }),
+  /** M1: days of inactivity before low core-feature usage is flagged */
+  lowEngagementDays: days,
+  /** M3: MRR drop from the recent peak, as a fraction, that counts as contraction */
+  contractionThreshold: z.number().gt(0).lt(1),
+  /** Rule IDs that never fire for this founder */
+  disabledRules: z
+    .array(
+      z.string().refine((id) => CONFIGURABLE_RULES.some((rule) => rule.id === id), {
+        message: 'Unknown rule ID',
+      }),
+    )
+    .max(50),
+});
+
+export type RuleSettings = z.infer<typeof RuleSettingsSchema>;
+
+export const DEFAULT_RULE_SETTINGS: RuleSettings = {
+  activationDays: 7,
+  inactiveDays: { DAILY: 7, WEEKLY: 14 },
+  lowEngagementDays: 4,
+  contractionThreshold: 0.3,
+  disabledRules: [],
+};
+
+/**
+ * Overrides accepted by the settings API and stored per founder.
+ * Unknown keys are rejected.
+ */
+export const RuleSettingsUpdateSchema = RuleSettingsSchema.extend({
+  inactiveDays: RuleSettingsSchema.shape.inactiveDays.partial(),
+})
+  .partial()
+  .strict();
+
+export type RuleSettingsUpdate = z.infer<typeof RuleSettingsUpdateSchema>;
+
+/**
+ * Fill in defaults for anything not set
+ */
+export function resolveRuleSettings(overrides: RuleSettingsUpdate = {}): RuleSettings {
+  const defaults = DEFAULT_RULE_SETTINGS;
+
+  return {
+    activationDays: overrides.activationDays ?? defaults.activationDays,
+    inactiveDays: {
+      DAILY: overrides.inactiveDays?.DAILY ?? defaults.inactiveDays.DAILY,
+      WEEKLY: overrides.inactiveDays?.WEEKLY ?? defaults.inactiveDays.WEEKLY,
+    },
+    lowEngagementDays: overrides.lowEngagementDays ?? defaults.lowEngagementDays,
+    contractionThreshold: overrides.contractionThreshold ?? defaults.contractionThreshold,
+    disabledRules: overrides.disabledRules ?? defaults.disabledRules,
+  };
+}
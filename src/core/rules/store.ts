@@ -0,0 +1,119 @@
+import {
+  type CustomRuleRow,
+  type DecisionLog,
+  type RuleSettingsRow,
+  api,
+  convex,
+} from '../../lib/convex.js';
+import { type CustomRule, CustomRuleSchema } from './dsl.js';
+import { type RuleSettings, type RuleSettingsUpdate, resolveRuleSettings } from './settings.js';
+
+/**
+ * The founder's stored overrides, without defaults applied
+ */
+export async function loadRuleOverrides(founderId: string): Promise<RuleSettingsUpdate> {
+  const row = (await convex.query(api.settings.getRuleSettings, {
+    founderId,
+  })) as RuleSettingsRow | null;
+
+  if (!row) return {};
+
+  return {
+    activationDays: row.activation_days ?? undefined,
+    inactiveDays: {
+      DAILY: row.inactive_days_daily ?? undefined,
+      WEEKLY: row.inactive_days_weekly ?? undefined,
+    },
+    lowEngagementDays: row.low_engagement_days ?? undefined,
+    contractionThreshold: row.contraction_threshold ?? undefined,
+    disabledRules: row.disabled_rules,
+  };
+}
+
+/**
+ * The founder's rule settings with defaults filled in
+ */
+export async function loadRuleSettings(founderId: string): Promise<RuleSettings> {
+  return resolveRuleSettings(await loadRuleOverrides(founderId));
+}
+
+/**
+ * Replace the founder's overrides; returns the resolved settings
+ */
+export async function saveRuleSettings(
+  founderId: string,
+  overrides: RuleSettingsUpdate,
+): Promise<RuleSettings> {
+  await convex.mutation(api.settings.setRuleSettings, {
+    founderId,
+    activation_days: overrides.activationDays,
+    inactive_days_daily: overrides.inactiveDays?.DAILY,
+    inactive_days_weekly: overrides.inactiveDays?.WEEKLY,
+    low_engagement_days: overrides.lowEngagementDays,
+    contraction_threshold: overrides.contractionThreshold,
+    disabled_rules: overrides.disabledRules,
+  });
+
+  return resolveRuleSettings(overrides);
+}
+
+/**
+ * The founder's custom rules, in creation order.
+ * Rows that no longer validate (e.g. a field was removed) are skipped.
+ */
+export async function loadCustomRules(founderId: string): Promise<CustomRule[]> {
+  const rows = (await convex.query(api.settings.getCustomRulesByFounder, {
+    founderId,
+  })) as CustomRuleRow[];
+
+  const rules: CustomRule[] = [];
+
+  for (const row of [...rows].sort((a, b) => a.created_at.localeCompare(b.created_at))) {
+    const parsed = CustomRuleSchema.safeParse({
+      id: row.rule_id,
+      name: row.name,
+      riskLevel: row.risk_level,
+      action: row.action,
+      reason: row.reason,
+      when: row.condition,
+      insertBefore: row.insert_before ?? undefined,
+    });
+
+    if (parsed.success) {
+      rules.push(parsed.data);
+    } else {
+      console.warn(`Skipping invalid custom rule ${row.rule_id} for founder ${founderId}`);
+    }
+  }
+
+  return rules;
+}
+
+export async function saveCustomRule(founderId: string, rule: CustomRule): Promise<void> {
+  await convex.mutation(api.settings.upsertCustomRule, {
+    founderId,
+    ruleId: rule.id,
+    name: rule.name,
+    riskLevel: rule.riskLevel,
+    action: rule.action,
+    reason: rule.reason,
+    condition: rule.when,
+    insertBefore: rule.insertBefore,
+  });
+}
+
+/**
+ * The founder's versioned decisions, newest first.
+ * Filter by rule-pack version, and optionally by hash within it.
+ */
+export async function loadDecisionsByVersion(
+  founderId: string,
+  filter: { version?: string; hash?: string } = {},
+): Promise<DecisionLog[]> {
+  const decisions = (await convex.query(api.logs.getDecisionLogsByVersion, {
+    founderId,
+    version: filter.version,
+  })) as DecisionLog[];
+
+  return filter.hash ? decisions.filter((d) => d.rule_hash === filter.hash) : decisions;
+}
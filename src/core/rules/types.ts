@@ -1,3 +1,6 @@
+import type { Clock } from './dates.js';
+import type { RuleSettings } from './settings.js';
+
 /**
  * Account type for rule evaluation (Convex format with _id)
  */
@@ -7,6 +10,7 @@ export interface Account {
   email: string;
   name: string | null;
   mrr: number;
+  currency: string;
   last_active_at: string | null;
   activated: boolean;
   core_used: boolean;
@@ -17,8 +21,21 @@ export interface Account {
   stripe_subscription_id: string | null;
   created_at: string;
   updated_at: string;
+  /** Billing signals, set only where the billing provider exposes them */
+  last_payment_failed_at?: string | null;
+  oldest_unpaid_invoice_at?: string | null;
+  card_expires_at?: string | null;
+  current_period_end?: string | null;
+  downgraded_at?: string | null;
 }
 
+/**
+ * Named, ordered rule sets the engine can evaluate with
+ * - DEFAULT: billing and product-usage rules
+ * - BILLING_ONLY: billing signals only, for accounts with no usage data
+ */
+export type RulePackId = 'DEFAULT' | 'BILLING_ONLY';
+
 /**
  * Risk levels for accounts
  */
@@ -30,7 +47,25 @@ export type RiskLevel = 'HIGH' | 'MEDIUM' | 'HEALTHY';
 export type Action = 'SEND_MESSAGE' | 'DO_NOTHING';
 
 /**
- * Result of rule evaluation
+ * Combined severity across every matching rule.
+ * CRITICAL when more than one HIGH rule fires.
+ */
+export type Severity = 'CRITICAL' | RiskLevel;
+
+/**
+ * One rule that fired, in multi-signal evaluation
+ */
+export interface RuleSignal {
+  ruleId: string;
+  ruleName: string;
+  riskLevel: RiskLevel;
+  reason: string;
+}
+
+/**
+ * Result of rule evaluation.
+ * The rule fields describe the primary (first-matching) rule; `signals` and
+ * `severity` are only set in 'all' mode.
  */
 export interface RuleResult {
   ruleId: string;
@@ -38,6 +73,38 @@ export interface RuleResult {
   riskLevel: RiskLevel;
   reason: string;
   suggestedAction: Action;
+  /** Every matching rule in priority order, primary first */
+  signals?: RuleSignal[];
+  severity?: Severity;
+  /** Every rule in the pack with what it checked, when tracing */
+  trace?: RuleTrace[];
+  /** Account fields and day counts the rules read, when tracing */
+  inputs?: TraceValues;
+}
+
+/**
+ * Values a rule compared, keyed by name (e.g. daysSinceActive, threshold)
+ */
+export type TraceValues = Record<string, string | number | boolean | null>;
+
+/**
+ * What a rule checks, with the values it saw for one account
+ */
+export interface RuleCheck {
+  condition: string;
+  values: TraceValues;
+}
+
+/**
+ * One rule's outcome in an evaluation trace
+ */
+export interface RuleTrace extends RuleCheck {
+  ruleId: string;
+  ruleName: string;
+  riskLevel: RiskLevel;
+  matched: boolean;
+  /** Turned off in the founder's settings, so never evaluated */
+  disabled: boolean;
 }
 
 /**
@@ -48,15 +115,34 @@ export interface ChurnRule {
   name: string;
   riskLevel: RiskLevel;
   suggestedAction: Action;
-  evaluate(account: Account, accountAgeDays?: number, daysSinceActive?: number | null): boolean;
-  getReason(account: Account): string;
+  evaluate(account: Account, context: EvaluationContext): boolean;
+  getReason(account: Account, context: EvaluationContext): string;
+  /** Describe the condition and the values it reads, for traces */
+  explain?(account: Account, context: EvaluationContext): RuleCheck;
+  /** Fixed thresholds and windows the rule uses, other than the founder's settings */
+  params?: Record<string, number>;
+}
+
+/**
+ * Point-in-time copy of an account, written on every sync and evaluation
+ */
+export interface AccountSnapshot {
+  mrr: number;
+  currency: string;
+  billing_status: Account['billing_status'];
+  created_at: string;
 }
 
 /**
- * Account with computed fields for rule evaluation
+ * Computed fields and history passed to every rule
  */
 export interface EvaluationContext {
-  account: Account;
   accountAgeDays: number;
   daysSinceActive: number | null;
+  /** Earlier snapshots of this account, oldest first */
+  history: AccountSnapshot[];
+  /** The founder's thresholds, with defaults filled in */
+  settings: RuleSettings;
+  /** Evaluation instant and the founder's time zone; every day count uses it */
+  clock: Clock;
 }
@@ -0,0 +1,107 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import type { DecisionLog } from '../../lib/convex.js';
+import type { CustomRule } from './dsl.js';
+import { M3_Contraction, RULE_PACK_VERSION } from './rules.js';
+import { resolveRuleSettings } from './settings.js';
+import { rulePackStamp, summarizeRevisions } from './version.js';
+
+const customRule: CustomRule = {
+  id: 'BIG_QUIET',
+  name: 'Big account gone quiet',
+  riskLevel: 'HIGH',
+  action: 'SEND_MESSAGE',
+  reason: 'A large account has been quiet for {{daysSinceActive}} days.',
+  when: { field: 'daysSinceActive', op: 'gt', value: 7 },
+};
+
+function decision(overrides: Partial<DecisionLog> = {}): DecisionLog {
+  return {
+    _id: 'log_1',
+    account_id: 'acc_1',
+    founder_id: 'founder_1',
+    rule_id: 'H1',
+    risk_level: 'HIGH',
+    action: 'SEND_MESSAGE',
+    explanation: null,
+    message: null,
+    fallback_used: false,
+    trace: null,
+    rule_version: RULE_PACK_VERSION,
+    rule_hash: 'aaaa',
+    inputs: null,
+    generator: 'template',
+    mrr: 99,
+    currency: 'usd',
+    outcome: null,
+    outcome_at: null,
+    created_at: '2026-03-02T09:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('Rule-pack stamp', () => {
+  it('should be stable for the same rules and settings', () => {
+    const a = rulePackStamp({ settings: resolveRuleSettings({ activationDays: 10 }) });
+    const b = rulePackStamp({ settings: resolveRuleSettings({ activationDays: 10 }) });
+
+    assert.strictEqual(a.version, RULE_PACK_VERSION);
+    assert.deepStrictEqual(a, b);
+  });
+
+  it('should change the hash when a threshold, custom rule or pack changes', () => {
+    const base = rulePackStamp().hash;
+
+    assert.notStrictEqual(
+      rulePackStamp({ settings: resolveRuleSettings({ activationDays: 10 }) }).hash,
+      base,
+    );
+    assert.notStrictEqual(rulePackStamp({ customRules: [customRule] }).hash, base);
+    assert.notStrictEqual(rulePackStamp({ rulePack: 'BILLING_ONLY' }).hash, base);
+  });
+
+  it("should follow a rule's declared params, not how its code is written", () => {
+    const base = rulePackStamp().hash;
+    const { evaluate, params } = M3_Contraction;
+
+    try {
+      M3_Contraction.evaluate = (account, context) => evaluate(account, context);
+      assert.strictEqual(rulePackStamp().hash, base);
+
+      M3_Contraction.params = { windowDays: 45 };
+      assert.notStrictEqual(rulePackStamp().hash, base);
+    } finally {
+      Object.assign(M3_Contraction, { evaluate, params });
+    }
+  });
+});
+
+describe('Rule revisions', () => {
+  it('should group decisions by version and hash, newest first', () => {
+    const revisions = summarizeRevisions([
+      decision({ _id: '1', rule_hash: 'aaaa', created_at: '2026-03-02T09:00:00Z' }),
+      decision({ _id: '2', rule_hash: 'aaaa', rule_id: 'M1', created_at: '2026-03-09T09:00:00Z' }),
+      decision({ _id: '3', rule_hash: 'bbbb', created_at: '2026-03-16T09:00:00Z' }),
+      decision({ _id: '4', rule_version: null, rule_hash: null }),
+    ]);
+
+    assert.deepStrictEqual(revisions, [
+      {
+        version: RULE_PACK_VERSION,
+        hash: 'bbbb',
+        decisions: 1,
+        firstSeen: '2026-03-16T09:00:00Z',
+        lastSeen: '2026-03-16T09:00:00Z',
+        byRule: { H1: 1 },
+      },
+      {
+        version: RULE_PACK_VERSION,
+        hash: 'aaaa',
+        decisions: 2,
+        firstSeen: '2026-03-02T09:00:00Z',
+        lastSeen: '2026-03-09T09:00:00Z',
+        byRule: { H1: 1, M1: 1 },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,85 @@
+import { createHash } from 'node:crypto';
+import type { DecisionLog } from '../../lib/convex.js';
+import { type CustomRule, mergeRules } from './dsl.js';
+import { RULE_PACKS, RULE_PACK_VERSION } from './rules.js';
+import { DEFAULT_RULE_SETTINGS, type RuleSettings } from './settings.js';
+import type { RulePackId } from './types.js';
+
+/**
+ * Rule-pack versions for decision logs.
+ *
+ * The version is bumped by hand when built-in rules' code changes. The hash
+ * covers what is declared as data: each rule's order, risk level, action and
+ * params, plus the founder's settings and custom rules. Decisions with the
+ * same version and hash were made by the same logic.
+ */
+
+export interface RulePackStamp {
+  version: string;
+  hash: string;
+}
+
+export function rulePackStamp(
+  options: { rulePack?: RulePackId; settings?: RuleSettings; customRules?: CustomRule[] } = {},
+): RulePackStamp {
+  const customRules = options.customRules ?? [];
+  const rules = mergeRules(RULE_PACKS[options.rulePack ?? 'DEFAULT'], customRules);
+
+  const content = JSON.stringify({
+    version: RULE_PACK_VERSION,
+    rules: rules.map((rule) => [
+      rule.id,
+      rule.riskLevel,
+      rule.suggestedAction,
+      rule.params ?? null,
+    ]),
+    settings: options.settings ?? DEFAULT_RULE_SETTINGS,
+    customRules,
+  });
+
+  return {
+    version: RULE_PACK_VERSION,
+    hash: createHash('sha256').update(content).digest('hex').slice(0, 16),
+  };
+}
+
+export interface RuleRevision extends RulePackStamp {
+  decisions: number;
+  firstSeen: string;
+  lastSeen: string;
+  /** Decisions per rule ID */
+  byRule: Record<string, number>;
+}
+
+/**
+ * Group decisions by the rule pack that made them, newest revision first.
+ * Decisions logged before versions were recorded are left out.
+ */
+export function summarizeRevisions(decisions: DecisionLog[]): RuleRevision[] {
+  const revisions = new Map<string, RuleRevision>();
+
+  for (const decision of decisions) {
+    if (!decision.rule_version || !decision.rule_hash) continue;
+
+    const key = `${decision.rule_version}:${decision.rule_hash}`;
+    let revision = revisions.get(key);
+    if (!revision) {
+      revision = {
+        version: decision.rule_version,
+        hash: decision.rule_hash,
+        decisions: 0,
+        firstSeen: decision.created_at,
+        lastSeen: decision.created_at,
+        byRule: {},
+      };
+      revisions.set(key, revision);
+    }
+
+    revision.decisions++;
+    if (decision.created_at < revision.firstSeen) revision.firstSeen = decision.created_at;
+    if (decision.created_at > revision.lastSeen) revision.lastSeen = decision.created_at;
+    revision.byRule[decision.rule_id] = (revision.byRule[decision.rule_id] ?? 0) + 1;
+  }
+
+  return [...revisions.values()].sort((a, b) => b.lastSeen.localeCompare(a.lastSeen));
+}
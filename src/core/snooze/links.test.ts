@@ -0,0 +1,75 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import {
+  createSnoozeToken,
+  describeSnooze,
+  snoozeLinkKey,
+  snoozeLinkUrl,
+  verifySnoozeToken,
+} from './links.js';
+
+const SECRET = 'test-secret-that-is-at-least-32-chars';
+const NOW = new Date('2026-03-10T12:00:00Z');
+
+const payload = {
+  founderId: 'founder_1',
+  accountId: 'acc_1',
+  request: { action: 'SNOOZE' as const, days: 7 },
+  severity: 'HIGH' as const,
+  ruleId: 'H1',
+};
+
+describe('Snooze links', () => {
+  it('should round-trip a signed token', () => {
+    const token = createSnoozeToken(payload, SECRET, NOW);
+    const verified = verifySnoozeToken(token, SECRET, NOW);
+
+    assert.strictEqual(verified?.accountId, 'acc_1');
+    assert.deepStrictEqual(verified?.request, { action: 'SNOOZE', days: 7 });
+  });
+
+  it('should reject a token signed with another secret', () => {
+    const token = createSnoozeToken(payload, 'another-secret-that-is-32-chars-long', NOW);
+
+    assert.strictEqual(verifySnoozeToken(token, SECRET, NOW), null);
+  });
+
+  it('should reject a tampered payload', () => {
+    const [, signature] = createSnoozeToken(payload, SECRET, NOW).split('.');
+    const forged = Buffer.from(JSON.stringify({ ...payload, accountId: 'acc_2' })).toString(
+      'base64url',
+    );
+
+    assert.strictEqual(verifySnoozeToken(`${forged}.${signature}`, SECRET, NOW), null);
+  });
+
+  it('should reject an expired token', () => {
+    const token = createSnoozeToken(payload, SECRET, NOW);
+
+    assert.strictEqual(verifySnoozeToken(token, SECRET, new Date('2026-04-01T00:00:00Z')), null);
+  });
+
+  it('should build the link under the base URL', () => {
+    assert.strictEqual(
+      snoozeLinkUrl('https://app.example.com/', 'abc.def'),
+      'https://app.example.com/snooze/abc.def',
+    );
+  });
+
+  it('should sign links with a key derived from, not equal to, the app secret', () => {
+    const key = snoozeLinkKey(SECRET);
+    const token = createSnoozeToken(payload, key, NOW);
+
+    assert.notStrictEqual(key, SECRET);
+    assert.strictEqual(snoozeLinkKey(SECRET), key);
+    assert.strictEqual(verifySnoozeToken(token, SECRET, NOW), null);
+    assert.strictEqual(verifySnoozeToken(token, key, NOW)?.accountId, 'acc_1');
+  });
+
+  it('should describe what confirming will do', () => {
+    const token = createSnoozeToken(payload, SECRET, NOW);
+    const verified = verifySnoozeToken(token, SECRET, NOW);
+
+    assert.strictEqual(verified && describeSnooze(verified), 'Snooze this account for 7 days.');
+  });
+});
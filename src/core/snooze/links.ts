@@ -0,0 +1,87 @@
+import { createHmac } from 'node:crypto';
+import { addDays } from 'date-fns';
+import { z } from 'zod';
+import { verifyHmacSha256 } from '../ingest/providers/signature.js';
+import { SnoozeRequestSchema } from './snooze.js';
+
+/**
+ * Signed one-click snooze links for the digest email.
+ *
+ * A token is base64url JSON plus an HMAC-SHA256 of it, so the link works
+ * without a session. It carries the severity the founder saw, so a snooze
+ * made from an old email still ends when the risk gets worse.
+ *
+ * Opening a link only shows a confirmation page; the snooze is saved when
+ * the founder submits it, so mail scanners that follow links change nothing.
+ */
+
+export const SNOOZE_LINK_TTL_DAYS = 14;
+
+const TokenPayloadSchema = z.object({
+  founderId: z.string(),
+  accountId: z.string(),
+  request: SnoozeRequestSchema,
+  severity: z.enum(['CRITICAL', 'HIGH', 'MEDIUM', 'HEALTHY']),
+  ruleId: z.string(),
+  expiresAt: z.string(),
+});
+
+export type SnoozeTokenPayload = z.infer<typeof TokenPayloadSchema>;
+
+/**
+ * Key for signing links, derived from the app secret so a leaked link
+ * signature says nothing about session cookies and vice versa
+ */
+export function snoozeLinkKey(appSecret: string): string {
+  return createHmac('sha256', appSecret).update('churnpilot:snooze-links:v1').digest('hex');
+}
+
+export function createSnoozeToken(
+  payload: Omit<SnoozeTokenPayload, 'expiresAt'>,
+  secret: string,
+  now = new Date(),
+): string {
+  const body = Buffer.from(
+    JSON.stringify({ ...payload, expiresAt: addDays(now, SNOOZE_LINK_TTL_DAYS).toISOString() }),
+  ).toString('base64url');
+  const signature = createHmac('sha256', secret).update(body).digest('hex');
+
+  return `${body}.${signature}`;
+}
+
+/**
+ * The token's payload, or null when it is forged, malformed or expired
+ */
+export function verifySnoozeToken(
+  token: string,
+  secret: string,
+  now = new Date(),
+): SnoozeTokenPayload | null {
+  const [body, signature] = token.split('.');
+  if (!body || !signature || !verifyHmacSha256(body, signature, secret)) return null;
+
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  const parsed = TokenPayloadSchema.safeParse(decoded);
+  if (!parsed.success || parsed.data.expiresAt <= now.toISOString()) return null;
+
+  return parsed.data;
+}
+
+export function snoozeLinkUrl(baseUrl: string, token: string): string {
+  return `${baseUrl.replace(/\/$/, '')}/snooze/${token}`;
+}
+
+/**
+ * What confirming the link will do, for the confirmation and result pages
+ */
+export function describeSnooze(payload: SnoozeTokenPayload): string {
+  return payload.request.action === 'HANDLED'
+    ? 'Mark this account as handled. It will come back only if its risk gets worse.'
+    : `Snooze this account for ${payload.request.days} days.`;
+}
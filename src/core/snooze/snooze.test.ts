@@ -0,0 +1,88 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import type { AccountSnooze } from '../../lib/convex.js';
+import type { RuleResult } from '../rules/types.js';
+import { applySnoozes, isSnoozeActive, snoozeUntil } from './snooze.js';
+
+const NOW = new Date('2026-03-10T12:00:00Z');
+
+function result(overrides: Partial<RuleResult> = {}): RuleResult {
+  return {
+    ruleId: 'H1',
+    ruleName: 'Silent Drop-off',
+    riskLevel: 'HIGH',
+    reason: 'Stopped using product after activation (expected weekly usage).',
+    suggestedAction: 'SEND_MESSAGE',
+    ...overrides,
+  };
+}
+
+function snooze(overrides: Partial<AccountSnooze> = {}): AccountSnooze {
+  return {
+    _id: 'snooze_1',
+    founder_id: 'founder_1',
+    account_id: 'acc_1',
+    kind: 'SNOOZED',
+    severity: 'HIGH',
+    rule_id: 'H1',
+    until: '2026-03-17T12:00:00Z',
+    created_at: '2026-03-10T12:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('Account snoozes', () => {
+  it('should hold while unexpired and risk is no worse', () => {
+    assert.strictEqual(isSnoozeActive(snooze(), result(), NOW), true);
+    assert.strictEqual(isSnoozeActive(snooze(), result({ riskLevel: 'MEDIUM' }), NOW), true);
+  });
+
+  it('should end when it expires', () => {
+    const later = new Date('2026-03-18T00:00:00Z');
+
+    assert.strictEqual(isSnoozeActive(snooze(), result(), later), false);
+  });
+
+  it('should end when severity gets worse', () => {
+    assert.strictEqual(isSnoozeActive(snooze(), result({ severity: 'CRITICAL' }), NOW), false);
+    assert.strictEqual(
+      isSnoozeActive(snooze({ severity: 'MEDIUM' }), result({ riskLevel: 'HIGH' }), NOW),
+      false,
+    );
+  });
+
+  it('should keep a handled account out indefinitely at the same risk', () => {
+    const handled = snooze({ kind: 'HANDLED', until: null });
+
+    assert.strictEqual(isSnoozeActive(handled, result(), new Date('2027-01-01')), true);
+  });
+
+  it('should split evaluated accounts and report ended snoozes', () => {
+    const evaluated = [
+      { account: { _id: 'acc_1' }, result: result() },
+      { account: { _id: 'acc_2' }, result: result({ severity: 'CRITICAL' }) },
+      { account: { _id: 'acc_3' }, result: result() },
+    ];
+    const worsened = snooze({ _id: 'snooze_2', account_id: 'acc_2' });
+
+    const { visible, snoozed, ended } = applySnoozes(evaluated, [snooze(), worsened], NOW);
+
+    assert.deepStrictEqual(
+      visible.map((e) => e.account._id),
+      ['acc_2', 'acc_3'],
+    );
+    assert.deepStrictEqual(
+      snoozed.map((e) => e.account._id),
+      ['acc_1'],
+    );
+    assert.deepStrictEqual(
+      ended.map((s) => s._id),
+      ['snooze_2'],
+    );
+  });
+
+  it('should compute when a snooze ends', () => {
+    assert.strictEqual(snoozeUntil({ action: 'SNOOZE', days: 7 }, NOW), '2026-03-17T12:00:00.000Z');
+    assert.strictEqual(snoozeUntil({ action: 'HANDLED' }, NOW), null);
+  });
+});
@@ -0,0 +1,78 @@
+import { addDays } from 'date-fns';
+import { z } from 'zod';
+import type { AccountSnooze } from '../../lib/convex.js';
+import type { RuleResult, Severity } from '../rules/types.js';
+
+/**
+ * Account snoozes.
+ *
+ * A founder can mark an at-risk account as handled, or snooze it for a
+ * number of days. Either way it stays out of the digest until the snooze
+ * expires or the account's severity gets worse than when it was snoozed.
+ */
+
+export const SnoozeRequestSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('HANDLED') }).strict(),
+  z.object({ action: z.literal('SNOOZE'), days: z.number().int().min(1).max(90) }).strict(),
+]);
+
+export type SnoozeRequest = z.infer<typeof SnoozeRequestSchema>;
+
+const SEVERITY_RANK: Record<Severity, number> = {
+  HEALTHY: 0,
+  MEDIUM: 1,
+  HIGH: 2,
+  CRITICAL: 3,
+};
+
+export function severityOf(result: RuleResult): Severity {
+  return result.severity ?? result.riskLevel;
+}
+
+/**
+ * When a snooze requested now would end; null for HANDLED, which has no expiry
+ */
+export function snoozeUntil(request: SnoozeRequest, now = new Date()): string | null {
+  return request.action === 'SNOOZE' ? addDays(now, request.days).toISOString() : null;
+}
+
+/**
+ * Whether a snooze still holds for the account's current evaluation
+ */
+export function isSnoozeActive(
+  snooze: Pick<AccountSnooze, 'until' | 'severity'>,
+  result: RuleResult,
+  now = new Date(),
+): boolean {
+  if (snooze.until && snooze.until <= now.toISOString()) return false;
+  return SEVERITY_RANK[severityOf(result)] <= SEVERITY_RANK[snooze.severity];
+}
+
+/**
+ * Split evaluated accounts into those to show and those held back by a snooze.
+ * `ended` lists snoozes that expired or were overtaken by worse risk.
+ */
+export function applySnoozes<T extends { account: { _id: string }; result: RuleResult }>(
+  evaluated: T[],
+  snoozes: AccountSnooze[],
+  now = new Date(),
+): { visible: T[]; snoozed: T[]; ended: AccountSnooze[] } {
+  const byAccount = new Map(snoozes.map((s) => [s.account_id as string, s]));
+  const visible: T[] = [];
+  const snoozed: T[] = [];
+  const ended: AccountSnooze[] = [];
+
+  for (const entry of evaluated) {
+    const snooze = byAccount.get(entry.account._id);
+
+    if (snooze && isSnoozeActive(snooze, entry.result, now)) {
+      snoozed.push(entry);
+      continue;
+    }
+
+    if (snooze) ended.push(snooze);
+    visible.push(entry);
+  }
+
+  return { visible, snoozed, ended };
+}
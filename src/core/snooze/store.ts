@@ -0,0 +1,43 @@
+import { type AccountSnooze, api, convex } from '../../lib/convex.js';
+import type { Severity } from '../rules/types.js';
+import { type SnoozeRequest, snoozeUntil } from './snooze.js';
+
+export async function loadSnoozes(founderId: string): Promise<AccountSnooze[]> {
+  return (await convex.query(api.snoozes.getSnoozesByFounder, { founderId })) as AccountSnooze[];
+}
+
+/**
+ * Record a snooze at the account's current severity; returns when it ends
+ */
+export async function saveSnooze(
+  founderId: string,
+  accountId: string,
+  request: SnoozeRequest,
+  current: { severity: Severity; ruleId: string },
+): Promise<{ until: string | null }> {
+  const until = snoozeUntil(request);
+
+  await convex.mutation(api.snoozes.upsertSnooze, {
+    founderId,
+    accountId,
+    kind: request.action === 'HANDLED' ? 'HANDLED' : 'SNOOZED',
+    severity: current.severity,
+    ruleId: current.ruleId,
+    until: until ?? undefined,
+  });
+
+  return { until };
+}
+
+/**
+ * Drop snoozes that no longer apply. Non-blocking, like snapshot writes.
+ */
+export async function clearEndedSnoozes(ended: AccountSnooze[]): Promise<void> {
+  if (ended.length === 0) return;
+
+  try {
+    await convex.mutation(api.snoozes.deleteSnoozes, { ids: ended.map((s) => s._id) });
+  } catch (err) {
+    console.warn('Could not clear ended snoozes:', err);
+  }
+}
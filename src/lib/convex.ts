@@ -1,5 +1,7 @@
 import { ConvexHttpClient } from 'convex/browser';
 import { anyApi } from 'convex/server';
+import type { BillingProviderId } from '../core/ingest/providers/types.js';
+import type { RuleTrace, TraceValues } from '../core/rules/types.js';
 
 const CONVEX_URL = process.env.CONVEX_URL || 'http://localhost:3210';
 
@@ -17,6 +19,20 @@ export type Founder = {
   stripe_access_token: string | null;
   stripe_refresh_token: string | null;
   stripe_account_id: string | null;
+  stripe_webhook_secret: string | null;
+  billing_provider: BillingProviderId;
+  billing_api_key: string | null;
+  billing_webhook_secret: string | null;
+  stripe_sync_cursor: number | null;
+  last_synced_at: string | null;
+  base_currency: string | null;
+  time_zone: string | null;
+  outcome_window_days: number | null;
+  api_key_hash: string | null;
+  api_key_last4: string | null;
+  core_event: string | null;
+  product_description: string | null;
+  core_feature: string | null;
   created_at: string;
   updated_at: string;
 };
@@ -27,27 +43,152 @@ export type Account = {
   email: string;
   name: string | null;
   mrr: number;
+  currency: string;
   last_active_at: string | null;
   activated: boolean;
   core_used: boolean;
   usage_freq: 'DAILY' | 'WEEKLY';
   billing_status: 'ACTIVE' | 'PAYMENT_FAILED' | 'CANCELING' | 'CANCELED';
   cancel_at_period_end: boolean;
+  card_expires_at: string | null;
+  current_period_end: string | null;
+  billing_provider: BillingProviderId;
+  external_customer_id: string | null;
+  external_subscription_id: string | null;
   stripe_customer_id: string | null;
   stripe_subscription_id: string | null;
   created_at: string;
   updated_at: string;
 };
 
+export type Subscription = {
+  _id: Id<'subscriptions'>;
+  founder_id: Id<'founders'>;
+  account_id: Id<'accounts'>;
+  billing_provider: BillingProviderId;
+  external_subscription_id: string | null;
+  mrr: number;
+  currency: string;
+  billing_status: 'ACTIVE' | 'PAYMENT_FAILED' | 'CANCELING' | 'CANCELED';
+  cancel_at_period_end: boolean;
+  card_expires_at: string | null;
+  current_period_end: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type AccountSnapshot = {
+  _id: Id<'account_snapshots'>;
+  founder_id: Id<'founders'>;
+  account_id: Id<'accounts'>;
+  source: 'SYNC' | 'EVALUATION';
+  mrr: number;
+  currency: string;
+  billing_status: 'ACTIVE' | 'PAYMENT_FAILED' | 'CANCELING' | 'CANCELED';
+  cancel_at_period_end: boolean;
+  last_active_at: string | null;
+  activated: boolean;
+  core_used: boolean;
+  usage_freq: 'DAILY' | 'WEEKLY';
+  card_expires_at: string | null;
+  current_period_end: string | null;
+  rule_id: string | null;
+  risk_level: 'HIGH' | 'MEDIUM' | 'HEALTHY' | null;
+  severity: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'HEALTHY' | null;
+  run_id: Id<'evaluation_runs'> | null;
+  created_at: string;
+};
+
+export type EvaluationRun = {
+  _id: Id<'evaluation_runs'>;
+  founder_id: Id<'founders'>;
+  account_count: number;
+  risk_count: number;
+  mrr_at_risk: number;
+  currency: string;
+  created_at: string;
+};
+
+export type RuleSettingsRow = {
+  _id: Id<'rule_settings'>;
+  founder_id: Id<'founders'>;
+  activation_days: number | null;
+  inactive_days_daily: number | null;
+  inactive_days_weekly: number | null;
+  low_engagement_days: number | null;
+  contraction_threshold: number | null;
+  disabled_rules: string[];
+  created_at: string;
+  updated_at: string;
+};
+
+export type VoiceProfileRow = {
+  _id: Id<'voice_profiles'>;
+  founder_id: Id<'founders'>;
+  samples: string[];
+  sign_off: string | null;
+  formality: 'CASUAL' | 'NEUTRAL' | 'FORMAL';
+  avoid_words: string[];
+  created_at: string;
+  updated_at: string;
+};
+
+export type ContentPolicyRow = {
+  _id: Id<'content_policies'>;
+  founder_id: Id<'founders'>;
+  banned_terms: string[];
+  required_terms: string[];
+  allow_links: boolean | null;
+  allow_discounts: boolean | null;
+  max_message_length: number | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type AccountSnooze = {
+  _id: Id<'account_snoozes'>;
+  founder_id: Id<'founders'>;
+  account_id: Id<'accounts'>;
+  kind: 'HANDLED' | 'SNOOZED';
+  severity: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'HEALTHY';
+  rule_id: string;
+  until: string | null;
+  created_at: string;
+};
+
+export type CustomRuleRow = {
+  _id: Id<'custom_rules'>;
+  founder_id: Id<'founders'>;
+  rule_id: string;
+  name: string;
+  risk_level: 'HIGH' | 'MEDIUM';
+  action: 'SEND_MESSAGE' | 'DO_NOTHING';
+  reason: string;
+  condition: unknown;
+  insert_before: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
 export type DecisionLog = {
   _id: Id<'decision_logs'>;
   account_id: Id<'accounts'>;
+  founder_id: Id<'founders'> | null;
   rule_id: string;
   risk_level: 'HIGH' | 'MEDIUM' | 'HEALTHY';
   action: 'SEND_MESSAGE' | 'DO_NOTHING';
   explanation: string | null;
   message: string | null;
   fallback_used: boolean;
+  trace: RuleTrace[] | null;
+  rule_version: string | null;
+  rule_hash: string | null;
+  inputs: TraceValues | null;
+  generator: string | null;
+  mrr: number | null;
+  currency: string | null;
+  outcome: 'RECOVERED' | 'AT_RISK' | 'CHURNED' | null;
+  outcome_at: string | null;
   created_at: string;
 };
 
@@ -59,11 +200,32 @@ export type DigestLog = {
   sent_at: string;
 };
 
+export type SyncRun = {
+  _id: Id<'sync_runs'>;
+  founder_id: Id<'founders'>;
+  mode: 'FULL' | 'INCREMENTAL';
+  started_at: string;
+  duration_ms: number;
+  fetched_count: number;
+  upserted_count: number;
+  skipped_count: number;
+  canceled_count: number;
+  error: string | null;
+};
+
+export type FxRate = {
+  _id: Id<'fx_rates'>;
+  currency: string;
+  usd_rate: number;
+  updated_at: string;
+};
+
 export type AuditLead = {
   _id: Id<'audit_leads'>;
   email: string;
   company: string | null;
   mrr_at_risk: number;
+  currency: string;
   at_risk_count: number;
   created_at: string;
 };
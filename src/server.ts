@@ -6,7 +6,8 @@ import { logger } from 'hono/logger';
 import { config } from './config.js';
 import { destroySession, getSession } from './core/auth/session.js';
 import { stripeOAuthRoutes } from './core/ingest/billing.js';
-import { api, convex } from './lib/convex.js';
+import { stripeWebhookRoutes } from './core/ingest/stripe-webhook.js';
+import { type Founder, api, convex } from './lib/convex.js';
 
 const app = new Hono();
 
@@ -21,7 +22,46 @@ app.get('/audit', serveStatic({ path: './public/audit.html' }));
 app.post('/api/signup', async (c) => {
   try {
     const body = await c.req.json();
-    const { email, company, stripe_api_key } = body;
+    const { email, company, stripe_api_key, provider = 'stripe', api_key } = body;
+
+    const { getBillingProvider, isBillingProviderId } = await import(
+      './core/ingest/providers/index.js'
+    );
+
+    if (!isBillingProviderId(provider)) {
+      return c.json({ error: 'Unsupported billing provider' }, 400);
+    }
+
+    if (provider !== 'stripe') {
+      if (!email || !company || !api_key) {
+        return c.json({ error: 'Email, company, and API key are required' }, 400);
+      }
+
+      if (!(await getBillingProvider(provider).validateApiKey(api_key))) {
+        return c.json({ error: 'Invalid API key. Please check and try again.' }, 400);
+      }
+
+      const trialEndsAt = new Date();
+      trialEndsAt.setDate(trialEndsAt.getDate() + 7);
+
+      const founderId = await convex.mutation(api.founders.createFounder, {
+        email,
+        company,
+        plan: 'trial',
+        trial_ends_at: trialEndsAt.toISOString(),
+        service_paused: false,
+        billing_provider: provider,
+        billing_api_key: api_key,
+      });
+
+      const { createSession } = await import('./core/auth/session.js');
+      createSession(c, founderId as string);
+
+      const { syncProviderData } = await import('./core/ingest/billing.js');
+      await syncProviderData(founderId as string, provider, api_key);
+
+      return c.json({ success: true, founderId });
+    }
 
     if (!email || !company || !stripe_api_key) {
       return c.json({ error: 'Email, company, and Stripe API key are required' }, 400);
@@ -94,6 +134,7 @@ app.post('/api/audit', async (c) => {
       success: true,
       atRiskCount: result.atRiskCount,
       mrrAtRisk: result.totalMrrAtRisk,
+      currency: result.currency,
       message: `Audit sent! Check ${email} for your report.`,
     });
   } catch (err) {
@@ -103,6 +144,7 @@ app.post('/api/audit', async (c) => {
 });
 
 app.route('/api/stripe/oauth', stripeOAuthRoutes);
+app.route('/api/stripe/webhook', stripeWebhookRoutes);
 
 app.get('/dashboard', serveStatic({ path: './public/dashboard.html' }));
 
@@ -113,17 +155,34 @@ app.get('/api/account', async (c) => {
     return c.json({ error: 'Unauthorized' }, 401);
   }
 
-  const founder = await convex.query(api.founders.getFounderById, { id: founderId });
+  const founder = (await convex.query(api.founders.getFounderById, {
+    id: founderId,
+  })) as Founder | null;
 
   if (!founder) {
     return c.json({ error: 'Account not found' }, 404);
   }
 
-  const { _id, token, ...rest } = founder as { _id: string; token?: string | null } & Record<
-    string,
-    unknown
-  >;
-  return c.json(rest);
+  // Keys, tokens and webhook secrets never leave the server
+  const {
+    _id,
+    stripe_api_key,
+    stripe_access_token,
+    stripe_refresh_token,
+    stripe_webhook_secret,
+    billing_api_key,
+    billing_webhook_secret,
+    api_key_hash,
+    ...rest
+  } = founder;
+
+  return c.json({
+    ...rest,
+    has_stripe_connection: Boolean(stripe_api_key || stripe_access_token),
+    has_stripe_webhook_secret: Boolean(stripe_webhook_secret),
+    has_billing_api_key: Boolean(billing_api_key),
+    has_billing_webhook_secret: Boolean(billing_webhook_secret),
+  });
 });
 
 app.post('/api/account/toggle-pause', async (c) => {
@@ -149,6 +208,799 @@ app.post('/api/account/toggle-pause', async (c) => {
   return c.json({ service_paused: !currentState });
 });
 
+app.post('/api/account/base-currency', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const body = await c.req.json().catch(() => null);
+  const currency = typeof body?.currency === 'string' ? body.currency.trim().toLowerCase() : '';
+
+  if (!/^[a-z]{3}$/.test(currency)) {
+    return c.json({ error: 'currency must be a 3-letter ISO code' }, 400);
+  }
+
+  await convex.mutation(api.founders.updateFounder, {
+    id: founderId,
+    updates: { base_currency: currency },
+  });
+
+  return c.json({ base_currency: currency });
+});
+
+app.post('/api/account/time-zone', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const { isValidTimeZone } = await import('./core/rules/dates.js');
+
+  const body = await c.req.json().catch(() => null);
+  const timeZone = typeof body?.timeZone === 'string' ? body.timeZone.trim() : '';
+
+  if (!timeZone || !isValidTimeZone(timeZone)) {
+    return c.json({ error: 'timeZone must be an IANA time zone, e.g. Europe/Berlin' }, 400);
+  }
+
+  await convex.mutation(api.founders.updateFounder, {
+    id: founderId,
+    updates: { time_zone: timeZone },
+  });
+
+  return c.json({ time_zone: timeZone });
+});
+
+app.post('/api/account/outcome-window', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const { parseOutcomeWindow } = await import('./core/outcomes/outcomes.js');
+
+  const body = await c.req.json().catch(() => null);
+  const days = parseOutcomeWindow(body);
+
+  if (days === null) {
+    return c.json({ error: 'days must be a whole number from 7 to 180' }, 400);
+  }
+
+  await convex.mutation(api.founders.updateFounder, {
+    id: founderId,
+    updates: { outcome_window_days: days },
+  });
+
+  return c.json({ outcome_window_days: days });
+});
+
+app.post('/api/account/api-key', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const { generateApiKey, hashApiKey } = await import('./core/ingest/events.js');
+  const apiKey = generateApiKey();
+
+  await convex.mutation(api.founders.updateFounder, {
+    id: founderId,
+    updates: { api_key_hash: hashApiKey(apiKey), api_key_last4: apiKey.slice(-4) },
+  });
+
+  // The only time the key is shown; it can't be recovered, only rotated
+  return c.json({ api_key: apiKey });
+});
+
+app.post('/api/account/core-event', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const body = await c.req.json().catch(() => null);
+  const coreEvent = typeof body?.core_event === 'string' ? body.core_event.trim() : '';
+
+  if (!coreEvent) {
+    return c.json({ error: 'core_event is required' }, 400);
+  }
+
+  await convex.mutation(api.founders.updateFounder, {
+    id: founderId,
+    updates: { core_event: coreEvent },
+  });
+
+  return c.json({ core_event: coreEvent });
+});
+
+app.post('/api/account/product', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const { ProductProfileSchema } = await import('./core/ai/context.js');
+
+  const parsed = ProductProfileSchema.safeParse(await c.req.json().catch(() => ({})));
+
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const path = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+    return c.json({ error: `${path}${issue.message}` }, 400);
+  }
+
+  const updates = {
+    product_description: parsed.data.description,
+    core_feature: parsed.data.coreFeature,
+  };
+
+  await convex.mutation(api.founders.updateFounder, { id: founderId, updates });
+
+  return c.json(updates);
+});
+
+app.post('/api/events', async (c) => {
+  const apiKey = c.req.header('authorization')?.replace(/^Bearer\s+/i, '');
+
+  if (!apiKey) {
+    return c.json({ error: 'Missing API key' }, 401);
+  }
+
+  const { hashApiKey } = await import('./core/ingest/events.js');
+  const founder = await convex.query(api.founders.getFounderByApiKeyHash, {
+    apiKeyHash: hashApiKey(apiKey),
+  });
+
+  if (!founder) {
+    return c.json({ error: 'Invalid API key' }, 401);
+  }
+
+  try {
+    const body = await c.req.json().catch(() => null);
+
+    const { ingestEvents, parseEventPayload } = await import('./core/ingest/events.js');
+    const parsed = parseEventPayload(body);
+
+    if (!parsed.success) {
+      return c.json({ error: parsed.error }, 400);
+    }
+
+    const result = await ingestEvents(founder, parsed.events);
+
+    return c.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Event ingestion error:', error);
+    return c.json({ error: 'Failed to ingest events' }, 500);
+  }
+});
+
+app.post('/api/account/sync', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const { syncFounderBilling } = await import('./core/ingest/billing.js');
+    const stats = await syncFounderBilling(founderId, {
+      full: c.req.query('full') === 'true',
+    });
+
+    return c.json({ success: true, ...stats });
+  } catch (error) {
+    console.error('Sync error:', error);
+    return c.json({ error: 'Failed to sync billing data' }, 500);
+  }
+});
+
+app.get('/api/account/sync-runs', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const runs = await convex.query(api.logs.getSyncRunsByFounder, { founderId });
+
+  return c.json({ runs });
+});
+
+app.get('/api/accounts/:id', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const { explainAccount } = await import('./core/rules/explain.js');
+
+    const asOfParam = c.req.query('asOf');
+    const asOf = asOfParam ? new Date(asOfParam) : undefined;
+
+    if (asOf && Number.isNaN(asOf.getTime())) {
+      return c.json({ error: 'asOf must be an ISO date' }, 400);
+    }
+
+    const detail = await explainAccount(founderId, c.req.param('id'), { asOf });
+
+    if (!detail) {
+      return c.json({ error: 'Account not found' }, 404);
+    }
+
+    return c.json(detail);
+  } catch (error) {
+    console.error('Account detail error:', error);
+    return c.json({ error: 'Failed to load account' }, 500);
+  }
+});
+
+app.post('/api/accounts/:id/snooze', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const { SnoozeRequestSchema, severityOf } = await import('./core/snooze/snooze.js');
+  const { saveSnooze } = await import('./core/snooze/store.js');
+  const { explainAccount } = await import('./core/rules/explain.js');
+
+  const parsed = SnoozeRequestSchema.safeParse(await c.req.json().catch(() => null));
+
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const path = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+    return c.json({ error: `${path}${issue.message}` }, 400);
+  }
+
+  try {
+    const detail = await explainAccount(founderId, c.req.param('id'));
+
+    if (!detail) {
+      return c.json({ error: 'Account not found' }, 404);
+    }
+
+    const { until } = await saveSnooze(founderId, detail.account._id, parsed.data, {
+      severity: severityOf(detail.evaluation),
+      ruleId: detail.evaluation.ruleId,
+    });
+
+    return c.json({ success: true, until });
+  } catch (error) {
+    console.error('Snooze error:', error);
+    return c.json({ error: 'Failed to snooze account' }, 500);
+  }
+});
+
+app.delete('/api/accounts/:id/snooze', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const deleted = await convex.mutation(api.snoozes.deleteSnooze, {
+      founderId,
+      accountId: c.req.param('id'),
+    });
+
+    if (deleted === 0) {
+      return c.json({ error: 'Snooze not found' }, 404);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Unsnooze error:', error);
+    return c.json({ error: 'Failed to remove snooze' }, 500);
+  }
+});
+
+// Snooze links from the digest email; the signed token stands in for a session.
+// GET only asks for confirmation, so link scanners and prefetchers change nothing.
+app.get('/snooze/:token', async (c) => {
+  const { describeSnooze, snoozeLinkKey, verifySnoozeToken } = await import(
+    './core/snooze/links.js'
+  );
+
+  const token = c.req.param('token');
+  const payload = verifySnoozeToken(token, snoozeLinkKey(config.SESSION_SECRET));
+
+  if (!payload) {
+    return c.html('<p>This link is invalid or has expired.</p>', 400);
+  }
+
+  return c.html(
+    `<form method="post" action="/snooze/${encodeURIComponent(token)}">
+  <p>${describeSnooze(payload)}</p>
+  <button type="submit">Confirm</button>
+</form>`,
+  );
+});
+
+app.post('/snooze/:token', async (c) => {
+  const { snoozeLinkKey, verifySnoozeToken } = await import('./core/snooze/links.js');
+  const { saveSnooze } = await import('./core/snooze/store.js');
+
+  const payload = verifySnoozeToken(c.req.param('token'), snoozeLinkKey(config.SESSION_SECRET));
+
+  if (!payload) {
+    return c.html('<p>This link is invalid or has expired.</p>', 400);
+  }
+
+  try {
+    await saveSnooze(payload.founderId, payload.accountId, payload.request, {
+      severity: payload.severity,
+      ruleId: payload.ruleId,
+    });
+  } catch (error) {
+    console.error('Snooze link error:', error);
+    return c.html('<p>Could not update this account. Please try again.</p>', 500);
+  }
+
+  const message =
+    payload.request.action === 'HANDLED'
+      ? 'Marked as handled. It will come back only if its risk gets worse.'
+      : `Snoozed for ${payload.request.days} days.`;
+
+  return c.html(`<p>${message} <a href="/dashboard">Open dashboard</a></p>`);
+});
+
+app.post('/api/backtest', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const { BacktestRequestSchema, backtestFounder } = await import('./core/history/backtest.js');
+
+  const parsed = BacktestRequestSchema.safeParse(await c.req.json().catch(() => ({})));
+
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const path = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+    return c.json({ error: `${path}${issue.message}` }, 400);
+  }
+
+  try {
+    const report = await backtestFounder(founderId, parsed.data);
+
+    return c.json(report);
+  } catch (error) {
+    console.error('Backtest error:', error);
+    return c.json({ error: 'Failed to run backtest' }, 500);
+  }
+});
+
+app.get('/api/outcomes', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const { OUTCOME_REPORT_DAYS, outcomeReportForFounder } = await import('./core/outcomes/store.js');
+
+  const daysParam = c.req.query('days');
+  const days = daysParam === undefined ? OUTCOME_REPORT_DAYS : Number(daysParam);
+
+  if (!Number.isInteger(days) || days < 1 || days > 365) {
+    return c.json({ error: 'days must be a whole number from 1 to 365' }, 400);
+  }
+
+  try {
+    const report = await outcomeReportForFounder(founderId, { days });
+
+    return c.json(report);
+  } catch (error) {
+    console.error('Outcome report error:', error);
+    return c.json({ error: 'Failed to build outcome report' }, 500);
+  }
+});
+
+app.get('/api/decisions', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const { loadDecisionsByVersion } = await import('./core/rules/store.js');
+
+  const decisions = await loadDecisionsByVersion(founderId, {
+    version: c.req.query('version') || undefined,
+    hash: c.req.query('hash') || undefined,
+  });
+
+  return c.json({ decisions });
+});
+
+app.get('/api/decisions/revisions', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const { loadCustomRules, loadDecisionsByVersion, loadRuleSettings } = await import(
+    './core/rules/store.js'
+  );
+  const { rulePackStamp, summarizeRevisions } = await import('./core/rules/version.js');
+
+  const [decisions, settings, customRules] = await Promise.all([
+    loadDecisionsByVersion(founderId),
+    loadRuleSettings(founderId),
+    loadCustomRules(founderId),
+  ]);
+
+  return c.json({
+    current: rulePackStamp({ settings, customRules }),
+    revisions: summarizeRevisions(decisions),
+  });
+});
+
+app.get('/api/settings/rules', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const { CONFIGURABLE_RULES } = await import('./core/rules/rules.js');
+  const { DEFAULT_RULE_SETTINGS } = await import('./core/rules/settings.js');
+  const { loadRuleSettings } = await import('./core/rules/store.js');
+
+  return c.json({
+    settings: await loadRuleSettings(founderId),
+    defaults: DEFAULT_RULE_SETTINGS,
+    rules: CONFIGURABLE_RULES.map(({ id, name, riskLevel }) => ({ id, name, riskLevel })),
+  });
+});
+
+app.put('/api/settings/rules', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const { RuleSettingsUpdateSchema } = await import('./core/rules/settings.js');
+  const { saveRuleSettings } = await import('./core/rules/store.js');
+
+  const parsed = RuleSettingsUpdateSchema.safeParse(await c.req.json().catch(() => null));
+
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const path = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+    return c.json({ error: `${path}${issue.message}` }, 400);
+  }
+
+  const settings = await saveRuleSettings(founderId, parsed.data);
+
+  return c.json({ settings });
+});
+
+app.get('/api/settings/custom-rules', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const { DSL_FIELDS } = await import('./core/rules/dsl.js');
+  const { loadCustomRules } = await import('./core/rules/store.js');
+
+  return c.json({ rules: await loadCustomRules(founderId), fields: DSL_FIELDS });
+});
+
+app.put('/api/settings/custom-rules/:ruleId', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const { CustomRuleSchema } = await import('./core/rules/dsl.js');
+  const { CONFIGURABLE_RULES, Healthy } = await import('./core/rules/rules.js');
+  const { saveCustomRule } = await import('./core/rules/store.js');
+
+  const body = await c.req.json().catch(() => null);
+  const parsed = CustomRuleSchema.safeParse({ ...body, id: c.req.param('ruleId') });
+
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const path = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+    return c.json({ error: `${path}${issue.message}` }, 400);
+  }
+
+  const builtInIds = [...CONFIGURABLE_RULES, Healthy].map((rule) => rule.id);
+
+  if (builtInIds.includes(parsed.data.id)) {
+    return c.json({ error: `${parsed.data.id} is a built-in rule ID` }, 400);
+  }
+
+  await saveCustomRule(founderId, parsed.data);
+
+  return c.json({ rule: parsed.data });
+});
+
+app.delete('/api/settings/custom-rules/:ruleId', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const deleted = await convex.mutation(api.settings.deleteCustomRule, {
+    founderId,
+    ruleId: c.req.param('ruleId'),
+  });
+
+  if (deleted === 0) {
+    return c.json({ error: 'Rule not found' }, 404);
+  }
+
+  return c.json({ success: true });
+});
+
+app.get('/api/settings/content-policy', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const { BANNED_TERMS, DEFAULT_CONTENT_POLICY } = await import('./core/ai/policy.js');
+  const { loadContentPolicy } = await import('./core/ai/store.js');
+
+  return c.json({
+    policy: await loadContentPolicy(founderId),
+    defaults: DEFAULT_CONTENT_POLICY,
+    builtInTerms: BANNED_TERMS,
+  });
+});
+
+app.put('/api/settings/content-policy', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const { ContentPolicyUpdateSchema } = await import('./core/ai/policy.js');
+  const { saveContentPolicy } = await import('./core/ai/store.js');
+
+  const parsed = ContentPolicyUpdateSchema.safeParse(await c.req.json().catch(() => null));
+
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const path = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+    return c.json({ error: `${path}${issue.message}` }, 400);
+  }
+
+  const policy = await saveContentPolicy(founderId, parsed.data);
+
+  return c.json({ policy });
+});
+
+app.get('/api/settings/voice', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const { loadVoiceProfile } = await import('./core/ai/store.js');
+
+  return c.json({ voice: await loadVoiceProfile(founderId) });
+});
+
+app.put('/api/settings/voice', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const { VoiceProfileSchema } = await import('./core/ai/voice.js');
+  const { saveVoiceProfile } = await import('./core/ai/store.js');
+
+  const parsed = VoiceProfileSchema.safeParse(await c.req.json().catch(() => null));
+
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const path = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+    return c.json({ error: `${path}${issue.message}` }, 400);
+  }
+
+  await saveVoiceProfile(founderId, parsed.data);
+
+  return c.json({ voice: parsed.data });
+});
+
+app.delete('/api/settings/voice', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const deleted = await convex.mutation(api.settings.deleteVoiceProfile, { founderId });
+
+  if (deleted === 0) {
+    return c.json({ error: 'Voice profile not found' }, 404);
+  }
+
+  return c.json({ success: true });
+});
+
+/**
+ * Messages for every rule with and without a voice profile. Previews the
+ * profile in the body if one is sent, so it can be tried before saving.
+ */
+app.post('/api/settings/voice/preview', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const { VoiceProfileSchema } = await import('./core/ai/voice.js');
+  const { previewVoice } = await import('./core/ai/preview.js');
+  const { generationLimits, loadContentPolicy, loadVoiceProfile } = await import(
+    './core/ai/store.js'
+  );
+  const { loadCustomRules } = await import('./core/rules/store.js');
+  const { productProfile } = await import('./core/ai/context.js');
+  const { systemClock } = await import('./core/rules/dates.js');
+
+  const body = await c.req.json().catch(() => null);
+  let voice = null;
+
+  if (body) {
+    const parsed = VoiceProfileSchema.safeParse(body);
+
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      const path = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+      return c.json({ error: `${path}${issue.message}` }, 400);
+    }
+
+    voice = parsed.data;
+  } else {
+    voice = await loadVoiceProfile(founderId);
+  }
+
+  if (!voice) {
+    return c.json({ error: 'No voice profile to preview' }, 400);
+  }
+
+  const founder = (await convex.query(api.founders.getFounderById, {
+    id: founderId,
+  })) as Founder | null;
+
+  const previews = await previewVoice(voice, {
+    customRules: await loadCustomRules(founderId),
+    policy: await loadContentPolicy(founderId),
+    product: productProfile(founder),
+    clock: systemClock(founder?.time_zone ?? undefined),
+    ...generationLimits(),
+  });
+
+  return c.json({ previews });
+});
+
+app.post('/api/stripe/webhook-secret', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const body = await c.req.json().catch(() => null);
+  const secret = typeof body?.webhook_secret === 'string' ? body.webhook_secret.trim() : '';
+
+  if (!secret.startsWith('whsec_')) {
+    return c.json({ error: 'Invalid Stripe webhook secret format' }, 400);
+  }
+
+  await convex.mutation(api.founders.updateFounder, {
+    id: founderId,
+    updates: { stripe_webhook_secret: secret },
+  });
+
+  return c.json({
+    success: true,
+    webhook_url: `${config.BASE_URL}/api/stripe/webhook/${founderId}`,
+  });
+});
+
+app.post('/api/billing/webhook-secret', async (c) => {
+  const founderId = getSession(c);
+
+  if (!founderId) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const body = await c.req.json().catch(() => null);
+  const secret = typeof body?.webhook_secret === 'string' ? body.webhook_secret.trim() : '';
+
+  if (!secret) {
+    return c.json({ error: 'webhook_secret is required' }, 400);
+  }
+
+  await convex.mutation(api.founders.updateFounder, {
+    id: founderId,
+    updates: { billing_webhook_secret: secret },
+  });
+
+  return c.json({
+    success: true,
+    webhook_url: `${config.BASE_URL}/api/billing/webhook/${founderId}`,
+  });
+});
+
+/**
+ * Paddle / Lemon Squeezy webhooks. These payloads don't carry everything an
+ * account needs (customer email, price), so a verified event re-fetches the
+ * subscription it refers to. Events without one are acknowledged and left to
+ * the scheduled sync.
+ */
+app.post('/api/billing/webhook/:founderId', async (c) => {
+  const founderId = c.req.param('founderId');
+  const founder = (await convex.query(api.founders.findFounderById, { id: founderId })) as {
+    billing_provider?: string | null;
+    billing_api_key?: string | null;
+    billing_webhook_secret?: string | null;
+  } | null;
+
+  const { getBillingProvider, isBillingProviderId } = await import(
+    './core/ingest/providers/index.js'
+  );
+  const providerId = founder?.billing_provider;
+
+  if (
+    !founder?.billing_webhook_secret ||
+    !founder.billing_api_key ||
+    !isBillingProviderId(providerId) ||
+    providerId === 'stripe'
+  ) {
+    return c.json({ error: 'Webhook not configured' }, 404);
+  }
+
+  const body = await c.req.text();
+  const provider = getBillingProvider(providerId);
+
+  if (!provider.verifyWebhook(body, c.req.header(), founder.billing_webhook_secret)) {
+    return c.json({ error: 'Invalid signature' }, 401);
+  }
+
+  const subscriptionId = provider.webhookSubscriptionId(body);
+  if (!subscriptionId) {
+    return c.json({ received: true });
+  }
+
+  try {
+    const { syncProviderSubscription } = await import('./core/ingest/billing.js');
+    await syncProviderSubscription(founderId, providerId, founder.billing_api_key, subscriptionId);
+
+    return c.json({ received: true });
+  } catch (error) {
+    console.error('Billing webhook error:', error);
+    return c.json({ error: 'Webhook processing failed' }, 500);
+  }
+});
+
 app.post('/api/stripe/disconnect', async (c) => {
   const founderId = getSession(c);
 